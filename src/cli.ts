@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { runCspCli } from '@lib/cli/CspCli';
+
+runCspCli(process.argv.slice(2)).then((exitCode: number) => {
+  process.exitCode = exitCode;
+});
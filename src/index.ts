@@ -6,21 +6,177 @@ export type {
   OtherDirectives,
   DeprecatedDirectives,
   Directives,
+  FlagDirectives,
+  TokenListDirectives,
+  SourceListDirectives,
+  DirectiveFlag,
+  DirectiveValue,
   AuthorisedOriginesByEnvironment,
+  CspKeyword,
+  CspSource,
   DefaultOrigin,
+  ExtendedOrigin,
   AuthorisedOrigins,
   CspPolicies,
+  CspPoliciesProvider,
 } from './lib/csp/CspDirectives';
-export { computeHeaderNameByReportType } from './lib/csp/CspHeaders';
+export { computeHeaderNameByReportType, computeCspHeadersForEnvironment } from './lib/csp/CspHeaders';
+export type { ReportType, ReportTypeByEnvironment } from './lib/csp/CspHeaders';
+export {
+  computeSecurityHeadersForEnvironment,
+  computePermissionsPolicyHeaderValue,
+  computeStrictTransportSecurityHeaderValue,
+} from './lib/csp/SecurityHeaders';
+export type {
+  SecurityHeaders,
+  SecurityHeadersByEnvironment,
+  PermissionsPolicy,
+  PermissionsPolicyFeature,
+  PermissionsPolicyAllowlist,
+  StrictTransportSecurity,
+  ReferrerPolicy,
+  CrossOriginOpenerPolicy,
+  CrossOriginEmbedderPolicy,
+  CrossOriginResourcePolicy,
+} from './lib/csp/SecurityHeaders';
+export { computeCspRulesForPath } from './lib/csp-routes/CspRoutes';
+export type { CspRoutePolicy, CspRoutePolicies } from './lib/csp-routes/CspRoutes';
+export { CSP_PRESETS, computeRulesWithPresets } from './lib/csp-presets/CspPresets';
+export type { CspPreset, CspPresetName, CspPresetOption } from './lib/csp-presets/CspPresets';
+export {
+  csp,
+  keyword,
+  self,
+  none,
+  unsafeInline,
+  unsafeEval,
+  unsafeHashes,
+  wasmUnsafeEval,
+  strictDynamic,
+  reportSample,
+  inlineSpeculationRules,
+  nonce,
+  hash,
+  host,
+  scheme,
+} from './lib/csp-builder/CspPolicyBuilder';
+export type {
+  CspBuilderSource,
+  CspPolicyBuilder,
+  CspEnvironmentPolicyBuilder,
+  CspEnvironmentPolicies,
+} from './lib/csp-builder/CspPolicyBuilder';
+export {
+  registerConfigurationFormatter,
+} from './lib/csp-configuration-generation/CspConfigurationFileGeneration';
+export type {
+  ConfigurationFilesOptions,
+  ConfigurationFormat,
+  ConfigurationFormatter,
+  ConfigurationHeader,
+  ConfigurationRoute,
+  OutputConfiguration,
+} from './lib/csp-configuration-generation/CspConfigurationFileGeneration';
+export {
+  findOutdatedCspConfigurationFiles,
+  checkCspConfigurationFiles,
+} from './lib/csp-configuration-generation/CheckCspConfigurationFiles';
+export type {
+  OutdatedConfigurationFile,
+} from './lib/csp-configuration-generation/CheckCspConfigurationFiles';
 export {
   cspConfigurationFileGenerationPlugin,
 } from './lib/plugins/CspConfigurationFileGenerationPlugin';
 export type {
   CspConfigurationGenerationOptions,
 } from './lib/plugins/CspConfigurationFileGenerationPlugin';
+export {
+  cspInlineHashesPlugin,
+} from './lib/plugins/CspInlineHashesPlugin';
+export type {
+  CspInlineHashesOptions,
+} from './lib/plugins/CspInlineHashesPlugin';
+export type { HashAlgorithm } from './lib/csp-hashes/CspInlineHashes';
+export {
+  cspSubresourceIntegrityPlugin,
+} from './lib/plugins/CspSubresourceIntegrityPlugin';
+export type {
+  SubresourceIntegrityConfiguration,
+  CrossOrigin,
+} from './lib/plugins/CspSubresourceIntegrityPlugin';
+export {
+  cspMetaTagPlugin,
+} from './lib/plugins/CspMetaTagPlugin';
+export type {
+  CspMetaTagOptions,
+} from './lib/plugins/CspMetaTagPlugin';
+export { computeCspMetaTagPolicy } from './lib/csp-meta-tag/CspMetaTag';
+export type { CspMetaTagPolicy } from './lib/csp-meta-tag/CspMetaTag';
 export {
   cspProxyPlugin,
 } from './lib/plugins/CspProxyPlugin';
 export type {
   CspProxyPluginOptions,
+  NoncesConfiguration,
 } from './lib/plugins/CspProxyPlugin';
+export {
+  createCspRequestHandler,
+  createCspConnectMiddleware,
+  createCspFastifyHook,
+  getCurrentRequestNonce,
+  getResponseNonce,
+} from './lib/csp-proxy/CspProxy';
+export { computeHtmlWithNonce } from './lib/csp-proxy/HtmlNonceInjection';
+export type { DevServerRelaxationsConfiguration } from './lib/csp-proxy/DevServerRelaxations';
+export type {
+  CspMiddlewareOptions,
+  CspRequestHandler,
+  CspRequestResult,
+  CspFastifyHook,
+} from './lib/csp-proxy/CspProxy';
+export type {
+  ReportCollectorConfiguration,
+  CspViolation,
+} from './lib/csp-report/CspReportCollector';
+export { computeLearnedPolicy } from './lib/csp-learning/CspLearningMode';
+export type { LearningModeConfiguration, CspLearnedPolicy } from './lib/csp-learning/CspLearningMode';
+export {
+  validateCspPolicies,
+  formatCspValidationIssue,
+} from './lib/csp-validation/CspPolicyValidation';
+export type {
+  CspValidationIssue,
+  ValidationConfiguration,
+  ValidationLevel,
+} from './lib/csp-validation/CspPolicyValidation';
+export {
+  evaluateCspPolicy,
+  evaluateCspPolicies,
+  computeCspPolicyScore,
+  formatCspEvaluationReport,
+  checkCspEvaluationScores,
+} from './lib/csp-evaluation/CspPolicyEvaluation';
+export type {
+  CspEvaluationFinding,
+  CspEnvironmentEvaluation,
+  CspEvaluationReportFormat,
+  CspPoliciesEvaluationOptions,
+  EvaluationConfiguration,
+  EvaluationSeverity,
+} from './lib/csp-evaluation/CspPolicyEvaluation';
+export {
+  computeCspPoliciesJsonSchema,
+  loadCspPolicyFile,
+} from './lib/csp-policy-file/CspPolicyFile';
+export type { JsonSchema } from './lib/csp-policy-file/CspPolicyFile';
+export {
+  computeCspPolicyDiff,
+  computeCspEnvironmentsDiff,
+  computeCspBaselineDiff,
+  formatCspPolicyDiffReport,
+} from './lib/csp-diff/CspPolicyDiff';
+export { extractCspPoliciesFromConfigurationFile } from './lib/csp-configuration-generation/ConfigurationFormatters';
+export type {
+  CspDirectiveDiff,
+  CspPolicyDiffReport,
+} from './lib/csp-diff/CspPolicyDiff';
@@ -0,0 +1,412 @@
+import { checkCspConfigurationFiles } from '@lib/csp-configuration-generation/CheckCspConfigurationFiles';
+import {
+  ConfigurationFilesOptions,
+  ConfigurationFormat,
+  ConfigurationFormatter,
+  OutputConfiguration,
+  generateCspConfigurationFiles,
+  resolveConfigurationFormatters,
+  resolveOutputConfiguration,
+} from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CspPolicyBuilder, resolveCspPolicies } from '@lib/csp-builder/CspPolicyBuilder';
+import { computeCspHeadersForEnvironment, ReportType, ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import { loadCspPolicyFile } from '@lib/csp-policy-file/CspPolicyFile';
+import { CspRoutePolicy, resolveCspRoutePolicies } from '@lib/csp-routes/CspRoutes';
+import { computeRoutesWithPresets, computeRulesWithPresets, CspPresetOption } from '@lib/csp-presets/CspPresets';
+import {
+  checkCspEvaluationScores,
+  CspEnvironmentEvaluation,
+  CspEvaluationReportFormat,
+  evaluateCspPolicies,
+  formatCspEvaluationReport,
+} from '@lib/csp-evaluation/CspPolicyEvaluation';
+import {
+  CspValidationIssue,
+  formatCspValidationIssue,
+  validateCspPolicies,
+} from '@lib/csp-validation/CspPolicyValidation';
+import {
+  CSP_CONFIGURATION_FILE_GENERATION_PLUGIN_NAME,
+  CspConfigurationGenerationOptions,
+  CspPluginApi,
+} from '@lib/plugins/CspConfigurationFileGenerationPlugin';
+import { CSP_INLINE_HASHES_PLUGIN_NAME, CspInlineHashesOptions } from '@lib/plugins/CspInlineHashesPlugin';
+import { CSP_PROXY_PLUGIN_NAME, CspProxyPluginOptions } from '@lib/plugins/CspProxyPlugin';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { Plugin, PluginOption } from 'vite';
+
+/**
+ * Writes the command output, the standard and error outputs of the process by default.
+ *
+ * @property write - Writes the result of the command
+ * @property writeError - Writes the errors
+ */
+export type CspCliOutput = {
+  write: (text: string) => void,
+  writeError: (text: string) => void,
+};
+
+/**
+ * The options of the command-line interface, after parsing the arguments.
+ *
+ * @property config - The path of the Vite configuration file, found in the working directory by default
+ * @property rules - The path of a standalone policy file, used instead of the Vite configuration
+ * @property mode - The Vite mode used to load the configuration, default is `production`
+ * @property env - The environments, default is the environments of the configuration file generation plugin
+ * @property format - The formats of the configuration files, default is the formats of the configuration file generation plugin, or the format of the evaluation report
+ * @property reportType - The report type, default is the report type of the plugins
+ * @property output - The output directory of the configuration files, relative to the Vite root
+ * @property combined - If true, the configurations of every environment are written in one file per format
+ * @property minimumScore - The minimum score of the evaluated policies, the evaluate command fails if a policy scores lower
+ */
+type CspCliOptions = {
+  config?: string,
+  rules?: string,
+  mode?: string,
+  env?: string[],
+  format?: string[],
+  reportType?: string,
+  output?: string,
+  combined?: boolean,
+  minimumScore?: string,
+};
+
+/**
+ * The rules and the generation settings used by the commands.
+ * `inlineHashes` is true when the Vite configuration uses the inline hashes plugin, whose configuration files depend on the build.
+ */
+type CspCliConfiguration = {
+  root: string,
+  inlineHashes?: boolean,
+  rules: CspPolicies<string>,
+  environments: Set<string>,
+  reportType?: ReportTypeByEnvironment<string>,
+  reportOnlyRules?: CspPolicies<string>,
+  securityHeaders?: SecurityHeadersByEnvironment<string>,
+  formats?: ConfigurationFormat[],
+  output?: OutputConfiguration,
+  routes?: CspRoutePolicy<string>[],
+};
+
+type CspCliCommand = (configuration: CspCliConfiguration, options: CspCliOptions, cliOutput: CspCliOutput) => Promise<number>;
+
+const REPORT_TYPES: ReportType[] = ['report', 'strict'];
+
+const EVALUATION_REPORT_FORMATS: CspEvaluationReportFormat[] = ['console', 'json', 'markdown'];
+
+const isReportType = (value: string): value is ReportType => (REPORT_TYPES as string[]).includes(value);
+
+const isEvaluationReportFormat = (value: string): value is CspEvaluationReportFormat => (EVALUATION_REPORT_FORMATS as string[]).includes(value);
+
+const USAGE: string = `Usage: vite-plugin-content-security-policy <command> [options]
+
+Commands:
+  generate   Generate the server configuration files of the environments
+  print      Print the policy of an environment, or of the default policy without --env
+  validate   Check the rules for errors and risky sources
+  check      Check the generated configuration files are up to date with the rules
+  evaluate   Evaluate the strength of the policies of the environments, and of the default policy without --env, in the console, json or markdown --format
+
+Options:
+  --config <file>        The Vite configuration file, found in the current directory by default
+  --rules <file>         A JSON, YAML, JavaScript or TypeScript policy file, used instead of the Vite configuration
+  --mode <mode>          The Vite mode used to load the configuration, default is production
+  --env <environment>    An environment, can be repeated, default is the environments of the Vite configuration
+  --format <format>      A configuration format, e.g. nginx, can be repeated
+  --report-type <type>   report or strict
+  --output <directory>   The output directory of the configuration files
+  --combined             Write every environment in one file per format
+  --minimum-score <n>    Fail the evaluate command if an enforced policy scores lower
+  --help                 Show this help
+`;
+
+const DEFAULT_CLI_OUTPUT: CspCliOutput = {
+  write: (text: string) => process.stdout.write(text),
+  writeError: (text: string) => process.stderr.write(text),
+};
+
+const flattenPlugins = async (plugins: PluginOption[]): Promise<Plugin[]> => {
+  const flattenedPlugins: Plugin[] = [];
+  for (const pluginOption of plugins) {
+    const plugin: Awaited<PluginOption> = await pluginOption;
+    if (Array.isArray(plugin)) {
+      flattenedPlugins.push(...await flattenPlugins(plugin));
+    } else if (plugin) {
+      flattenedPlugins.push(plugin);
+    }
+  }
+  return flattenedPlugins;
+};
+
+const findPluginOptions = <Options>(plugins: Plugin[], pluginName: string): Options | undefined => (
+  (plugins.find((plugin: Plugin) => plugin.name === pluginName)?.api as CspPluginApi<Options> | undefined)?.options
+);
+
+const loadRules = async (rules: CspPolicies<string> | CspPolicyBuilder<string> | string, root: string): Promise<CspPolicies<string>> => (
+  typeof rules === 'string' ? loadCspPolicyFile<string>(path.resolve(root, rules)) : resolveCspPolicies<string>(rules)
+);
+
+/**
+ * Loads the rules and the generation settings of the plugins declared in the Vite configuration.
+ * The options of the configuration file generation plugin are used first, then the options of the inline hashes plugin and of the proxy plugin.
+ * The sources of the presets of the plugin are added to the rules.
+ *
+ * @param cwd The working directory, where the Vite configuration file is searched
+ * @param configFile The path of the Vite configuration file, found in the working directory if undefined
+ * @param mode The Vite mode used to load the configuration
+ * @returns {Promise<CspCliConfiguration>} The rules and the generation settings
+ * @throws {Error} If no Vite configuration file is found, or if it does not declare any plugin of this package
+ */
+const loadViteConfiguration = async (cwd: string, configFile: string | undefined, mode: string): Promise<CspCliConfiguration> => {
+  // Vite is only loaded to read its configuration, so the commands run on a policy file do not require it
+  const { loadConfigFromFile } = await import('vite');
+  const loadedConfig: Awaited<ReturnType<typeof loadConfigFromFile>> = await loadConfigFromFile(
+    { command: 'build', mode },
+    configFile && path.resolve(cwd, configFile),
+    cwd,
+    'silent',
+  );
+  if (!loadedConfig) {
+    throw new Error(`No Vite configuration file found in ${cwd}, use --config or --rules`);
+  }
+
+  const root: string = path.resolve(cwd, loadedConfig.config.root ?? '');
+  const plugins: Plugin[] = await flattenPlugins(loadedConfig.config.plugins ?? []);
+  const inlineHashes: boolean = plugins.some((plugin: Plugin) => plugin.name === CSP_INLINE_HASHES_PLUGIN_NAME);
+  const resolveRoutes = (routes: CspRoutePolicy<string>[] = [], presets?: CspPresetOption[]): CspRoutePolicy<string>[] => computeRoutesWithPresets<string>(
+    resolveCspRoutePolicies<string>(routes, root, loadedConfig.config.base, loadedConfig.config.build?.rollupOptions?.input),
+    presets,
+  );
+  const generationOptions: CspConfigurationGenerationOptions<string> | CspInlineHashesOptions<string> | undefined = findPluginOptions<CspConfigurationGenerationOptions<string>>(
+    plugins,
+    CSP_CONFIGURATION_FILE_GENERATION_PLUGIN_NAME,
+  ) ?? findPluginOptions<CspInlineHashesOptions<string>>(plugins, CSP_INLINE_HASHES_PLUGIN_NAME);
+  if (generationOptions) {
+    return {
+      root,
+      inlineHashes,
+      rules: computeRulesWithPresets<string>(await loadRules(generationOptions.rules, root), generationOptions.presets),
+      environments: generationOptions.environments,
+      reportType: generationOptions.reportType,
+      reportOnlyRules: generationOptions.reportOnlyRules && computeRulesWithPresets<string>(generationOptions.reportOnlyRules, generationOptions.presets),
+      securityHeaders: generationOptions.securityHeaders,
+      formats: generationOptions.formats,
+      output: generationOptions.output,
+      routes: resolveRoutes(generationOptions.routes, generationOptions.presets),
+    };
+  }
+
+  const proxyOptions: CspProxyPluginOptions<string> | undefined = findPluginOptions(plugins, CSP_PROXY_PLUGIN_NAME);
+  if (proxyOptions) {
+    return {
+      root,
+      rules: computeRulesWithPresets<string>(await loadRules(proxyOptions.rules, root), proxyOptions.presets),
+      environments: new Set<string>(),
+      reportType: proxyOptions.reportType,
+      reportOnlyRules: proxyOptions.reportOnlyRules && computeRulesWithPresets<string>(proxyOptions.reportOnlyRules, proxyOptions.presets),
+      securityHeaders: proxyOptions.securityHeaders,
+      routes: resolveRoutes(proxyOptions.routes, proxyOptions.presets),
+    };
+  }
+
+  throw new Error(`The Vite configuration ${loadedConfig.path} does not use cspConfigurationFileGenerationPlugin, cspInlineHashesPlugin or cspProxyPlugin`);
+};
+
+const loadConfiguration = async (options: CspCliOptions, cwd: string): Promise<CspCliConfiguration> => {
+  const configuration: CspCliConfiguration = options.rules
+    ? { root: cwd, rules: await loadCspPolicyFile<string>(path.resolve(cwd, options.rules)), environments: new Set<string>() }
+    : await loadViteConfiguration(cwd, options.config, options.mode ?? 'production');
+
+  const { reportType } = options;
+  if (reportType !== undefined && !isReportType(reportType)) {
+    throw new Error(`Unknown report type "${reportType}", use ${REPORT_TYPES.join(' or ')}`);
+  }
+
+  return {
+    ...configuration,
+    environments: options.env ? new Set<string>(options.env) : configuration.environments,
+    reportType: reportType ?? configuration.reportType,
+    formats: options.format ?? configuration.formats,
+    output: {
+      ...configuration.output,
+      directory: options.output ?? configuration.output?.directory,
+      combined: options.combined ?? configuration.output?.combined,
+    },
+  };
+};
+
+const requireEnvironments = (configuration: CspCliConfiguration): Set<string> => {
+  if (configuration.environments.size === 0) {
+    throw new Error('No environment to process, use --env or configure the environments of cspConfigurationFileGenerationPlugin');
+  }
+  return configuration.environments;
+};
+
+const computeFilesOptions = (configuration: CspCliConfiguration): ConfigurationFilesOptions<string> => {
+  const formatters: ConfigurationFormatter[] = resolveConfigurationFormatters(configuration.formats);
+  return {
+    reportType: configuration.reportType,
+    formatters,
+    output: resolveOutputConfiguration(configuration.root, formatters, configuration.output),
+    reportOnlyRules: configuration.reportOnlyRules,
+    securityHeaders: configuration.securityHeaders,
+    routes: configuration.routes,
+  };
+};
+
+/**
+ * The files of the inline hashes plugin include the hashes of the built HTML documents, which are only known during `vite build`,
+ * so the files written or compared without them would be wrong.
+ */
+const rejectInlineHashes = (configuration: CspCliConfiguration, buildCommand: string) => {
+  if (configuration.inlineHashes) {
+    throw new Error(`The Vite configuration uses cspInlineHashesPlugin, whose configuration files include the hashes of the built HTML documents: ${buildCommand}`);
+  }
+};
+
+const generateCommand: CspCliCommand = async (configuration: CspCliConfiguration) => {
+  rejectInlineHashes(configuration, 'run vite build to generate them');
+  const environments: Set<string> = requireEnvironments(configuration);
+  await generateCspConfigurationFiles<string>(configuration.rules, environments, computeFilesOptions(configuration));
+  return 0;
+};
+
+const printCommand: CspCliCommand = async (configuration: CspCliConfiguration, options: CspCliOptions, cliOutput: CspCliOutput) => {
+  if (options.env && options.env.length > 1) {
+    throw new Error('The print command takes only one environment');
+  }
+
+  // The default policy is printed when no environment is given
+  const environment: string | undefined = options.env?.[0];
+  const headers: [string, string][] = Object.entries(computeCspHeadersForEnvironment<string>(
+    configuration.rules,
+    environment,
+    configuration.reportType,
+    configuration.reportOnlyRules,
+    configuration.securityHeaders,
+  ));
+  if (!options.format) {
+    cliOutput.write(headers.map(([name, value]: [string, string]) => `${name}: ${value}\n`).join(''));
+    return 0;
+  }
+
+  for (const formatter of resolveConfigurationFormatters(options.format)) {
+    cliOutput.write(formatter.format(headers.map(([name, value]: [string, string]) => ({ name, value })), []));
+  }
+  return 0;
+};
+
+const validateCommand: CspCliCommand = async (configuration: CspCliConfiguration, _options: CspCliOptions, cliOutput: CspCliOutput) => {
+  const issues: CspValidationIssue[] = validateCspPolicies<string>(configuration.rules, configuration.environments);
+  const reportOnlyIssues: CspValidationIssue[] = configuration.reportOnlyRules
+    ? validateCspPolicies<string>(configuration.reportOnlyRules, configuration.environments)
+    : [];
+  for (const issue of issues) {
+    cliOutput.write(`${issue.level}: ${formatCspValidationIssue(issue)}\n`);
+  }
+  for (const issue of reportOnlyIssues) {
+    cliOutput.write(`${issue.level}: report-only ${formatCspValidationIssue(issue)}\n`);
+  }
+
+  const allIssues: CspValidationIssue[] = [...issues, ...reportOnlyIssues];
+  const hasErrors: boolean = allIssues.some((issue: CspValidationIssue) => issue.level === 'error');
+  if (!hasErrors) {
+    cliOutput.write(`✅ CSP rules are valid${allIssues.length > 0 ? `, with ${allIssues.length} warning(s)` : ''}\n`);
+  }
+  return hasErrors ? 1 : 0;
+};
+
+const checkCommand: CspCliCommand = async (configuration: CspCliConfiguration) => {
+  rejectInlineHashes(configuration, 'run vite build with the check option of the plugin to check them');
+  const environments: Set<string> = requireEnvironments(configuration);
+  await checkCspConfigurationFiles<string>(configuration.rules, environments, computeFilesOptions(configuration));
+  return 0;
+};
+
+const evaluateCommand: CspCliCommand = async (configuration: CspCliConfiguration, options: CspCliOptions, cliOutput: CspCliOutput) => {
+  if (options.format && options.format.length > 1) {
+    throw new Error('The evaluate command takes only one format');
+  }
+
+  const format: string = options.format?.[0] ?? 'console';
+  if (!isEvaluationReportFormat(format)) {
+    throw new Error(`Unknown evaluation report format "${format}", use ${EVALUATION_REPORT_FORMATS.join(', ')}`);
+  }
+  const minimumScore: number = Number(options.minimumScore ?? 0);
+  if (!Number.isFinite(minimumScore) || minimumScore < 0 || minimumScore > 100) {
+    throw new Error(`Invalid minimum score "${options.minimumScore}", use a number from 0 to 100`);
+  }
+
+  // The default policy is only evaluated with the environments of the Vite configuration
+  const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<string>(configuration.rules, configuration.environments, {
+    reportOnlyRules: configuration.reportOnlyRules,
+    routes: configuration.routes,
+    reportType: configuration.reportType,
+    includeDefault: !options.env,
+  });
+  cliOutput.write(formatCspEvaluationReport(report, format));
+  checkCspEvaluationScores(report, minimumScore);
+  return 0;
+};
+
+const CLI_COMMANDS: Record<string, CspCliCommand> = {
+  generate: generateCommand,
+  print: printCommand,
+  validate: validateCommand,
+  check: checkCommand,
+  evaluate: evaluateCommand,
+};
+
+/**
+ * Runs the command-line interface of the plugin.
+ * The rules are loaded from a standalone policy file with `--rules`, or from the plugins declared in the Vite configuration.
+ *
+ * @param args The command-line arguments, without the node executable and the script path
+ * @param cwd The working directory, default is the process working directory
+ * @param cliOutput The command output, default is the standard and error outputs of the process
+ * @returns {Promise<number>} The exit code of the process, 0 on success, 1 on failure
+ */
+export const runCspCli = async (
+  args: string[],
+  cwd: string = process.cwd(),
+  cliOutput: CspCliOutput = DEFAULT_CLI_OUTPUT,
+): Promise<number> => {
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string' },
+        rules: { type: 'string' },
+        mode: { type: 'string' },
+        env: { type: 'string', multiple: true },
+        format: { type: 'string', multiple: true },
+        'report-type': { type: 'string' },
+        output: { type: 'string' },
+        combined: { type: 'boolean' },
+        'minimum-score': { type: 'string' },
+        help: { type: 'boolean' },
+      },
+    });
+    const [commandName] = positionals;
+
+    if (values.help || !commandName) {
+      cliOutput.write(USAGE);
+      return values.help ? 0 : 1;
+    }
+
+    const command: CspCliCommand | undefined = Object.hasOwn(CLI_COMMANDS, commandName) ? CLI_COMMANDS[commandName] : undefined;
+    if (!command) {
+      throw new Error(`Unknown command "${commandName}", available commands are: ${Object.keys(CLI_COMMANDS).join(', ')}`);
+    }
+
+    const options: CspCliOptions = { ...values, reportType: values['report-type'], minimumScore: values['minimum-score'] };
+    return await command(await loadConfiguration(options, cwd), options, cliOutput);
+  } catch (error: unknown) {
+    cliOutput.writeError(`❌ ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
@@ -0,0 +1,304 @@
+import {
+  CspKeyword,
+  CspPolicies,
+  DefaultOrigin,
+  Directives,
+  ExtendedOrigin,
+  FlagDirectives,
+  SourceListDirectives,
+} from '@lib/csp/CspDirectives';
+import { CSP_DIRECTIVES, DirectiveDefinition } from '@lib/csp/CspDirectivesRegistry';
+import { normalizeSource } from '@lib/csp/ComputeOriginForEnvironment';
+import { HashAlgorithm } from '@lib/csp-hashes/CspInlineHashes';
+
+declare const cspBuilderSourceBrand: unique symbol;
+
+/**
+ * A source created by the builder helpers, e.g. `self`, `nonce()` or `host('https://cdn.example.com')`,
+ * so the keywords and the quotes are checked at compile time.
+ */
+export type CspBuilderSource = string & { readonly [cspBuilderSourceBrand]: true };
+
+/**
+ * Converts a directive name to the name of its builder method, e.g. `script-src-elem` to `scriptSrcElem`.
+ */
+type DirectiveMethodName<Directive extends string> = Directive extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<DirectiveMethodName<Tail>>}`
+  : Directive;
+
+/**
+ * A method per source list directive, e.g. `scriptSrc(self, nonce())`.
+ */
+export type CspSourceListMethods<Builder> = {
+  [Directive in SourceListDirectives as DirectiveMethodName<Directive>]: (...sources: CspBuilderSource[]) => Builder;
+};
+
+/**
+ * The methods of the directives whose value is not a list of sources.
+ */
+export type CspDirectiveMethods<Builder> = CspSourceListMethods<Builder> & {
+  sandbox: (...tokens: `allow-${string}`[]) => Builder,
+  trustedTypes: (...policyNames: string[]) => Builder,
+  requireTrustedTypesFor: () => Builder,
+  reportTo: (group: string) => Builder,
+  reportUri: (...uris: string[]) => Builder,
+  upgradeInsecureRequests: (enabled?: boolean) => Builder,
+  blockAllMixedContent: (enabled?: boolean) => Builder,
+};
+
+type BuilderValue = DefaultOrigin | ExtendedOrigin | boolean;
+
+/**
+ * The values of the directives set for an environment, which replace the default values,
+ * or extend them if the sources are wrapped in `{ extend: ... }`.
+ */
+export type CspEnvironmentPolicies = Partial<Record<Directives, BuilderValue>>;
+
+/**
+ * Builds the values of the directives of an environment.
+ * The sources of the directive methods replace the default sources, and the sources of the `extend` methods are added to them.
+ */
+export interface CspEnvironmentPolicyBuilder extends CspDirectiveMethods<CspEnvironmentPolicyBuilder> {
+  extend: CspSourceListMethods<CspEnvironmentPolicyBuilder>,
+  build: () => CspEnvironmentPolicies,
+}
+
+/**
+ * Builds {@link CspPolicies}, each method returns a new builder.
+ *
+ * Example:
+ * ```
+ * const rules: CspPolicies<Environment> = csp<Environment>()
+ *   .defaultSrc(self)
+ *   .scriptSrc(self, nonce(), host('https://cdn.example.com'))
+ *   .forEnv('staging', (policy: CspEnvironmentPolicyBuilder) => policy.extend.connectSrc(host('https://api.staging.example.com')))
+ *   .build();
+ * ```
+ */
+export interface CspPolicyBuilder<Environment extends string = never> extends CspDirectiveMethods<CspPolicyBuilder<Environment>> {
+  forEnv: (environment: Environment, configure: (policy: CspEnvironmentPolicyBuilder) => CspEnvironmentPolicyBuilder) => CspPolicyBuilder<Environment>,
+  build: () => CspPolicies<Environment>,
+}
+
+const DEFAULT_KEY: string = 'default';
+
+type BuilderState = Partial<Record<Directives, Record<string, BuilderValue>>>;
+
+const toSource = (source: string): CspBuilderSource => source as CspBuilderSource;
+
+/**
+ * A CSP keyword source, quoted in the policy, e.g. `keyword('strict-dynamic')`.
+ *
+ * @param value The keyword
+ * @returns {CspBuilderSource} The quoted keyword, e.g. `'strict-dynamic'`
+ */
+export const keyword = (value: CspKeyword): CspBuilderSource => toSource(`'${value}'`);
+
+export const self: CspBuilderSource = keyword('self');
+export const none: CspBuilderSource = keyword('none');
+export const unsafeInline: CspBuilderSource = keyword('unsafe-inline');
+export const unsafeEval: CspBuilderSource = keyword('unsafe-eval');
+export const unsafeHashes: CspBuilderSource = keyword('unsafe-hashes');
+export const wasmUnsafeEval: CspBuilderSource = keyword('wasm-unsafe-eval');
+export const strictDynamic: CspBuilderSource = keyword('strict-dynamic');
+export const reportSample: CspBuilderSource = keyword('report-sample');
+export const inlineSpeculationRules: CspBuilderSource = keyword('inline-speculation-rules');
+
+/**
+ * A nonce source. By default the nonce is the placeholder replaced by the CSP Proxy Plugin, see `noncesConfiguration`.
+ *
+ * @param value The nonce, or the nonce placeholder
+ * @returns {CspBuilderSource} The quoted nonce source, e.g. `'nonce-{RANDOM}'`
+ */
+export const nonce = (value: string = '{RANDOM}'): CspBuilderSource => toSource(`'nonce-${value}'`);
+
+/**
+ * A hash source.
+ *
+ * @param algorithm The hash algorithm
+ * @param digest The base64 digest of the content
+ * @returns {CspBuilderSource} The quoted hash source, e.g. `'sha256-abc='`
+ */
+export const hash = (algorithm: HashAlgorithm, digest: string): CspBuilderSource => toSource(`'${algorithm}-${digest}'`);
+
+/**
+ * A host source. The host is checked by the rules validation of the plugins.
+ * Keywords, nonces, hashes and quoted values are rejected, so they are only created by their helpers.
+ *
+ * @param value The host, e.g. `https://cdn.example.com`, `*.example.com` or `*`
+ * @returns {CspBuilderSource} The host source
+ * @throws {Error} If the value is empty, contains several sources, is quoted, or is a keyword, a nonce or a hash
+ */
+export const host = (value: string): CspBuilderSource => {
+  if (!value || /[\s';,]/.test(value) || normalizeSource(value) !== value) {
+    throw new Error(`"${value}" is not a host source, use the keyword(), nonce() or hash() helpers for the other sources`);
+  }
+  return toSource(value);
+};
+
+/**
+ * A scheme source.
+ *
+ * @param value The scheme, with or without the trailing colon, e.g. `data` or `https:`
+ * @returns {CspBuilderSource} The scheme source, e.g. `data:`
+ */
+export const scheme = (value: string): CspBuilderSource => toSource(value.endsWith(':') ? value : `${value}:`);
+
+const toMethodName = (directive: string): string => directive.replace(/-([a-z])/g, (_: string, letter: string) => letter.toUpperCase());
+
+const SOURCE_LIST_DIRECTIVES: SourceListDirectives[] = (Object.entries(CSP_DIRECTIVES) as [Directives, DirectiveDefinition][])
+  .filter(([, definition]: [Directives, DirectiveDefinition]) => definition.kind === 'source-list')
+  .map(([directive]: [Directives, DirectiveDefinition]) => directive as SourceListDirectives);
+
+const isExtendedBuilderValue = (value: BuilderValue | undefined): value is ExtendedOrigin => typeof value === 'object' && !Array.isArray(value);
+
+// The builder only writes lists of sources, never raw policy strings
+const computeBuilderSources = (value: BuilderValue | undefined): string[] => {
+  if (isExtendedBuilderValue(value)) {
+    return value.extend as string[];
+  }
+  return Array.isArray(value) ? value : [];
+};
+
+/**
+ * Adds sources to the value of a directive, without duplicates.
+ *
+ * @param directive The directive, for the error message
+ * @param value The current value of the directive
+ * @param sources The sources to add
+ * @param extend Whether the sources extend the default sources
+ * @returns {BuilderValue} The value of the directive including the sources
+ * @throws {Error} If the sources of an environment would both replace and extend the default sources
+ */
+const appendBuilderSources = (directive: Directives, value: BuilderValue | undefined, sources: string[], extend: boolean): BuilderValue => {
+  if (value !== undefined && typeof value !== 'boolean' && isExtendedBuilderValue(value) !== extend) {
+    throw new Error(`The sources of the directive "${directive}" cannot both replace and extend the default sources`);
+  }
+
+  const mergedSources: string[] = [...new Set([...computeBuilderSources(value), ...sources])];
+  return extend ? { extend: mergedSources } : mergedSources;
+};
+
+const createSourceListMethods = <Builder>(setSources: (directive: Directives, sources: string[]) => Builder): CspSourceListMethods<Builder> => (
+  Object.fromEntries(SOURCE_LIST_DIRECTIVES.map((directive: SourceListDirectives) => [
+    toMethodName(directive),
+    (...sources: CspBuilderSource[]) => setSources(directive, sources),
+  ])) as CspSourceListMethods<Builder>
+);
+
+/**
+ * Creates the methods of every directive on top of a function setting the value of a directive.
+ *
+ * @param setSources Adds sources to a directive and returns the next builder
+ * @param setFlag Sets a flag directive and returns the next builder
+ * @returns {CspDirectiveMethods<Builder>} The directive methods
+ */
+const createDirectiveMethods = <Builder>(
+  setSources: (directive: Directives, sources: string[]) => Builder,
+  setFlag: (directive: FlagDirectives, enabled: boolean) => Builder,
+): CspDirectiveMethods<Builder> => ({
+  ...createSourceListMethods<Builder>(setSources),
+  sandbox: (...tokens: `allow-${string}`[]) => setSources('sandbox', tokens),
+  trustedTypes: (...policyNames: string[]) => setSources('trusted-types', policyNames),
+  requireTrustedTypesFor: () => setSources('require-trusted-types-for', ['\'script\'']),
+  reportTo: (group: string) => setSources('report-to', [group]),
+  reportUri: (...uris: string[]) => setSources('report-uri', uris),
+  upgradeInsecureRequests: (enabled: boolean = true) => setFlag('upgrade-insecure-requests', enabled),
+  blockAllMixedContent: (enabled: boolean = true) => setFlag('block-all-mixed-content', enabled),
+});
+
+const createEnvironmentPolicyBuilder = (policies: CspEnvironmentPolicies): CspEnvironmentPolicyBuilder => ({
+  ...createDirectiveMethods<CspEnvironmentPolicyBuilder>(
+    (directive: Directives, sources: string[]) => createEnvironmentPolicyBuilder({
+      ...policies,
+      [directive]: appendBuilderSources(directive, policies[directive], sources, false),
+    }),
+    (directive: FlagDirectives, enabled: boolean) => createEnvironmentPolicyBuilder({ ...policies, [directive]: enabled }),
+  ),
+  extend: createSourceListMethods<CspEnvironmentPolicyBuilder>(
+    (directive: Directives, sources: string[]) => createEnvironmentPolicyBuilder({
+      ...policies,
+      [directive]: appendBuilderSources(directive, policies[directive], sources, true),
+    }),
+  ),
+  build: () => policies,
+});
+
+const setBuilderValue = (state: BuilderState, directive: Directives, key: string, value: BuilderValue): BuilderState => ({
+  ...state,
+  [directive]: { ...state[directive], [key]: value },
+});
+
+/**
+ * Computes the rules of the builder state. A directive set only for some environments must have default sources,
+ * except the flag directives, which are disabled by default.
+ *
+ * @param state The values of the directives, by environment
+ * @returns {CspPolicies<Environment>} The CSP rules
+ * @throws {Error} If a source list directive has no default sources
+ */
+const computeBuilderPolicies = <Environment extends string = never>(state: BuilderState): CspPolicies<Environment> => Object.fromEntries(
+  (Object.entries(state) as [Directives, Record<string, BuilderValue>][]).map(([directive, values]: [Directives, Record<string, BuilderValue>]) => {
+    const { [DEFAULT_KEY]: defaultValue, ...environmentValues } = values;
+    const environments: string[] = Object.keys(environmentValues);
+    if (environments.length === 0) {
+      return [directive, defaultValue];
+    }
+    if (defaultValue === undefined && CSP_DIRECTIVES[directive].kind !== 'flag') {
+      throw new Error(`The directive "${directive}" is only set for ${environments.join(', ')}, set its default sources, e.g. none`);
+    }
+    return [directive, { default: defaultValue ?? false, ...environmentValues }];
+  }),
+) as CspPolicies<Environment>;
+
+const createPolicyBuilder = <Environment extends string = never>(state: BuilderState): CspPolicyBuilder<Environment> => ({
+  ...createDirectiveMethods<CspPolicyBuilder<Environment>>(
+    (directive: Directives, sources: string[]) => createPolicyBuilder<Environment>(
+      setBuilderValue(state, directive, DEFAULT_KEY, appendBuilderSources(directive, state[directive]?.[DEFAULT_KEY], sources, false)),
+    ),
+    (directive: FlagDirectives, enabled: boolean) => createPolicyBuilder<Environment>(setBuilderValue(state, directive, DEFAULT_KEY, enabled)),
+  ),
+  forEnv: (environment: Environment, configure: (policy: CspEnvironmentPolicyBuilder) => CspEnvironmentPolicyBuilder) => {
+    const environmentPolicies: CspEnvironmentPolicies = configure(createEnvironmentPolicyBuilder({})).build();
+    return createPolicyBuilder<Environment>((Object.entries(environmentPolicies) as [Directives, BuilderValue][]).reduce(
+      (nextState: BuilderState, [directive, value]: [Directives, BuilderValue]) => {
+        const currentValue: BuilderValue | undefined = nextState[directive]?.[environment];
+        const mergedValue: BuilderValue = typeof value === 'boolean' || currentValue === undefined
+          ? value
+          : appendBuilderSources(directive, currentValue, computeBuilderSources(value), isExtendedBuilderValue(value));
+        return setBuilderValue(nextState, directive, environment, mergedValue);
+      },
+      state,
+    ));
+  },
+  build: () => computeBuilderPolicies<Environment>(state),
+});
+
+/**
+ * Creates a builder of CSP rules, whose sources are created with the helpers, e.g. `self`, `nonce()` or `host(...)`.
+ * The built rules can be passed to the plugins, which also accept the builder itself.
+ *
+ * @returns {CspPolicyBuilder<Environment>} An empty builder
+ */
+export const csp = <Environment extends string = never>(): CspPolicyBuilder<Environment> => createPolicyBuilder<Environment>({});
+
+/**
+ * Checks whether rules are given as a builder.
+ *
+ * @param rules The CSP rules, or a builder
+ * @returns {boolean} True if the rules are a builder
+ */
+export const isCspPolicyBuilder = <Environment extends string = never>(
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment>,
+): rules is CspPolicyBuilder<Environment> => typeof (rules as Partial<CspPolicyBuilder<Environment>>).build === 'function';
+
+/**
+ * Returns the CSP rules, built if they are given as a builder.
+ *
+ * @param rules The CSP rules, or a builder
+ * @returns {CspPolicies<Environment>} The CSP rules
+ * @throws {Error} If a source list directive of the builder has no default sources
+ */
+export const resolveCspPolicies = <Environment extends string = never>(
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment>,
+): CspPolicies<Environment> => (isCspPolicyBuilder<Environment>(rules) ? rules.build() : rules);
@@ -0,0 +1,231 @@
+import {
+  CONFIGURATIONS_DIRECTORY,
+  computeCombinedCspConfigurationFileContent,
+  computeConfigurationFileName,
+  computeCspConfigurationFileContentForEnvironment,
+} from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import type { ConfigurationFilesOptions, ConfigurationFormatter } from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { extractCspPoliciesFromConfigurationFile, NGINX_APACHE_FORMATTER } from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import { computeCspPolicyDiff, CspPolicyDiffReport, formatCspPolicyDiffReport } from '@lib/csp-diff/CspPolicyDiff';
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import {
+  computeHeaderNameByReportType,
+  computeReportTypeForEnvironment,
+  HeaderNames,
+  ReportTypeByEnvironment,
+} from '@lib/csp/CspHeaders';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from 'simple-logging-system';
+
+const logger: Logger = new Logger('CheckCspConfigurationFiles');
+
+/**
+ * A configuration file that is not up to date with the rules
+ *
+ * @property filePath - The path of the configuration file
+ * @property missing - True if the file does not exist
+ * @property reports - The policy changes from the file to the rules, one report per environment of the file,
+ *                     followed by a report for the report-only rules of the environment if there are any
+ */
+export type OutdatedConfigurationFile = {
+  filePath: string,
+  missing: boolean,
+  reports: CspPolicyDiffReport[],
+};
+
+type ExpectedConfigurationFile<Environment extends string> = {
+  filePath: string,
+  content: string,
+  formatter: ConfigurationFormatter,
+  environments: Environment[],
+};
+
+/**
+ * A policy expected in a CSP header of a configuration file.
+ * A header can contain several policies separated by commas, e.g. the rules and the report-only rules of a report-only environment.
+ */
+type ExpectedHeaderPolicy = {
+  label: string,
+  headerName: string,
+  policyIndex: number,
+  policy: string,
+};
+
+const computeExpectedConfigurationFiles = <Environment extends string>(
+  rules: CspPolicies<Environment>,
+  environments: Set<Environment>,
+  { formatters = [NGINX_APACHE_FORMATTER], output = {}, ...contentOptions }: ConfigurationFilesOptions<Environment>,
+): ExpectedConfigurationFile<Environment>[] => {
+  const computeFilePath = (fileName: string): string => path.join(output.directory ?? CONFIGURATIONS_DIRECTORY, fileName);
+
+  if (output.combined) {
+    return formatters.map((formatter: ConfigurationFormatter) => ({
+      filePath: computeFilePath(computeConfigurationFileName(undefined, formatter, output)),
+      content: computeCombinedCspConfigurationFileContent<Environment>(rules, environments, { ...contentOptions, formatter }),
+      formatter,
+      environments: [...environments],
+    }));
+  }
+
+  return [...environments].flatMap((environment: Environment) => formatters.map((formatter: ConfigurationFormatter) => ({
+    filePath: computeFilePath(computeConfigurationFileName(environment, formatter, output)),
+    content: computeCspConfigurationFileContentForEnvironment<Environment>(rules, environment, { ...contentOptions, formatter }),
+    formatter,
+    environments: [environment],
+  })));
+};
+
+const computeExpectedHeaderPolicies = <Environment extends string>(
+  rules: CspPolicies<Environment>,
+  environment: Environment,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+): ExpectedHeaderPolicy[] => {
+  const headerName: string = computeHeaderNameByReportType(computeReportTypeForEnvironment<Environment>(reportType, environment));
+  const rulesPolicy: ExpectedHeaderPolicy = {
+    label: environment,
+    headerName,
+    policyIndex: 0,
+    policy: computeCspDirectiveForEnvironment<Environment>(rules, environment),
+  };
+  const reportOnlyPolicy: string = reportOnlyRules ? computeCspDirectiveForEnvironment<Environment>(reportOnlyRules, environment) : '';
+  if (!reportOnlyPolicy) {
+    return [rulesPolicy];
+  }
+
+  const reportOnlyHeaderName: string = HeaderNames.CONTENT_SECURITY_POLICY_REPORT_ONLY;
+  // The report-only rules follow the rules in the same header when the environment is report-only
+  return [rulesPolicy, {
+    label: `${environment} (report-only)`,
+    headerName: reportOnlyHeaderName,
+    policyIndex: headerName === reportOnlyHeaderName ? 1 : 0,
+    policy: reportOnlyPolicy,
+  }];
+};
+
+// A header value is a list of policies separated by commas, directives and sources cannot contain commas
+const parseCspPolicyList = (headerValue: string): string[] => headerValue.split(',').map((policy: string) => policy.trim());
+
+/**
+ * Compares the policies of each CSP header of a configuration file with the policies of the rules.
+ * The headers are found by name, in the order of the environments of the file.
+ */
+const computeConfigurationFileReports = <Environment extends string>(
+  rules: CspPolicies<Environment>,
+  expectedFile: ExpectedConfigurationFile<Environment>,
+  content: string | undefined,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+): CspPolicyDiffReport[] => {
+  const headerValuesByName: Map<string, string[]> = new Map<string, string[]>();
+  const readHeaderValues = (headerName: string): string[] => {
+    if (!headerValuesByName.has(headerName)) {
+      headerValuesByName.set(headerName, content === undefined ? [] : extractCspPoliciesFromConfigurationFile(content, expectedFile.formatter, headerName));
+    }
+    return headerValuesByName.get(headerName) ?? [];
+  };
+  // The number of environments already compared whose configuration contains each header
+  const headerCounts: Map<string, number> = new Map<string, number>();
+
+  return expectedFile.environments.flatMap((environment: Environment) => {
+    const expectedPolicies: ExpectedHeaderPolicy[] = computeExpectedHeaderPolicies<Environment>(rules, environment, reportType, reportOnlyRules);
+    const reports: CspPolicyDiffReport[] = expectedPolicies.map((expectedPolicy: ExpectedHeaderPolicy) => {
+      const headerValue: string | undefined = readHeaderValues(expectedPolicy.headerName)[headerCounts.get(expectedPolicy.headerName) ?? 0];
+      return {
+        from: expectedFile.filePath,
+        to: expectedPolicy.label,
+        directives: computeCspPolicyDiff(
+          headerValue === undefined ? '' : parseCspPolicyList(headerValue)[expectedPolicy.policyIndex] ?? '',
+          expectedPolicy.policy,
+        ),
+      };
+    });
+    for (const headerName of new Set<string>(expectedPolicies.map((expectedPolicy: ExpectedHeaderPolicy) => expectedPolicy.headerName))) {
+      headerCounts.set(headerName, (headerCounts.get(headerName) ?? 0) + 1);
+    }
+    return reports;
+  });
+};
+
+const readExistingFile = async (filePath: string): Promise<string | undefined> => {
+  try {
+    return await readFile(filePath, { encoding: 'utf-8' });
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Finds the configuration files that are missing or whose content differs from the content generated from the rules.
+ * The parameters are the same as {@link generateCspConfigurationFiles}, files are only read.
+ *
+ * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
+ * @param {CspPolicies<Environment>} rules - The CSP rules configuration.
+ * @param {Set<Environment>} environments - The environments of the configuration files.
+ * @param {ConfigurationFilesOptions<Environment>} [options] - The report type, formatters, output, notes, report-only rules, security headers and routes of the files.
+ * @returns {Promise<OutdatedConfigurationFile[]>} The outdated configuration files, empty if every file is up to date.
+ */
+export const findOutdatedCspConfigurationFiles = async <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Set<Environment>,
+  options: ConfigurationFilesOptions<Environment> = {},
+): Promise<OutdatedConfigurationFile[]> => {
+  const outdatedFiles: OutdatedConfigurationFile[] = [];
+  const expectedFiles: ExpectedConfigurationFile<Environment>[] = computeExpectedConfigurationFiles<Environment>(rules, environments, options);
+
+  for (const expectedFile of expectedFiles) {
+    const content: string | undefined = await readExistingFile(expectedFile.filePath);
+    if (content !== expectedFile.content) {
+      outdatedFiles.push({
+        filePath: expectedFile.filePath,
+        missing: content === undefined,
+        reports: computeConfigurationFileReports<Environment>(rules, expectedFile, content, options.reportType, options.reportOnlyRules),
+      });
+    }
+  }
+
+  return outdatedFiles;
+};
+
+const formatOutdatedConfigurationFile = (outdatedFile: OutdatedConfigurationFile): string => {
+  if (outdatedFile.missing) {
+    return `${outdatedFile.filePath} is missing\n`;
+  }
+
+  const changedReports: CspPolicyDiffReport[] = outdatedFile.reports.filter(
+    (report: CspPolicyDiffReport) => report.directives.length > 0,
+  );
+  return changedReports.length > 0
+    ? changedReports.map(formatCspPolicyDiffReport).join('')
+    : `${outdatedFile.filePath} has the same policy but a different content, e.g. notes or format\n`;
+};
+
+/**
+ * Checks that the configuration files are up to date with the rules, without writing them.
+ * It is meant for CI builds, to make sure the committed configuration files are regenerated when the rules change.
+ * The parameters are the same as {@link generateCspConfigurationFiles}.
+ *
+ * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
+ * @param {CspPolicies<Environment>} rules - The CSP rules configuration.
+ * @param {Set<Environment>} environments - The environments of the configuration files.
+ * @param {ConfigurationFilesOptions<Environment>} [options] - The report type, formatters, output, notes, report-only rules, security headers and routes of the files.
+ * @returns {Promise<void>} A promise that resolves if every file is up to date.
+ * @throws {Error} If a configuration file is missing or outdated, with the policy changes of each file.
+ */
+export const checkCspConfigurationFiles = async <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Set<Environment>,
+  options?: ConfigurationFilesOptions<Environment>,
+): Promise<void> => {
+  const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(rules, environments, options);
+
+  if (outdatedFiles.length > 0) {
+    throw new Error(`CSP configuration files are out of date with the rules, generate them again by disabling the check:\n${
+      outdatedFiles.map(formatOutdatedConfigurationFile).join('')
+    }`);
+  }
+
+  logger.info('✅ CSP configuration files are up to date with the rules');
+};
@@ -0,0 +1,254 @@
+import type {
+  ConfigurationFormatter,
+  ConfigurationHeader,
+  ConfigurationRoute,
+} from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { HeaderNames } from '@lib/csp/CspHeaders';
+
+const computeComments = (notes: string[]): string => (
+  notes.length > 0 ? `${notes.map((note: string) => `# ${note}`).join('\n')}\n\n` : ''
+);
+
+// Header values are written in double-quoted strings, e.g. the origins of Permissions-Policy are quoted
+const escapeDoubleQuotes = (value: string): string => value.replace(/"/g, '\\"');
+
+// The path patterns are regular expressions, their backslashes, e.g. in \.html, are escaped as Nginx and Apache unescape them in double-quoted strings
+const escapePathPattern = (pathPattern: string): string => escapeDoubleQuotes(pathPattern.replace(/\\/g, '\\\\'));
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/"/g, '&quot;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const formatNginxHeader = ({ name, value }: ConfigurationHeader): string => `add_header ${name} "${escapeDoubleQuotes(value)}" always;`;
+
+const formatApacheHeader = ({ name, value }: ConfigurationHeader): string => `Header always set ${name} "${escapeDoubleQuotes(value)}"`;
+
+const indentLines = (lines: string[]): string => lines.map((line: string) => `    ${line}\n`).join('');
+
+const computeNginxVariable = (headerName: string): string => `$csp_${headerName.toLowerCase().replace(/-/g, '_')}`;
+
+// Location blocks would replace the locations of the application, e.g. its try_files or proxy_pass, and the add_header of the server block,
+// so the headers changed by the routes are selected by path in map blocks. The regular expressions of a map block are checked
+// in the order of the configuration, the first matching route applies. An empty value does not send the header.
+const formatNginxHeaders = (headers: ConfigurationHeader[], routes: ConfigurationRoute[]): string => {
+  const findValue = (candidates: ConfigurationHeader[], headerName: string): string => (
+    candidates.find(({ name }: ConfigurationHeader) => name === headerName)?.value ?? ''
+  );
+  const headerNames: string[] = [...new Set([...headers, ...routes.flatMap((route: ConfigurationRoute) => route.headers)]
+    .map(({ name }: ConfigurationHeader) => name))];
+  const isChangedByRoutes = (headerName: string): boolean => routes.some(
+    (route: ConfigurationRoute) => findValue(route.headers, headerName) !== findValue(headers, headerName),
+  );
+  const mapBlocks: string[] = headerNames.filter(isChangedByRoutes).map((headerName: string) => `map $uri ${computeNginxVariable(headerName)} {\n${indentLines([
+    ...routes.map((route: ConfigurationRoute) => `"~${escapePathPattern(route.pathPattern)}" "${escapeDoubleQuotes(findValue(route.headers, headerName))}";`),
+    `default "${escapeDoubleQuotes(findValue(headers, headerName))}";`,
+  ])}}\n`);
+  const headerLines: string = headerNames
+    .map((headerName: string) => (isChangedByRoutes(headerName)
+      ? `add_header ${headerName} ${computeNginxVariable(headerName)} always;\n`
+      : `${formatNginxHeader({ name: headerName, value: findValue(headers, headerName) })}\n`))
+    .join('');
+  return mapBlocks.length > 0
+    ? `# The map blocks of the route policies are only allowed in the http block\n${mapBlocks.join('')}\n${headerLines}`
+    : headerLines;
+};
+
+// Apache applies every matching section in the order of the configuration, the last one wins,
+// so the routes are written in reverse order for the first matching route to apply.
+const formatApacheRoutes = (routes: ConfigurationRoute[]): string => [...routes]
+  .reverse()
+  .map(({ pathPattern, headers }: ConfigurationRoute) => `\n<LocationMatch "${escapePathPattern(pathPattern)}">\n${indentLines(headers.map(formatApacheHeader))}</LocationMatch>\n`)
+  .join('');
+
+const toJsonHeaders = (headers: ConfigurationHeader[]): { key: string, value: string }[] => headers.map(
+  ({ name, value }: ConfigurationHeader) => ({ key: name, value }),
+);
+
+/**
+ * Nginx and Apache configurations in the same file, this is the default format.
+ */
+export const NGINX_APACHE_FORMATTER: ConfigurationFormatter = {
+  name: 'nginx-apache',
+  fileExtension: 'txt',
+  supportsRoutes: true,
+  format: (headers: ConfigurationHeader[], notes: string[], routes: ConfigurationRoute[] = []) => {
+    const apacheHeaders: string = headers.map(formatApacheHeader).join('\n');
+    return `${computeComments(notes)}# Nginx configuration\n${formatNginxHeaders(headers, routes)}`
+      + `\n# Apache configuration\n${apacheHeaders}\n${formatApacheRoutes(routes)}`;
+  },
+};
+
+/**
+ * Nginx `add_header` directives, to include in a `server` block.
+ * The headers changed by the route policies are selected by path in `map` blocks, which must be moved to the `http` block.
+ */
+export const NGINX_FORMATTER: ConfigurationFormatter = {
+  name: 'nginx',
+  fileExtension: 'nginx.conf',
+  supportsRoutes: true,
+  format: (headers: ConfigurationHeader[], notes: string[], routes: ConfigurationRoute[] = []) => computeComments(notes) + formatNginxHeaders(headers, routes),
+};
+
+/**
+ * Apache `Header` directives, to include in a `VirtualHost`, `Directory` or `.htaccess` file.
+ * The `LocationMatch` sections of the route policies can only be included in a `VirtualHost`.
+ */
+export const APACHE_FORMATTER: ConfigurationFormatter = {
+  name: 'apache',
+  fileExtension: 'apache.conf',
+  supportsRoutes: true,
+  format: (headers: ConfigurationHeader[], notes: string[], routes: ConfigurationRoute[] = []) => computeComments(notes) + headers
+    .map((header: ConfigurationHeader) => `${formatApacheHeader(header)}\n`)
+    .join('') + formatApacheRoutes(routes),
+};
+
+/**
+ * Caddyfile `header` directive, to include in a site block.
+ * The `header` blocks of several environments would conflict, so they cannot be combined in one file.
+ */
+export const CADDY_FORMATTER: ConfigurationFormatter = {
+  name: 'caddy',
+  fileExtension: 'Caddyfile',
+  supportsCombinedOutput: false,
+  format: (headers: ConfigurationHeader[], notes: string[]) => `${computeComments(notes)}header {\n${
+    headers.map(({ name, value }: ConfigurationHeader) => `\t${name} "${escapeDoubleQuotes(value)}"\n`).join('')
+  }}\n`,
+};
+
+/**
+ * IIS `web.config` custom headers. An XML document has one root element, so several environments cannot be combined in one file.
+ */
+export const IIS_FORMATTER: ConfigurationFormatter = {
+  name: 'iis',
+  fileExtension: 'web.config',
+  supportsCombinedOutput: false,
+  format: (headers: ConfigurationHeader[], notes: string[]) => {
+    const comments: string = notes.map((note: string) => `<!-- ${note.replace(/--/g, '- -')} -->\n`).join('');
+    const customHeaders: string = headers
+      .map(({ name, value }: ConfigurationHeader) => `        <add name="${escapeXml(name)}" value="${escapeXml(value)}" />\n`)
+      .join('');
+    return `<?xml version="1.0" encoding="utf-8"?>
+${comments}<configuration>
+  <system.webServer>
+    <httpProtocol>
+      <customHeaders>
+${customHeaders}      </customHeaders>
+    </httpProtocol>
+  </system.webServer>
+</configuration>
+`;
+  },
+};
+
+/**
+ * Netlify `_headers` file. The headers of several environments for the same path would conflict, so they cannot be combined in one file.
+ */
+export const NETLIFY_FORMATTER: ConfigurationFormatter = {
+  name: 'netlify',
+  fileExtension: 'netlify_headers',
+  supportsCombinedOutput: false,
+  format: (headers: ConfigurationHeader[], notes: string[]) => `${computeComments(notes)}/*\n${
+    headers.map(({ name, value }: ConfigurationHeader) => `  ${name}: ${value}\n`).join('')
+  }`,
+};
+
+/**
+ * Cloudflare Pages `_headers` file.
+ */
+export const CLOUDFLARE_PAGES_FORMATTER: ConfigurationFormatter = {
+  ...NETLIFY_FORMATTER,
+  name: 'cloudflare-pages',
+  fileExtension: 'cloudflare_headers',
+};
+
+/**
+ * Headers fragment of a `vercel.json` file. JSON does not support comments, so notes are not included.
+ */
+export const VERCEL_FORMATTER: ConfigurationFormatter = {
+  name: 'vercel',
+  fileExtension: 'vercel.json',
+  supportsComments: false,
+  format: (headers: ConfigurationHeader[]) => `${JSON.stringify({
+    headers: [{ source: '/(.*)', headers: toJsonHeaders(headers) }],
+  }, null, 2)}\n`,
+};
+
+/**
+ * Hosting headers fragment of a `firebase.json` file. JSON does not support comments, so notes are not included.
+ */
+export const FIREBASE_FORMATTER: ConfigurationFormatter = {
+  name: 'firebase',
+  fileExtension: 'firebase.json',
+  supportsComments: false,
+  format: (headers: ConfigurationHeader[]) => `${JSON.stringify({
+    hosting: { headers: [{ source: '**', headers: toJsonHeaders(headers) }] },
+  }, null, 2)}\n`,
+};
+
+/**
+ * Kubernetes ingress-nginx annotations, to merge in the `metadata` of an `Ingress` resource.
+ * The keys of a YAML document are unique, so several environments cannot be combined in one file.
+ */
+export const KUBERNETES_INGRESS_FORMATTER: ConfigurationFormatter = {
+  name: 'kubernetes-ingress',
+  fileExtension: 'ingress.yaml',
+  supportsCombinedOutput: false,
+  format: (headers: ConfigurationHeader[], notes: string[]) => `${computeComments(notes)}metadata:
+  annotations:
+    nginx.ingress.kubernetes.io/configuration-snippet: |
+${headers.map(({ name, value }: ConfigurationHeader) => `      more_set_headers "${name}: ${escapeDoubleQuotes(value)}";\n`).join('')}`,
+};
+
+export const BUILT_IN_CONFIGURATION_FORMATTERS: ConfigurationFormatter[] = [
+  NGINX_APACHE_FORMATTER,
+  NGINX_FORMATTER,
+  APACHE_FORMATTER,
+  CADDY_FORMATTER,
+  IIS_FORMATTER,
+  NETLIFY_FORMATTER,
+  CLOUDFLARE_PAGES_FORMATTER,
+  VERCEL_FORMATTER,
+  FIREBASE_FORMATTER,
+  KUBERNETES_INGRESS_FORMATTER,
+];
+
+const POLICY_MARKER: string = '__CSP_POLICY__';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Extracts the policies written in a configuration file generated by a formatter.
+ * The line format is found by formatting a placeholder policy, so custom formatters are supported
+ * as long as they write the policy on one line. When the formatter writes the policy on several lines, e.g. for Nginx and for Apache,
+ * the line format finding the most policies is used. The policies of the route sections are not included,
+ * and the policies changed by route policies in the Nginx `map` blocks are only found on the Apache lines of the combined format.
+ *
+ * @param content The content of the configuration file
+ * @param formatter The formatter that generated the file, default is the combined Nginx and Apache format
+ * @param headerName The name of the CSP header, default is `Content-Security-Policy`
+ * @returns {string[]} The policies found, in the order of the file, e.g. one per environment for combined files
+ */
+export const extractCspPoliciesFromConfigurationFile = (
+  content: string,
+  formatter: ConfigurationFormatter = NGINX_APACHE_FORMATTER,
+  headerName: string = HeaderNames.CONTENT_SECURITY_POLICY,
+): string[] => {
+  const markerLines: string[] = formatter
+    .format([{ name: headerName, value: POLICY_MARKER }], [])
+    .split('\n')
+    .filter((line: string) => line.includes(POLICY_MARKER));
+  const lines: string[] = content.split('\n').map((line: string) => line.trimEnd());
+
+  return markerLines
+    .map((markerLine: string) => {
+      // The indentation is kept, so the policies of the route sections, which are indented, are not mixed with the policies of the file
+      const [prefix, suffix] = markerLine.trimEnd().split(POLICY_MARKER);
+      const policyLineRegExp: RegExp = new RegExp(`^${escapeRegExp(prefix)}(.*)${escapeRegExp(suffix)}$`);
+      return lines
+        .map((line: string) => policyLineRegExp.exec(line)?.[1])
+        .filter((policy: string | undefined): policy is string => policy !== undefined);
+    })
+    .reduce((mostPolicies: string[], policies: string[]) => (policies.length > mostPolicies.length ? policies : mostPolicies), []);
+};
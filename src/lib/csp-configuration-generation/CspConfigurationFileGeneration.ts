@@ -1,28 +1,290 @@
-import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
-import { CspPolicies } from '@lib/csp/CspDirectives';
-import { computeHeaderNameByReportType, ReportType } from '@lib/csp/CspHeaders';
+import {
+  BUILT_IN_CONFIGURATION_FORMATTERS,
+  NGINX_APACHE_FORMATTER,
+} from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import { CspPolicies, CspPoliciesProvider } from '@lib/csp/CspDirectives';
+import {
+  computeCspHeadersForEnvironment,
+  ReportTypeByEnvironment,
+} from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import { computeRoutePathPattern, computeRouteRules, CspRoutePolicy } from '@lib/csp-routes/CspRoutes';
 import { mkdir, writeFile } from 'fs/promises';
 import path from 'path';
 import { Logger } from 'simple-logging-system';
-import { ViteDevServer } from 'vite';
 
 const logger: Logger = new Logger('CspConfigurationFileGeneration');
 
+export const CONFIGURATIONS_DIRECTORY: string = 'content-security-policy/configurations';
+const DEFAULT_FILE_NAME_TEMPLATE: string = 'csp-configuration.{environment}.{extension}';
+const DEFAULT_COMBINED_FILE_NAME_TEMPLATE: string = 'csp-configuration.{extension}';
+
+/**
+ * A header to set in the server configuration.
+ */
+export type ConfigurationHeader = {
+  name: string,
+  value: string,
+};
+
+/**
+ * The headers of the documents matching a route policy.
+ *
+ * @property pathPattern - The regular expression matching the URL paths of the documents, e.g. `^/admin/.*$`
+ * @property headers - Every header of the documents, including the headers that are the same as the server-wide headers
+ */
+export type ConfigurationRoute = {
+  pathPattern: string,
+  headers: ConfigurationHeader[],
+};
+
+/**
+ * Formats the headers in a server or hosting configuration file.
+ *
+ * @property name - The name used to select the formatter in the plugin options, e.g. `nginx`
+ * @property fileExtension - The extension of the generated files, e.g. `nginx.conf` for `csp-configuration.production.nginx.conf`
+ * @property format - Computes the configuration file content from the headers, optional notes to add as comments,
+ *                    and the headers of the route policies, by order of priority
+ * @property supportsComments - False if the format cannot contain comments, in that case notes are ignored
+ *                              and the configurations of several environments cannot be combined in one file. Default is true.
+ * @property supportsRoutes - True if the format writes the headers of the route policies. Default is false.
+ * @property supportsCombinedOutput - False if the configurations of several environments cannot follow each other in one file,
+ *                                    e.g. an XML document with one root element or a YAML document with unique keys. Default is true.
+ */
+export type ConfigurationFormatter = {
+  name: string,
+  fileExtension: string,
+  format: (headers: ConfigurationHeader[], notes: string[], routes?: ConfigurationRoute[]) => string,
+  supportsComments?: boolean,
+  supportsRoutes?: boolean,
+  supportsCombinedOutput?: boolean,
+};
+
+/**
+ * Output configuration of the generated files
+ *
+ * @property directory - The directory of the generated files, relative to the Vite root. Default is `content-security-policy/configurations`.
+ * @property fileNameTemplate - The name of the generated files, with the placeholders `{environment}`, `{format}` and `{extension}`.
+ *                              Default is `csp-configuration.{environment}.{extension}`, or `csp-configuration.{extension}` for combined files.
+ * @property combined - If true, the configurations of every environment are written in one file per format. Default is false.
+ */
+export type OutputConfiguration = {
+  directory?: string,
+  fileNameTemplate?: string,
+  combined?: boolean,
+};
+
+/**
+ * A formatter given by its name, for built-in and registered formatters, or directly as a formatter object.
+ */
+export type ConfigurationFormat = string | ConfigurationFormatter;
+
+/**
+ * The content settings of a configuration file.
+ *
+ * @property reportType - The type of CSP report, for every environment or by environment, selects the CSP header name
+ * @property formatter - The formatter of the configuration file, default is the combined Nginx and Apache format
+ * @property notes - Notes added as comments in the configuration file
+ * @property reportOnlyRules - CSP rules written in the `Content-Security-Policy-Report-Only` header in addition to the rules
+ * @property securityHeaders - Security headers written with the CSP headers
+ * @property routes - Route policies, whose headers are written for the documents of their paths
+ */
+export type ConfigurationFileContentOptions<Environment extends string = never> = {
+  reportType?: ReportTypeByEnvironment<Environment>,
+  formatter?: ConfigurationFormatter,
+  notes?: string[],
+  reportOnlyRules?: CspPolicies<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
+  routes?: CspRoutePolicy<Environment>[],
+};
+
+/**
+ * The settings of the configuration files of several environments, used to generate and to check them.
+ *
+ * @property formatters - The formatters of the configuration files, one file is written per formatter. Default is the combined Nginx and Apache format.
+ * @property output - The output directory and file names, and whether environments are combined in one file
+ */
+export type ConfigurationFilesOptions<Environment extends string = never> = Omit<ConfigurationFileContentOptions<Environment>, 'formatter'> & {
+  formatters?: ConfigurationFormatter[],
+  output?: OutputConfiguration,
+};
+
+const configurationFormatters: Map<string, ConfigurationFormatter> = new Map(
+  BUILT_IN_CONFIGURATION_FORMATTERS.map((formatter: ConfigurationFormatter) => [formatter.name, formatter]),
+);
+
+/**
+ * Registers a custom formatter, so it can be selected by its name in the plugin options.
+ * A formatter registered with the name of an existing formatter replaces it.
+ *
+ * @param {ConfigurationFormatter} formatter - The formatter to register.
+ */
+export const registerConfigurationFormatter = (formatter: ConfigurationFormatter): void => {
+  configurationFormatters.set(formatter.name, formatter);
+};
+
+/**
+ * Resolves the formatters selected in the plugin options.
+ *
+ * @param {ConfigurationFormat[]} [formats] - The formats selected, default is the combined Nginx and Apache format.
+ * @returns {ConfigurationFormatter[]} The formatters.
+ * @throws {Error} If a format name does not match any built-in or registered formatter.
+ */
+export const resolveConfigurationFormatters = (formats?: ConfigurationFormat[]): ConfigurationFormatter[] => {
+  if (!formats || formats.length === 0) {
+    return [NGINX_APACHE_FORMATTER];
+  }
+
+  return formats.map((format: ConfigurationFormat) => {
+    if (typeof format !== 'string') {
+      return format;
+    }
+
+    const formatter: ConfigurationFormatter | undefined = configurationFormatters.get(format);
+    if (!formatter) {
+      throw new Error(`Unknown CSP configuration format "${format}", available formats are: ${[...configurationFormatters.keys()].join(', ')}`);
+    }
+    return formatter;
+  });
+};
+
+/**
+ * Resolves the output directory against the Vite root, and checks the formats can be used with the output configuration.
+ *
+ * @param {string} root - The Vite root directory.
+ * @param {ConfigurationFormatter[]} formatters - The formatters of the configuration files.
+ * @param {OutputConfiguration} [output] - The output configuration.
+ * @returns {OutputConfiguration} The output configuration with an absolute directory.
+ * @throws {Error} If the files are combined and a format does not support comments or combined files.
+ */
+export const resolveOutputConfiguration = (
+  root: string,
+  formatters: ConfigurationFormatter[],
+  output: OutputConfiguration = {},
+): OutputConfiguration => {
+  const uncombinableFormatter: ConfigurationFormatter | undefined = formatters.find(
+    (formatter: ConfigurationFormatter) => formatter.supportsComments === false || formatter.supportsCombinedOutput === false,
+  );
+  if (output.combined && uncombinableFormatter) {
+    throw new Error(`CSP configuration format "${uncombinableFormatter.name}" does not support combined output files`);
+  }
+
+  return {
+    ...output,
+    directory: path.resolve(root, output.directory ?? CONFIGURATIONS_DIRECTORY),
+  };
+};
+
+/**
+ * Computes the name of the configuration file of an environment.
+ *
+ * @param {string | undefined} environment - The environment of the configuration file, undefined for combined files.
+ * @param {ConfigurationFormatter} [formatter] - The formatter of the configuration file, default is the combined Nginx and Apache format.
+ * @param {OutputConfiguration} [output] - The output configuration, containing the file name template.
+ * @returns {string} The configuration file name, e.g. `csp-configuration.production.txt`.
+ */
+export const computeConfigurationFileName = (
+  environment: string | undefined,
+  formatter: ConfigurationFormatter = NGINX_APACHE_FORMATTER,
+  output: OutputConfiguration = {},
+): string => {
+  const defaultTemplate: string = output.combined ? DEFAULT_COMBINED_FILE_NAME_TEMPLATE : DEFAULT_FILE_NAME_TEMPLATE;
+  return (output.fileNameTemplate ?? defaultTemplate)
+    .replaceAll('{environment}', environment ?? '')
+    .replaceAll('{format}', formatter.name)
+    .replaceAll('{extension}', formatter.fileExtension);
+};
+
 /**
  * Generates a configuration file content compatible with Nginx and Apache
  * servers by including the corresponding header directives.
  *
  * @param {string} headerName - The name of the header to be added to the configuration.
  * @param {string} directive - The value to be associated with the header.
+ * @param {string[]} [notes] - Optional notes added as comments at the beginning of the configuration.
  * @returns {string} A formatted string containing Nginx and Apache header configurations.
  */
 export const computeConfigurationFileContent = (
   headerName: string,
   directive: string,
+  notes: string[] = [],
+): string => NGINX_APACHE_FORMATTER.format([{ name: headerName, value: directive }], notes);
+
+/**
+ * Computes the Content Security Policy (CSP) configuration file content for a specified environment.
+ *
+ * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
+ * @param {CspPolicies<Environment>} rules - The CSP rules configuration for the specified environment.
+ * @param {Environment} environment - The environment for which the CSP configuration is generated.
+ * @param {ConfigurationFileContentOptions<Environment>} [options] - The report type, formatter, notes, report-only rules, security headers and routes of the file.
+ * @returns {string} The configuration file content.
+ */
+export const computeCspConfigurationFileContentForEnvironment = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environment: Environment,
+  {
+    reportType,
+    formatter = NGINX_APACHE_FORMATTER,
+    notes = [],
+    reportOnlyRules,
+    securityHeaders,
+    routes = [],
+  }: ConfigurationFileContentOptions<Environment> = {},
 ): string => {
-  const nginxHeader: string = `add_header ${headerName} "${directive} always";`;
-  const apacheHeader: string = `Header always set ${headerName} "${directive}"`;
-  return `# Nginx configuration\n${nginxHeader}\n\n# Apache configuration\n${apacheHeader}\n`;
+  if (routes.length > 0 && !formatter.supportsRoutes) {
+    throw new Error(`CSP configuration format "${formatter.name}" does not support route policies`);
+  }
+
+  const computeHeaders = (environmentRules: CspPolicies<Environment>): ConfigurationHeader[] => Object
+    .entries(computeCspHeadersForEnvironment<Environment>(environmentRules, environment, reportType, reportOnlyRules, securityHeaders))
+    .map(([name, value]: [string, string]) => ({ name, value }));
+
+  return formatter.format(
+    computeHeaders(rules),
+    notes,
+    routes.map((route: CspRoutePolicy<Environment>) => ({
+      pathPattern: computeRoutePathPattern<Environment>(route),
+      headers: computeHeaders(computeRouteRules<Environment>(rules, route)),
+    })),
+  );
+};
+
+/**
+ * Computes the Content Security Policy (CSP) configuration file content combining every environment.
+ * Each environment configuration is preceded by a comment containing the environment name.
+ *
+ * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
+ * @param {CspPolicies<Environment>} rules - The CSP rules configuration.
+ * @param {Set<Environment>} environments - The environments included in the configuration file.
+ * @param {ConfigurationFileContentOptions<Environment>} [options] - The content settings of the file, the notes are written at the beginning of the file.
+ * @returns {string} The configuration file content.
+ */
+export const computeCombinedCspConfigurationFileContent = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Set<Environment>,
+  options: ConfigurationFileContentOptions<Environment> = {},
+): string => [...environments]
+  .map((environment: Environment, index: number) => computeCspConfigurationFileContentForEnvironment<Environment>(rules, environment, {
+    ...options,
+    notes: [...(index === 0 ? options.notes ?? [] : []), `Environment: ${environment}`],
+  }))
+  .join('\n');
+
+const writeConfigurationFile = async (
+  output: OutputConfiguration,
+  fileName: string,
+  content: string,
+): Promise<string> => {
+  const cspPath: string = path.join(output.directory ?? CONFIGURATIONS_DIRECTORY, fileName);
+  // The file name template may contain sub-directories
+  await mkdir(path.dirname(cspPath), { recursive: true });
+
+  await writeFile(
+    cspPath,
+    content,
+    { encoding: 'utf-8' },
+  );
+  return cspPath;
 };
 
 /**
@@ -30,84 +292,86 @@ export const computeConfigurationFileContent = (
  *
  * This function computes a CSP directive based on the given rules and environment,
  * then writes it to a configuration file in the corresponding environment-specific directory.
+ * Errors are logged and rethrown, so the caller can decide whether the generation failure is blocking.
  *
  * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
- * @param {string} headerName - The name of the CSP header (e.g., "Content-Security-Policy").
  * @param {CspPolicies<Environment>} rules - The CSP rules configuration for the specified environment.
  * @param {Environment} environment - The environment for which the CSP configuration is generated.
- * @returns {Promise<void>} A promise that resolves when the configuration file is successfully written.
+ * @param {ConfigurationFileContentOptions<Environment> & { output?: OutputConfiguration }} [options] - The content settings of the file,
+ *        and its output directory and file name template, the default directory is relative to the current directory.
+ * @returns {Promise<void>} A promise that resolves when the configuration file is successfully written, and rejects if it cannot be written.
  */
 export const generateCspConfigurationFileForEnvironment = async <Environment extends string = never>(
-  headerName: string,
   rules: CspPolicies<Environment>,
   environment: Environment,
+  { output = {}, ...contentOptions }: ConfigurationFileContentOptions<Environment> & { output?: OutputConfiguration } = {},
 ): Promise<void> => {
-  const directive: string = computeCspDirectiveForEnvironment<Environment>(rules, environment);
-
   try {
-    await mkdir('content-security-policy/configurations', { recursive: true });
+    const content: string = computeCspConfigurationFileContentForEnvironment<Environment>(rules, environment, contentOptions);
 
-    const cspPath: string = path.join('content-security-policy/configurations', `csp-configuration.${environment}.txt`);
+    const cspPath: string = await writeConfigurationFile(output, computeConfigurationFileName(environment, contentOptions.formatter, output), content);
 
-    const content: string = computeConfigurationFileContent(headerName, directive);
-
-    await writeFile(
-      cspPath,
-      content,
-      { encoding: 'utf-8' },
-    );
     logger.info(`✅ CSP configuration file generated successfully for environment: ${environment} at path: ${cspPath}`);
   } catch (error: unknown) {
     logger.error(`❌ Error generating CSP configuration file for environment ${environment}:`, error);
+    throw error;
   }
 };
 
 /**
- * Configures the CSP (Content Security Policy) configuration file generation plugin for the Vite development server.
- * Ensures CSP configuration files are generated for specific environments and monitors changes to regenerate files dynamically
- * when file located at cspConfigurationFilePath or when vite.config.ts change
+ * Generates the Content Security Policy (CSP) configuration files for every environment.
  *
- * @param server The Vite development server instance used to monitor file changes and handle dynamic updates.
- * @param rules The CSP policies or rules to apply for file generation across the specified environments.
- * @param environments A set of environment names for which CSP configuration files need to be generated.
- * @param reportType Optional parameter to specify the type of CSP report to generate.
- * @param cspConfigurationFilePath Optional file path for the CSP configuration. Defaults to 'content-security-policy/csp-configuration.ts' if not specified.
- * @return A promise that resolves once the plugin is fully configured and the initial CSP configuration files have been generated.
+ * @template Environment - The type representing the name of the environment (e.g., "production", "staging").
+ * @param {CspPolicies<Environment>} rules - The CSP rules configuration.
+ * @param {Set<Environment>} environments - The environments for which the CSP configuration files are generated.
+ * @param {ConfigurationFilesOptions<Environment>} [options] - The report type, formatters, output, notes, report-only rules, security headers and routes of the files.
+ * @returns {Promise<void>} A promise that resolves when every configuration file has been written, and rejects on the first failure.
  */
-export async function configureCspConfigurationFileGenerationPluginServer<Environment extends string = never>(
-  server: ViteDevServer,
+export const generateCspConfigurationFiles = async <Environment extends string = never>(
   rules: CspPolicies<Environment>,
   environments: Set<Environment>,
-  reportType?: ReportType,
-  cspConfigurationFilePath?: string,
-) {
-  const cspConfigPath: string = cspConfigurationFilePath ?? 'content-security-policy/csp-configuration.ts';
-
-  const generateFiles = async () => {
-    const headerName: string = computeHeaderNameByReportType(reportType);
-
-    for (const environment of environments) {
-      await generateCspConfigurationFileForEnvironment<Environment>(
-        headerName,
-        rules,
-        environment,
-      );
+  { formatters = [NGINX_APACHE_FORMATTER], output = {}, ...contentOptions }: ConfigurationFilesOptions<Environment> = {},
+): Promise<void> => {
+  if (output.combined) {
+    for (const formatter of formatters) {
+      try {
+        const content: string = computeCombinedCspConfigurationFileContent<Environment>(rules, environments, { ...contentOptions, formatter });
+        const cspPath: string = await writeConfigurationFile(output, computeConfigurationFileName(undefined, formatter, output), content);
+        logger.info(`✅ Combined CSP configuration file generated successfully at path: ${cspPath}`);
+      } catch (error: unknown) {
+        logger.error('❌ Error generating combined CSP configuration file:', error);
+        throw error;
+      }
     }
-  };
-
-  // Generate files on startup
-  await generateFiles();
-
-  // Generate files when configuration change
-  const handleOnChange = async (changedPath: string) => {
-    const normalizedChangedPath: string = path.basename(changedPath);
-    const normalizedCspPath: string = path.basename(cspConfigPath);
-    const viteConfigurationFile: string = 'vite.config.ts';
+    return;
+  }
 
-    if ([normalizedCspPath, viteConfigurationFile].includes(normalizedChangedPath)) {
-      await generateFiles();
+  for (const environment of environments) {
+    for (const formatter of formatters) {
+      await generateCspConfigurationFileForEnvironment<Environment>(rules, environment, { ...contentOptions, formatter, output });
     }
-  };
+  }
+};
 
-  server.watcher.on('change', handleOnChange);
+/**
+ * Configures the CSP (Content Security Policy) configuration file generation plugin for the Vite development server.
+ * Ensures CSP configuration files are generated for specific environments when the server starts.
+ * When the Vite configuration file or one of its dependencies changes, Vite restarts the server, so the files are generated again with the new rules.
+ *
+ * @param rules The CSP policies or rules to apply for file generation across the specified environments, or a function returning the current rules.
+ * @param environments A set of environment names for which CSP configuration files need to be generated.
+ * @param options The report type, formatters, output, report-only rules, security headers and routes of the generated files.
+ * @return A promise that resolves once the initial CSP configuration files have been generated.
+ */
+export async function configureCspConfigurationFileGenerationPluginServer<Environment extends string = never>(
+  rules: CspPolicies<Environment> | CspPoliciesProvider<Environment>,
+  environments: Set<Environment>,
+  options?: ConfigurationFilesOptions<Environment>,
+) {
+  try {
+    const currentRules: CspPolicies<Environment> = typeof rules === 'function' ? rules() : rules;
+    await generateCspConfigurationFiles<Environment>(currentRules, environments, options);
+  } catch {
+    // The error has already been logged, the development server must keep running
+  }
 }
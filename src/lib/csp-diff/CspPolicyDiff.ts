@@ -0,0 +1,209 @@
+import { extractCspPoliciesFromConfigurationFile } from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import type { ConfigurationFormatter } from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { DEFAULT_ENVIRONMENT_LABEL } from '@lib/csp-validation/CspPolicyValidation';
+
+/**
+ * The change of a directive between two policies
+ *
+ * @property directive - The directive name
+ * @property status - Whether the directive is only in the new policy, only in the previous policy, or in both with different sources
+ * @property addedSources - The sources only in the new policy
+ * @property removedSources - The sources only in the previous policy
+ */
+export type CspDirectiveDiff = {
+  directive: string,
+  status: 'added' | 'removed' | 'changed',
+  addedSources: string[],
+  removedSources: string[],
+};
+
+/**
+ * The changes between two policies, serializable as JSON
+ *
+ * @property from - The label of the previous policy, e.g. an environment name or a configuration file path
+ * @property to - The label of the new policy
+ * @property directives - The changed directives, empty if the policies are equivalent
+ */
+export type CspPolicyDiffReport = {
+  from: string,
+  to: string,
+  directives: CspDirectiveDiff[],
+};
+
+/**
+ * Parses a serialized policy, e.g. `default-src 'self'; img-src 'self' data:`.
+ * Directive names are lower-cased, and only the first occurrence of a directive is kept, like browsers do.
+ *
+ * @param policy The serialized policy
+ * @returns {Map<string, string[]>} The sources of each directive, by order of appearance
+ */
+export const parseCspPolicy = (policy: string): Map<string, string[]> => {
+  const directives: Map<string, string[]> = new Map<string, string[]>();
+  for (const serializedDirective of policy.split(';')) {
+    const [directive, ...sources] = serializedDirective.trim().split(/\s+/);
+    if (directive && !directives.has(directive.toLowerCase())) {
+      directives.set(directive.toLowerCase(), sources);
+    }
+  }
+  return directives;
+};
+
+/**
+ * Computes the changes of each directive between two serialized policies.
+ * Unchanged directives are not included.
+ *
+ * @param previousPolicy The previous serialized policy
+ * @param policy The new serialized policy
+ * @returns {CspDirectiveDiff[]} The changed directives, in the order of the new policy, followed by the removed directives
+ */
+export const computeCspPolicyDiff = (previousPolicy: string, policy: string): CspDirectiveDiff[] => {
+  const previousDirectives: Map<string, string[]> = parseCspPolicy(previousPolicy);
+  const directives: Map<string, string[]> = parseCspPolicy(policy);
+
+  const changedDirectives: CspDirectiveDiff[] = [...directives].flatMap(([directive, sources]: [string, string[]]): CspDirectiveDiff[] => {
+    const previousSources: string[] | undefined = previousDirectives.get(directive);
+    if (previousSources === undefined) {
+      return [{
+        directive, status: 'added', addedSources: sources, removedSources: [],
+      }];
+    }
+
+    const addedSources: string[] = sources.filter((source: string) => !previousSources.includes(source));
+    const removedSources: string[] = previousSources.filter((source: string) => !sources.includes(source));
+    return addedSources.length > 0 || removedSources.length > 0
+      ? [{
+        directive, status: 'changed', addedSources, removedSources,
+      }]
+      : [];
+  });
+
+  const removedDirectives: CspDirectiveDiff[] = [...previousDirectives]
+    .filter(([directive]: [string, string[]]) => !directives.has(directive))
+    .map(([directive, sources]: [string, string[]]) => ({
+      directive, status: 'removed', addedSources: [], removedSources: sources,
+    }));
+
+  return [...changedDirectives, ...removedDirectives];
+};
+
+/**
+ * Formats the change of a directive on one line, e.g. `script-src: +https://cdn.example.com -'unsafe-inline'`.
+ *
+ * @param diff The change of the directive
+ * @returns {string} The formatted change
+ */
+export const formatCspDirectiveDiff = (diff: CspDirectiveDiff): string => {
+  if (diff.status === 'added') {
+    return `+ ${[diff.directive, ...diff.addedSources].join(' ')}`;
+  }
+  if (diff.status === 'removed') {
+    return `- ${diff.directive}`;
+  }
+  return `${diff.directive}: ${[
+    ...diff.addedSources.map((source: string) => `+${source}`),
+    ...diff.removedSources.map((source: string) => `-${source}`),
+  ].join(' ')}`;
+};
+
+/**
+ * Summarizes the policy changes between two versions of the rules, for each environment.
+ *
+ * @param previousRules The previous CSP rules
+ * @param rules The new CSP rules
+ * @param environments The environments to compare, the default policy is compared if empty
+ * @returns {string[]} One line per changed environment, empty if no policy changed
+ */
+export const computeCspRulesChangesSummary = <Environment extends string = never>(
+  previousRules: CspPolicies<Environment>,
+  rules: CspPolicies<Environment>,
+  environments: Iterable<Environment> = [],
+): string[] => {
+  const comparedEnvironments: (Environment | undefined)[] = [...environments];
+  return (comparedEnvironments.length > 0 ? comparedEnvironments : [undefined])
+    .flatMap((environment: Environment | undefined) => {
+      const diffs: CspDirectiveDiff[] = computeCspPolicyDiff(
+        computeCspDirectiveForEnvironment<Environment>(previousRules, environment),
+        computeCspDirectiveForEnvironment<Environment>(rules, environment),
+      );
+      return diffs.length > 0
+        ? [`${environment ?? DEFAULT_ENVIRONMENT_LABEL}: ${diffs.map(formatCspDirectiveDiff).join(', ')}`]
+        : [];
+    });
+};
+
+/**
+ * Computes the changes between the policies of two environments.
+ *
+ * @param rules The CSP rules
+ * @param fromEnvironment The environment of the previous policy, the default policy is used if undefined
+ * @param toEnvironment The environment of the new policy, the default policy is used if undefined
+ * @returns {CspPolicyDiffReport} The changes from the first environment to the second one
+ */
+export const computeCspEnvironmentsDiff = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  fromEnvironment: Environment | undefined,
+  toEnvironment: Environment | undefined,
+): CspPolicyDiffReport => ({
+  from: fromEnvironment ?? DEFAULT_ENVIRONMENT_LABEL,
+  to: toEnvironment ?? DEFAULT_ENVIRONMENT_LABEL,
+  directives: computeCspPolicyDiff(
+    computeCspDirectiveForEnvironment<Environment>(rules, fromEnvironment),
+    computeCspDirectiveForEnvironment<Environment>(rules, toEnvironment),
+  ),
+});
+
+/**
+ * Computes the changes between a previously generated configuration file, e.g. the committed one, and the current rules.
+ *
+ * @param rules The current CSP rules
+ * @param environment The environment of the configuration file, the default policy is used if undefined
+ * @param baselineContent The content of the previously generated configuration file
+ * @param baselineLabel The label of the previous policy in the report, e.g. the configuration file path
+ * @param formatter The formatter that generated the file, default is the combined Nginx and Apache format
+ * @param headerName The name of the CSP header, default is `Content-Security-Policy`
+ * @returns {CspPolicyDiffReport} The changes from the configuration file to the current rules
+ */
+export const computeCspBaselineDiff = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environment: Environment | undefined,
+  baselineContent: string,
+  baselineLabel: string,
+  formatter?: ConfigurationFormatter,
+  headerName?: string,
+): CspPolicyDiffReport => ({
+  from: baselineLabel,
+  to: environment ?? DEFAULT_ENVIRONMENT_LABEL,
+  directives: computeCspPolicyDiff(
+    extractCspPoliciesFromConfigurationFile(baselineContent, formatter, headerName)[0] ?? '',
+    computeCspDirectiveForEnvironment<Environment>(rules, environment),
+  ),
+});
+
+/**
+ * Formats a diff report for humans, with one line per added or removed source.
+ *
+ * @param report The diff report
+ * @returns {string} The formatted report
+ */
+export const formatCspPolicyDiffReport = (report: CspPolicyDiffReport): string => {
+  if (report.directives.length === 0) {
+    return `No CSP policy change from ${report.from} to ${report.to}\n`;
+  }
+
+  const lines: string[] = report.directives.flatMap((diff: CspDirectiveDiff) => {
+    if (diff.status === 'added') {
+      return [`  + ${[diff.directive, ...diff.addedSources].join(' ')}`];
+    }
+    if (diff.status === 'removed') {
+      return [`  - ${[diff.directive, ...diff.removedSources].join(' ')}`];
+    }
+    return [
+      `  ${diff.directive}`,
+      ...diff.addedSources.map((source: string) => `    + ${source}`),
+      ...diff.removedSources.map((source: string) => `    - ${source}`),
+    ];
+  });
+  return `CSP policy changes from ${report.from} to ${report.to}:\n${lines.join('\n')}\n`;
+};
@@ -0,0 +1,393 @@
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { computeReportTypeForEnvironment, ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { parseCspPolicy } from '@lib/csp-diff/CspPolicyDiff';
+import { computeRouteRules, CspRoutePolicy } from '@lib/csp-routes/CspRoutes';
+import { DEFAULT_ENVIRONMENT_LABEL } from '@lib/csp-validation/CspPolicyValidation';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from 'simple-logging-system';
+
+const logger: Logger = new Logger('CspPolicyEvaluation');
+
+export type EvaluationSeverity = 'high' | 'medium' | 'low' | 'info';
+
+export type CspEvaluationReportFormat = 'console' | 'json' | 'markdown';
+
+/**
+ * A weakness found in the effective policy of an environment.
+ *
+ * @property severity - `high` if the policy can be bypassed to execute scripts, `medium` or `low` if it weakens the protection, `info` for a recommendation
+ * @property directive - The directive in which the weakness is found
+ * @property message - The description of the weakness and how to fix it
+ */
+export type CspEvaluationFinding = {
+  severity: EvaluationSeverity,
+  directive: string,
+  message: string,
+};
+
+/**
+ * The evaluation of the effective policy of an environment.
+ *
+ * @property environment - The environment, `default` being the policy without environment, followed by the route or `(report-only)`
+ *                         for the policies of the routes and the report-only policies, e.g. `production (route /admin/**)`
+ * @property policy - The evaluated policy
+ * @property score - The strength of the policy, from 0 to 100
+ * @property findings - The weaknesses found in the policy, from the most to the least severe
+ * @property reportOnly - True for the report-only policies and the policies of the environments in report mode, which are not enforced,
+ *                        so they are not compared with the minimum score
+ */
+export type CspEnvironmentEvaluation = {
+  environment: string,
+  policy: string,
+  score: number,
+  findings: CspEvaluationFinding[],
+  reportOnly?: boolean,
+};
+
+/**
+ * The policies served in addition to the policy of the rules, also evaluated, and how they are served.
+ *
+ * @property reportOnlyRules - CSP rules sent in the `Content-Security-Policy-Report-Only` header
+ * @property routes - Route policies, whose rules are merged on top of the rules
+ * @property reportType - The report type, for every environment or by environment, the policies of the environments in report mode are not enforced
+ * @property includeDefault - If false, only the policies of the environments are evaluated, not the default policy. Default is true.
+ */
+export type CspPoliciesEvaluationOptions<Environment extends string = never> = {
+  reportOnlyRules?: CspPolicies<Environment>,
+  routes?: CspRoutePolicy<Environment>[],
+  reportType?: ReportTypeByEnvironment<Environment>,
+  includeDefault?: boolean,
+};
+
+/**
+ * Evaluation configuration
+ *
+ * @property formats - The formats of the report: `console` is logged, `json` and `markdown` are written in `csp-evaluation.json` and `csp-evaluation.md`. Default is `['console']`.
+ * @property outputDirectory - The directory of the written reports, relative to the Vite root. Default is `content-security-policy`.
+ * @property minimumScore - The minimum score of every environment, the build fails if an enforced policy scores lower. Default is 0.
+ */
+export type EvaluationConfiguration = {
+  formats?: CspEvaluationReportFormat[],
+  outputDirectory?: string,
+  minimumScore?: number,
+};
+
+const DEFAULT_OUTPUT_DIRECTORY: string = 'content-security-policy';
+
+const REPORT_FILE_NAMES: Record<Exclude<CspEvaluationReportFormat, 'console'>, string> = {
+  json: 'csp-evaluation.json',
+  markdown: 'csp-evaluation.md',
+};
+
+const SEVERITIES: EvaluationSeverity[] = ['high', 'medium', 'low', 'info'];
+
+/**
+ * The points removed from the score of a policy for each finding of a severity
+ */
+const SEVERITY_PENALTIES: Record<EvaluationSeverity, number> = {
+  high: 25,
+  medium: 10,
+  low: 5,
+  info: 0,
+};
+
+/**
+ * The hosts serving JSONP endpoints or AngularJS libraries, which execute any script
+ * when they are allowed by a host allowlist
+ */
+const ALLOWLIST_BYPASS_HOSTS: Record<string, string> = {
+  'www.google.com': 'JSONP endpoints',
+  'accounts.google.com': 'JSONP endpoints',
+  'www.googleapis.com': 'JSONP endpoints',
+  'maps.googleapis.com': 'JSONP endpoints',
+  'www.youtube.com': 'JSONP endpoints',
+  'graph.facebook.com': 'JSONP endpoints',
+  'ajax.googleapis.com': 'AngularJS libraries',
+  'cdnjs.cloudflare.com': 'AngularJS libraries',
+  'cdn.jsdelivr.net': 'AngularJS libraries',
+  'unpkg.com': 'AngularJS libraries',
+  'code.angularjs.org': 'AngularJS libraries',
+  'ajax.aspnetcdn.com': 'AngularJS libraries',
+};
+
+/**
+ * The sources allowing scripts from any host
+ */
+const ANY_HOST_SOURCES: string[] = ['*', 'http:', 'https:', 'data:'];
+
+const NONCE_OR_HASH_REGEX: RegExp = /^'(nonce-.+|(sha256|sha384|sha512)-.+)'$/;
+const HOST_REGEX: RegExp = /^(?:[a-z][a-z0-9+.-]*:\/\/)?(\*|(?:\*\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(?:\d+|\*))?(?:\/.*)?$/i;
+
+const isNonceOrHash = (source: string): boolean => NONCE_OR_HASH_REGEX.test(source);
+
+const computeSourceHost = (source: string): string | undefined => (
+  source.startsWith('\'') || source.endsWith(':') ? undefined : HOST_REGEX.exec(source)?.[1]?.toLowerCase()
+);
+
+// A wildcard host, e.g. *.googleapis.com, allows every subdomain
+const isHostAllowed = (host: string, allowedHost: string): boolean => (
+  host === allowedHost || (allowedHost.startsWith('*.') && host.endsWith(allowedHost.slice(1)))
+);
+
+const evaluateScriptSources = (directive: string, sources: string[]): CspEvaluationFinding[] => {
+  const findings: CspEvaluationFinding[] = [];
+  const hasNonceOrHash: boolean = sources.some(isNonceOrHash);
+  const hasStrictDynamic: boolean = sources.includes('\'strict-dynamic\'');
+
+  if (sources.includes('\'unsafe-inline\'') && !hasNonceOrHash) {
+    findings.push({ severity: 'high', directive, message: '\'unsafe-inline\' allows the execution of injected inline scripts, use nonces or hashes instead' });
+  }
+  if (sources.includes('\'unsafe-eval\'')) {
+    findings.push({ severity: 'medium', directive, message: '\'unsafe-eval\' allows the execution of strings as code with eval(), remove it if possible' });
+  }
+
+  if (hasStrictDynamic) {
+    // The hosts and 'self' are ignored with 'strict-dynamic', only the scripts with a nonce or a hash are executed
+    if (!hasNonceOrHash) {
+      findings.push({ severity: 'medium', directive, message: '\'strict-dynamic\' without nonce or hash blocks every script, add a nonce or the hashes of the scripts' });
+    } else if (!sources.includes('https:') || !sources.includes('\'unsafe-inline\'')) {
+      findings.push({
+        severity: 'info',
+        directive,
+        message: 'add https: and \'unsafe-inline\' as fallbacks for the browsers not supporting \'strict-dynamic\', they are ignored by the others',
+      });
+    }
+    return findings;
+  }
+
+  for (const source of sources) {
+    const host: string | undefined = computeSourceHost(source);
+    if (ANY_HOST_SOURCES.includes(source) || host === '*') {
+      findings.push({ severity: 'high', directive, message: `${source} allows scripts from any host` });
+    } else if (host?.startsWith('*.')) {
+      findings.push({ severity: 'medium', directive, message: `${source} allows scripts from any subdomain of ${host.slice(2)}` });
+    }
+    const bypassHosts: string[] = host ? Object.keys(ALLOWLIST_BYPASS_HOSTS).filter((bypassHost: string) => isHostAllowed(bypassHost, host)) : [];
+    for (const bypassHost of bypassHosts) {
+      findings.push({
+        severity: 'high',
+        directive,
+        message: `${source} allows ${bypassHost}, which serves ${ALLOWLIST_BYPASS_HOSTS[bypassHost]} bypassing the allowlist, use nonces or hashes with 'strict-dynamic'`,
+      });
+    }
+  }
+
+  if (!hasNonceOrHash && sources.some((source: string) => source === '\'self\'' || computeSourceHost(source) !== undefined)) {
+    findings.push({ severity: 'low', directive, message: 'host allowlists can often be bypassed, use nonces or hashes with \'strict-dynamic\' instead' });
+  }
+  return findings;
+};
+
+const compareFindings = (finding: CspEvaluationFinding, otherFinding: CspEvaluationFinding): number => (
+  SEVERITIES.indexOf(finding.severity) - SEVERITIES.indexOf(otherFinding.severity)
+);
+
+/**
+ * Evaluates the strength of a serialized policy, like Google's CSP Evaluator:
+ * - Scripts, in `script-src-elem`, `script-src` or `default-src`: missing `script-src` and `default-src`, `'unsafe-inline'` without nonce or hash, `'unsafe-eval'`, wildcard hosts,
+ * hosts serving JSONP endpoints or AngularJS libraries, and the use of `'strict-dynamic'`
+ * - Missing or permissive `object-src`, missing `base-uri` and `frame-ancestors`, missing reporting
+ *
+ * @param policy The serialized policy, e.g. computed by `computeCspDirectiveForEnvironment`
+ * @returns {CspEvaluationFinding[]} The weaknesses found, from the most to the least severe
+ */
+export const evaluateCspPolicy = (policy: string): CspEvaluationFinding[] => {
+  const directives: Map<string, string[]> = parseCspPolicy(policy);
+  const findings: CspEvaluationFinding[] = [];
+
+  // The script elements are restricted by the most specific directive configured
+  const scriptDirective: string = ['script-src-elem', 'script-src'].find((directive: string) => directives.has(directive)) ?? 'default-src';
+  const scriptSources: string[] | undefined = directives.get(scriptDirective);
+  if (scriptSources) {
+    findings.push(...evaluateScriptSources(scriptDirective, scriptSources));
+  } else {
+    findings.push({ severity: 'high', directive: 'script-src', message: 'script-src and default-src are missing, scripts are allowed from any host' });
+  }
+
+  const objectSources: string[] | undefined = directives.get('object-src') ?? directives.get('default-src');
+  if (!objectSources) {
+    findings.push({ severity: 'high', directive: 'object-src', message: 'object-src is missing, plugins can execute scripts from any host, set it to \'none\'' });
+  } else if (objectSources.join(' ') !== '\'none\'') {
+    findings.push({ severity: 'medium', directive: 'object-src', message: 'plugins can execute scripts, set object-src to \'none\'' });
+  }
+
+  if (!directives.has('base-uri')) {
+    // Without base-uri, an injected <base> tag loads the relative scripts allowed by a nonce from another host
+    findings.push(scriptSources?.some(isNonceOrHash)
+      ? { severity: 'high', directive: 'base-uri', message: 'base-uri is missing, an injected <base> tag can load the scripts allowed by nonce from another host, set it to \'none\' or \'self\'' }
+      : { severity: 'low', directive: 'base-uri', message: 'base-uri is missing, an injected <base> tag can change the URLs of the page, set it to \'none\' or \'self\'' });
+  }
+  if (!directives.has('frame-ancestors')) {
+    findings.push({ severity: 'medium', directive: 'frame-ancestors', message: 'frame-ancestors is missing, the page can be framed by any site for clickjacking, set it to \'none\' or \'self\'' });
+  }
+  if (!directives.has('report-to') && !directives.has('report-uri')) {
+    findings.push({ severity: 'info', directive: 'report-to', message: 'the violations are not reported, add report-to or report-uri' });
+  }
+
+  return findings.sort(compareFindings);
+};
+
+/**
+ * Computes the score of a policy from its findings, 100 less 25 points per high, 10 per medium and 5 per low finding.
+ *
+ * @param findings The findings of the policy
+ * @returns {number} The score, from 0 to 100
+ */
+export const computeCspPolicyScore = (findings: CspEvaluationFinding[]): number => (
+  Math.max(0, findings.reduce((score: number, finding: CspEvaluationFinding) => score - SEVERITY_PENALTIES[finding.severity], 100))
+);
+
+const computeRouteLabel = <Environment extends string = never>(route: CspRoutePolicy<Environment>): string => (
+  (typeof route.path === 'string' ? [route.path] : route.path ?? [route.input ?? '']).join(', ')
+);
+
+const evaluatePolicy = (environment: string, policy: string, reportOnly: boolean): CspEnvironmentEvaluation => {
+  const findings: CspEvaluationFinding[] = evaluateCspPolicy(policy);
+  return {
+    environment,
+    policy,
+    score: computeCspPolicyScore(findings),
+    findings,
+    ...reportOnly ? { reportOnly } : {},
+  };
+};
+
+/**
+ * Evaluates the effective policy of the default policy and of each environment,
+ * followed by the policies of the routes and the report-only policy of the environment, which are also served.
+ * The policies of the environments in report mode are served in the `Content-Security-Policy-Report-Only` header, so they are flagged as report-only.
+ *
+ * @param rules The CSP rules
+ * @param environments The environments to evaluate, the default policy is also evaluated unless `includeDefault` is false
+ * @param options The report-only rules, the routes and the report type of the evaluated policies
+ * @returns {CspEnvironmentEvaluation[]} The evaluation of each policy
+ */
+export const evaluateCspPolicies = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Iterable<Environment> = [],
+  {
+    reportOnlyRules,
+    routes = [],
+    reportType,
+    includeDefault = true,
+  }: CspPoliciesEvaluationOptions<Environment> = {},
+): CspEnvironmentEvaluation[] => (
+  [...includeDefault ? [undefined] : [], ...environments].flatMap((environment: Environment | undefined) => {
+    const environmentLabel: string = environment ?? DEFAULT_ENVIRONMENT_LABEL;
+    const isReportMode: boolean = computeReportTypeForEnvironment<Environment>(reportType, environment) === 'report';
+    const reportOnlyPolicy: string = reportOnlyRules ? computeCspDirectiveForEnvironment<Environment>(reportOnlyRules, environment) : '';
+    return [
+      evaluatePolicy(environmentLabel, computeCspDirectiveForEnvironment<Environment>(rules, environment), isReportMode),
+      ...routes.map((route: CspRoutePolicy<Environment>) => evaluatePolicy(
+        `${environmentLabel} (route ${computeRouteLabel<Environment>(route)})`,
+        computeCspDirectiveForEnvironment<Environment>(computeRouteRules<Environment>(rules, route), environment),
+        isReportMode,
+      )),
+      // No report-only header is sent for an environment without report-only policy
+      ...reportOnlyPolicy ? [evaluatePolicy(`${environmentLabel} (report-only)`, reportOnlyPolicy, true)] : [],
+    ];
+  })
+);
+
+const countFindings = (evaluation: CspEnvironmentEvaluation, severity: EvaluationSeverity): number => (
+  evaluation.findings.filter((finding: CspEvaluationFinding) => finding.severity === severity).length
+);
+
+const formatMarkdownCell = (value: string): string => value.replaceAll('|', '\\|');
+
+const formatConsoleReport = (report: CspEnvironmentEvaluation[]): string => report.map((evaluation: CspEnvironmentEvaluation) => [
+  `CSP policy evaluation of ${evaluation.environment}: ${evaluation.score}/100`,
+  ...evaluation.findings.map((finding: CspEvaluationFinding) => `  ${finding.severity.padEnd(6)} ${finding.directive}: ${finding.message}`),
+  '',
+].join('\n')).join('');
+
+const formatMarkdownReport = (report: CspEnvironmentEvaluation[]): string => [
+  '## CSP policy evaluation',
+  '',
+  '| Environment | Score | High | Medium | Low | Info |',
+  '| --- | --- | --- | --- | --- | --- |',
+  ...report.map((evaluation: CspEnvironmentEvaluation) => (
+    `| ${evaluation.environment} | ${evaluation.score}/100 | ${SEVERITIES.map((severity: EvaluationSeverity) => countFindings(evaluation, severity)).join(' | ')} |`
+  )),
+  ...report.flatMap((evaluation: CspEnvironmentEvaluation) => [
+    '',
+    `### ${evaluation.environment}`,
+    '',
+    ...evaluation.findings.length === 0
+      ? ['No finding.']
+      : [
+        '| Severity | Directive | Finding |',
+        '| --- | --- | --- |',
+        ...evaluation.findings.map((finding: CspEvaluationFinding) => `| ${finding.severity} | \`${finding.directive}\` | ${formatMarkdownCell(finding.message)} |`),
+      ],
+  ]),
+  '',
+].join('\n');
+
+/**
+ * Formats an evaluation report for the console, as JSON, or as Markdown, e.g. for a pull request comment.
+ *
+ * @param report The evaluation of each policy
+ * @param format The format of the report
+ * @returns {string} The formatted report
+ */
+export const formatCspEvaluationReport = (report: CspEnvironmentEvaluation[], format: CspEvaluationReportFormat = 'console'): string => {
+  if (format === 'json') {
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+  return format === 'markdown' ? formatMarkdownReport(report) : formatConsoleReport(report);
+};
+
+/**
+ * Checks that the enforced policies of an evaluation report score at least the minimum score.
+ *
+ * @param report The evaluation of each policy
+ * @param minimumScore The minimum score, from 0 to 100
+ * @throws {Error} If an enforced policy scores lower than the minimum score
+ */
+export const checkCspEvaluationScores = (report: CspEnvironmentEvaluation[], minimumScore: number = 0) => {
+  const weakEvaluations: CspEnvironmentEvaluation[] = report
+    .filter((evaluation: CspEnvironmentEvaluation) => !evaluation.reportOnly && evaluation.score < minimumScore);
+  if (weakEvaluations.length > 0) {
+    throw new Error(`The CSP policy scores lower than ${minimumScore}/100 for: ${weakEvaluations
+      .map((evaluation: CspEnvironmentEvaluation) => `${evaluation.environment} (${evaluation.score}/100)`)
+      .join(', ')}`);
+  }
+};
+
+/**
+ * Evaluates the CSP rules, logs or writes the report in the configured formats and throws if a policy scores lower than the minimum score.
+ *
+ * @param rules The CSP rules
+ * @param environments The environments to evaluate, the default policy is also evaluated unless `includeDefault` is false
+ * @param root The Vite root directory
+ * @param configuration The evaluation configuration
+ * @param options The report-only rules, the routes and the report type of the evaluated policies
+ * @returns {Promise<CspEnvironmentEvaluation[]>} The evaluation of each policy
+ * @throws {Error} If an enforced policy scores lower than the minimum score
+ */
+export const applyCspPoliciesEvaluation = async <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Iterable<Environment>,
+  root: string,
+  configuration: EvaluationConfiguration = {},
+  options: CspPoliciesEvaluationOptions<Environment> = {},
+): Promise<CspEnvironmentEvaluation[]> => {
+  const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<Environment>(rules, environments, options);
+
+  for (const format of configuration.formats ?? ['console']) {
+    if (format === 'console') {
+      logger.info(`\n${formatCspEvaluationReport(report, format)}`);
+    } else {
+      const reportPath: string = path.resolve(root, configuration.outputDirectory ?? DEFAULT_OUTPUT_DIRECTORY, REPORT_FILE_NAMES[format]);
+      await mkdir(path.dirname(reportPath), { recursive: true });
+      await writeFile(reportPath, formatCspEvaluationReport(report, format), { encoding: 'utf-8' });
+      logger.info(`📝 CSP policy evaluation written in ${reportPath}`);
+    }
+  }
+
+  checkCspEvaluationScores(report, configuration.minimumScore);
+  return report;
+};
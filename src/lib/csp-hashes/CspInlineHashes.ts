@@ -0,0 +1,187 @@
+import { computeRulesWithSources } from '@lib/csp/ComputeRulesWithSources';
+import { CspPolicies, DefaultOrigin, SourceListDirectives } from '@lib/csp/CspDirectives';
+import { parseHtmlAttributes } from '@lib/html/HtmlTags';
+import * as crypto from 'node:crypto';
+import { Logger } from 'simple-logging-system';
+
+const logger: Logger = new Logger('CspInlineHashes');
+
+export type HashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * The inline contents of an HTML document that must be allowed by the CSP.
+ *
+ * @property scripts - The content of the `<script>` elements without `src` attribute
+ * @property styles - The content of the `<style>` elements
+ * @property scriptAttributes - The values of the event handler attributes, e.g. `onclick`
+ * @property styleAttributes - The values of the `style` attributes
+ */
+export type InlineContents = {
+  scripts: string[],
+  styles: string[],
+  scriptAttributes: string[],
+  styleAttributes: string[],
+};
+
+/**
+ * The CSP hash sources of the inline contents, e.g. `'sha256-...'`.
+ */
+export type InlineHashes = InlineContents;
+
+type HashesTarget = {
+  directives: SourceListDirectives[],
+  requiresUnsafeHashes: boolean,
+};
+
+const SCRIPT_REGEX: RegExp = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const STYLE_REGEX: RegExp = /<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi;
+const TAG_REGEX: RegExp = /<[a-z][^\s/>]*(\s[^>]*)>/gi;
+
+/**
+ * The directives receiving the hashes of each kind of inline content, by order of preference.
+ * The hashes are added to the first directive configured in the rules.
+ */
+const HASHES_TARGETS: Record<keyof InlineHashes, HashesTarget> = {
+  scripts: { directives: ['script-src-elem', 'script-src'], requiresUnsafeHashes: false },
+  styles: { directives: ['style-src-elem', 'style-src'], requiresUnsafeHashes: false },
+  scriptAttributes: { directives: ['script-src-attr', 'script-src'], requiresUnsafeHashes: true },
+  styleAttributes: { directives: ['style-src-attr', 'style-src'], requiresUnsafeHashes: true },
+};
+
+const UNSAFE_HASHES_SOURCE: string = '\'unsafe-hashes\'';
+
+const NONCE_OR_HASH_REGEX: RegExp = /^'?(nonce-.+|(sha256|sha384|sha512)-.+)'?$/;
+
+/**
+ * Browsers ignore `'unsafe-inline'` when a directive contains a nonce or a hash, so the hashes are not added to the sources
+ * relying on `'unsafe-inline'`: the inline contents that are not hashed, e.g. added at runtime, would be blocked.
+ * The sources already containing a nonce or a hash do not rely on `'unsafe-inline'`, which is only a fallback for older browsers.
+ */
+const isRelyingOnUnsafeInline = (origin: DefaultOrigin): boolean => {
+  const sources: string[] = typeof origin === 'string' ? origin.split(/\s+/) : origin;
+  return sources.some((source: string) => source === '\'unsafe-inline\'' || source === 'unsafe-inline')
+    && !sources.some((source: string) => NONCE_OR_HASH_REGEX.test(source));
+};
+
+/**
+ * Computes the base64 hash of a content, prefixed by the algorithm name, e.g. `sha256-...`.
+ *
+ * @param content The content to hash
+ * @param algorithm The hash algorithm
+ * @returns {string} The hash of the content prefixed by the algorithm name
+ */
+export const computeHash = (content: string | Uint8Array, algorithm: HashAlgorithm): string => (
+  `${algorithm}-${crypto.createHash(algorithm).update(content).digest('base64')}`
+);
+
+/**
+ * Computes the CSP hash source of an inline content, e.g. `'sha256-...'`.
+ *
+ * @param content The inline content to hash
+ * @param algorithm The hash algorithm
+ * @returns {string} The quoted hash source to add in a CSP directive
+ */
+export const computeCspHashSource = (content: string, algorithm: HashAlgorithm): string => (
+  `'${computeHash(content, algorithm)}'`
+);
+
+/**
+ * Extracts the inline scripts, styles, event handlers and style attributes of an HTML document.
+ *
+ * @param html The HTML document
+ * @returns {InlineContents} The inline contents found in the document
+ */
+export const extractInlineContents = (html: string): InlineContents => {
+  const inlineContents: InlineContents = {
+    scripts: [],
+    styles: [],
+    scriptAttributes: [],
+    styleAttributes: [],
+  };
+
+  for (const [, attributes, content] of html.matchAll(SCRIPT_REGEX)) {
+    if (!parseHtmlAttributes(attributes).has('src')) {
+      inlineContents.scripts.push(content);
+    }
+  }
+
+  for (const [, content] of html.matchAll(STYLE_REGEX)) {
+    inlineContents.styles.push(content);
+  }
+
+  // Script and style contents are removed so their text is not read as tag attributes
+  const htmlWithoutContents: string = html
+    .replace(SCRIPT_REGEX, '<script$1></script>')
+    .replace(STYLE_REGEX, '<style></style>');
+
+  for (const [, attributes] of htmlWithoutContents.matchAll(TAG_REGEX)) {
+    for (const [attributeName, value] of parseHtmlAttributes(attributes)) {
+      if (attributeName.startsWith('on')) {
+        inlineContents.scriptAttributes.push(value);
+      } else if (attributeName === 'style') {
+        inlineContents.styleAttributes.push(value);
+      }
+    }
+  }
+
+  return inlineContents;
+};
+
+/**
+ * Computes the CSP hash sources of the inline contents of HTML documents.
+ * Each hash is present only once, even if the same content is found several times.
+ *
+ * @param htmlDocuments The HTML documents to scan
+ * @param algorithm The hash algorithm, default is sha256
+ * @returns {InlineHashes} The CSP hash sources, grouped by kind of inline content
+ */
+export const computeInlineHashes = (htmlDocuments: string[], algorithm: HashAlgorithm = 'sha256'): InlineHashes => {
+  const contents: InlineContents[] = htmlDocuments.map(extractInlineContents);
+  const hashContents = (kind: keyof InlineContents): string[] => [
+    ...new Set(
+      contents
+        .flatMap((inlineContents: InlineContents) => inlineContents[kind])
+        .map((content: string) => computeCspHashSource(content, algorithm)),
+    ),
+  ];
+
+  return {
+    scripts: hashContents('scripts'),
+    styles: hashContents('styles'),
+    scriptAttributes: hashContents('scriptAttributes'),
+    styleAttributes: hashContents('styleAttributes'),
+  };
+};
+
+/**
+ * Adds the hashes of inline contents to the corresponding directives for every environment.
+ *
+ * The hashes are added to the most specific directive configured (e.g. `script-src-elem` before `script-src`).
+ * If none is configured but `default-src` is, the generic directive (e.g. `script-src`) is created from `default-src`.
+ * If `default-src` is not configured either, inline contents are not restricted and the hashes are not added.
+ * The hashes are not added to the sources allowing inline contents with `'unsafe-inline'` without nonce or hash,
+ * since `'unsafe-inline'` would then be ignored by browsers, and a warning is logged.
+ *
+ * @param rules The CSP rules
+ * @param hashes The CSP hash sources of the inline contents
+ * @returns {CspPolicies<Environment>} The rules including the hashes
+ */
+export const computeRulesWithInlineHashes = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  hashes: InlineHashes,
+): CspPolicies<Environment> => (Object.keys(HASHES_TARGETS) as (keyof InlineHashes)[])
+  .filter((kind: keyof InlineHashes) => hashes[kind].length > 0)
+  .reduce((computedRules: CspPolicies<Environment>, kind: keyof InlineHashes) => {
+    const { directives, requiresUnsafeHashes } = HASHES_TARGETS[kind];
+    const sources: string[] = requiresUnsafeHashes ? [UNSAFE_HASHES_SOURCE, ...hashes[kind]] : hashes[kind];
+    let hasSkippedOrigins: boolean = false;
+    const rulesWithHashes: CspPolicies<Environment> = computeRulesWithSources<Environment>(computedRules, directives, sources, (origin: DefaultOrigin) => {
+      hasSkippedOrigins ||= isRelyingOnUnsafeInline(origin);
+      return !isRelyingOnUnsafeInline(origin);
+    });
+    if (hasSkippedOrigins) {
+      logger.warn(`⚠️ The hashes of the inline ${kind} are not added where ${directives.join(' or ')} allows 'unsafe-inline', `
+        + 'browsers would ignore \'unsafe-inline\' and block the inline code that is not hashed. Remove \'unsafe-inline\' to enforce the hashes.');
+    }
+    return rulesWithHashes;
+  }, rules);
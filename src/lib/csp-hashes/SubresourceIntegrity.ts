@@ -0,0 +1,86 @@
+import { computeHash } from '@lib/csp-hashes/CspInlineHashes';
+import { appendHtmlAttributes, parseHtmlAttributes } from '@lib/html/HtmlTags';
+import { SubresourceIntegrityConfiguration } from '@lib/plugins/CspSubresourceIntegrityPlugin';
+
+/**
+ * Finds the content of a built resource from the URL used in the HTML.
+ *
+ * @returns The content of the resource, or undefined if the URL does not target a built resource
+ */
+export type ResourceContentResolver = (url: string) => string | Uint8Array | undefined;
+
+const RESOURCE_TAG_REGEX: RegExp = /<(script|link)\b([^>]*)>/gi;
+
+const INTEGRITY_LINK_RELS: string[] = ['stylesheet', 'modulepreload'];
+
+const computeResourceUrl = (tagName: string, attributes: Map<string, string>): string | undefined => {
+  if (tagName.toLowerCase() === 'script') {
+    return attributes.get('src');
+  }
+
+  const rels: string[] = (attributes.get('rel') ?? '').toLowerCase().split(/\s+/);
+  if (rels.some((rel: string) => INTEGRITY_LINK_RELS.includes(rel))) {
+    return attributes.get('href');
+  }
+
+  return undefined;
+};
+
+/**
+ * Adds `integrity` and `crossorigin` attributes to the scripts, stylesheets and modulepreload links of an HTML document.
+ * Tags already having an `integrity` attribute and tags targeting resources that are not resolved are left unchanged.
+ *
+ * @param html The HTML document
+ * @param resolveResourceContent The function finding the content of a resource from its URL
+ * @param configuration The Subresource Integrity configuration
+ * @returns {string} The HTML document including the `integrity` attributes
+ */
+export const computeHtmlWithIntegrity = (
+  html: string,
+  resolveResourceContent: ResourceContentResolver,
+  configuration: SubresourceIntegrityConfiguration,
+): string => html.replace(RESOURCE_TAG_REGEX, (startTag: string, tagName: string, rawAttributes: string) => {
+  const attributes: Map<string, string> = parseHtmlAttributes(rawAttributes);
+  const url: string | undefined = computeResourceUrl(tagName, attributes);
+  if (!url || attributes.has('integrity')) {
+    return startTag;
+  }
+
+  const content: string | Uint8Array | undefined = resolveResourceContent(url);
+  if (content === undefined) {
+    return startTag;
+  }
+
+  return appendHtmlAttributes(startTag, {
+    integrity: computeHash(content, configuration.algorithm ?? 'sha384'),
+    ...(attributes.has('crossorigin') ? {} : { crossorigin: configuration.crossOrigin ?? 'anonymous' }),
+  });
+});
+
+/**
+ * Creates a resolver finding built files from the URLs used in the HTML.
+ * A URL targets a built file if its path, without query and fragment, ends with the file name.
+ *
+ * @param contentsByFileName The content of the built files by file name relative to the output directory
+ * @returns {ResourceContentResolver} The resolver
+ */
+export const createResourceContentResolver = (
+  contentsByFileName: Map<string, string | Uint8Array>,
+): ResourceContentResolver => (url: string) => {
+  const urlPath: string = url.split(/[?#]/)[0];
+  const fileName: string | undefined = [...contentsByFileName.keys()].find(
+    (candidate: string) => urlPath === candidate || urlPath.endsWith(`/${candidate}`),
+  );
+  return fileName === undefined ? undefined : contentsByFileName.get(fileName);
+};
+
+/**
+ * Notes added to the generated configuration files when Subresource Integrity is enabled.
+ * The `Integrity-Policy` header supersedes the abandoned `require-sri-for` directive.
+ */
+export const SUBRESOURCE_INTEGRITY_NOTES: string[] = [
+  'Subresource Integrity: built scripts and stylesheets are loaded with integrity attributes.',
+  'To block scripts loaded without integrity metadata in supporting browsers, add the Integrity-Policy header:',
+  'Nginx: add_header Integrity-Policy "blocked-destinations=(script)" always;',
+  'Apache: Header always set Integrity-Policy "blocked-destinations=(script)"',
+];
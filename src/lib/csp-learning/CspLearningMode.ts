@@ -0,0 +1,274 @@
+import { CSP_KEYWORDS } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies, Directives, SourceListDirectives } from '@lib/csp/CspDirectives';
+import { CSP_DIRECTIVES } from '@lib/csp/CspDirectivesRegistry';
+import { computeHash, HashAlgorithm } from '@lib/csp-hashes/CspInlineHashes';
+import { CspViolation } from '@lib/csp-report/CspReportCollector';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { Logger } from 'simple-logging-system';
+import { URL } from 'url';
+
+const logger: Logger = new Logger('CspLearningMode');
+
+const DEFAULT_OUTPUT_PATH: string = 'content-security-policy/csp-learned-rules.ts';
+
+/**
+ * Browsers truncate the samples of the violations to their first 40 characters
+ */
+const MAX_SAMPLE_LENGTH: number = 40;
+
+/**
+ * The origins of a domain are replaced with a wildcard when at least this number of its subdomains are blocked
+ */
+const WILDCARD_HOSTS_THRESHOLD: number = 3;
+
+/**
+ * The blocked URIs of the violations that are not URLs, and the source allowing them
+ */
+const BLOCKED_URI_SOURCES: Record<string, string> = {
+  eval: 'unsafe-eval',
+  'wasm-eval': 'wasm-unsafe-eval',
+  data: 'data:',
+  blob: 'blob:',
+  filesystem: 'filesystem:',
+  mediastream: 'mediastream:',
+};
+
+const SAME_ORIGIN_PROTOCOLS: string[] = ['http:', 'https:', 'ws:', 'wss:'];
+
+/**
+ * Learning mode configuration
+ *
+ * @property outputPath - The path of the file where the suggested rules are written, relative to the Vite root.
+ * A `.json` file is written as a policy file, any other extension as a TypeScript module exporting the rules. Default is `content-security-policy/csp-learned-rules.ts`.
+ * @property algorithm - The hash algorithm of the suggested hashes of inline code. Default is `sha256`.
+ */
+export type LearningModeConfiguration = {
+  outputPath?: string,
+  algorithm?: HashAlgorithm,
+};
+
+/**
+ * The rules suggested from the violations, and the notes about the violations that could not be turned into sources.
+ */
+export type CspLearnedPolicy = {
+  rules: Partial<Record<SourceListDirectives, string[]>>,
+  notes: string[],
+};
+
+/**
+ * The policy sent in report-only mode by the learning mode: every resource is reported, with a sample of the inline code.
+ * A source list with only `'report-sample'` does not allow any resource.
+ */
+export const LEARNING_MODE_RULES: CspPolicies = {
+  'default-src': ['none'],
+  'script-src': ['report-sample'],
+  'style-src': ['report-sample'],
+  'base-uri': ['none'],
+  'form-action': ['none'],
+};
+
+// The -elem and -attr directives are learned in their generic directive, e.g. script-src-elem in script-src
+const computeLearnedDirective = (directive: string): string => directive.replace(/-(elem|attr)$/, '');
+
+const isInlineViolation = (violation: CspViolation): boolean => violation.blockedUri === 'inline' || violation.blockedUri === '';
+
+const parseUrl = (url: string, base?: string): URL | undefined => {
+  try {
+    return new URL(url, base);
+  } catch {
+    return undefined;
+  }
+};
+
+const computeUrlSource = (blockedUri: string, documentUri: string): string | undefined => {
+  const documentUrl: URL | undefined = parseUrl(documentUri);
+  const blockedUrl: URL | undefined = parseUrl(blockedUri, documentUrl?.href);
+  if (!blockedUrl) {
+    return undefined;
+  }
+
+  if (!blockedUrl.host) {
+    // Schemes without host, e.g. data: or blob: URLs
+    return blockedUrl.protocol;
+  }
+  if (blockedUrl.host === documentUrl?.host && SAME_ORIGIN_PROTOCOLS.includes(blockedUrl.protocol)) {
+    return 'self';
+  }
+  return `${blockedUrl.protocol}//${blockedUrl.host}`;
+};
+
+/**
+ * Computes the source allowing the resource blocked by a violation.
+ * Inline code is allowed by the hash of its sample, when the sample is not truncated.
+ *
+ * @param violation The violation
+ * @param algorithm The hash algorithm of inline code
+ * @returns {string | undefined} The source, or undefined if the resource cannot be allowed by a source
+ */
+export const computeLearnedSource = (violation: CspViolation, algorithm: HashAlgorithm = 'sha256'): string | undefined => {
+  if (isInlineViolation(violation)) {
+    return violation.sample !== undefined && violation.sample.length < MAX_SAMPLE_LENGTH
+      ? computeHash(violation.sample, algorithm)
+      : undefined;
+  }
+  return BLOCKED_URI_SOURCES[violation.blockedUri] ?? computeUrlSource(violation.blockedUri, violation.documentUri);
+};
+
+/**
+ * Replaces the origins of the subdomains of a domain with a wildcard, e.g. `https://*.example.com`,
+ * when at least 3 subdomains with the same scheme and port are allowed.
+ *
+ * @param sources The sources of a directive
+ * @returns {string[]} The sources with the grouped origins
+ */
+export const computeGroupedOrigins = (sources: string[]): string[] => {
+  const originsByDomain: Map<string, string[]> = new Map<string, string[]>();
+  for (const source of sources) {
+    const match: RegExpExecArray | null = /^([a-z][a-z0-9+.-]*:\/\/)[^.:/]+\.([^:/]+\.[^:/]+)(:\d+)?$/i.exec(source);
+    if (match) {
+      const domain: string = `${match[1]}*.${match[2]}${match[3] ?? ''}`;
+      originsByDomain.set(domain, [...originsByDomain.get(domain) ?? [], source]);
+    }
+  }
+
+  const groupedDomains: [string, string[]][] = [...originsByDomain.entries()]
+    .filter(([, origins]: [string, string[]]) => origins.length >= WILDCARD_HOSTS_THRESHOLD);
+  const groupedOrigins: string[] = groupedDomains.flatMap(([, origins]: [string, string[]]) => origins);
+  return [
+    ...sources.filter((source: string) => !groupedOrigins.includes(source)),
+    ...groupedDomains.map(([domain]: [string, string[]]) => domain),
+  ];
+};
+
+const compareSources = (source: string, otherSource: string): number => {
+  const isKeyword = (value: string): boolean => (CSP_KEYWORDS as string[]).includes(value);
+  if (isKeyword(source) !== isKeyword(otherSource)) {
+    return isKeyword(source) ? -1 : 1;
+  }
+  return source.localeCompare(otherSource);
+};
+
+/**
+ * Synthesizes the rules allowing the resources blocked by violations, starting from `default-src 'none'`:
+ * - The blocked URLs are allowed by their origin, or by `'self'` for the origin of the document, and subdomains are grouped with a wildcard
+ * - The inline code is allowed by the hash of its sample, and the event handlers also require `'unsafe-hashes'`
+ * - `eval` and `data:` or `blob:` URLs are allowed by their keyword or scheme
+ *
+ * @param violations The violations reported by the browser
+ * @param algorithm The hash algorithm of inline code
+ * @returns {CspLearnedPolicy} The suggested rules, and the notes about the violations that cannot be allowed by a source
+ */
+export const computeLearnedPolicy = (violations: CspViolation[], algorithm: HashAlgorithm = 'sha256'): CspLearnedPolicy => {
+  const sourcesByDirective: Map<string, Set<string>> = new Map<string, Set<string>>();
+  const notes: string[] = [];
+
+  // The violations of token list directives, e.g. trusted-types, cannot be allowed by a source
+  const sourceListViolations: CspViolation[] = violations.filter((violation: CspViolation) => (
+    CSP_DIRECTIVES[computeLearnedDirective(violation.directive) as Directives]?.kind === 'source-list'
+  ));
+
+  for (const violation of sourceListViolations) {
+    const directive: string = computeLearnedDirective(violation.directive);
+    const source: string | undefined = computeLearnedSource(violation, algorithm);
+    if (source) {
+      const sources: Set<string> = sourcesByDirective.get(directive) ?? new Set<string>();
+      sources.add(source);
+      if (violation.directive.endsWith('-attr') && isInlineViolation(violation)) {
+        sources.add('unsafe-hashes');
+      }
+      sourcesByDirective.set(directive, sources);
+    } else {
+      const location: string = violation.sourceFile
+        ? `${violation.sourceFile}${violation.lineNumber ? `:${violation.lineNumber}` : ''}`
+        : violation.documentUri;
+      notes.push(isInlineViolation(violation)
+        ? `${directive}: the inline code of ${location} cannot be hashed from its truncated sample, allow it with a nonce or a hash`
+        : `${directive}: "${violation.blockedUri}" of ${location} cannot be allowed by a source`);
+    }
+  }
+
+  return {
+    rules: {
+      'default-src': ['none'],
+      ...Object.fromEntries([...sourcesByDirective.entries()].map(([directive, sources]: [string, Set<string>]) => [
+        directive,
+        computeGroupedOrigins([...sources]).sort(compareSources),
+      ])),
+    },
+    notes: [...new Set(notes)],
+  };
+};
+
+/**
+ * Computes the content of the file of the suggested rules, a policy file for `.json` files, else a TypeScript module
+ * exporting the rules as default export and as `rules`, so it can be used as `cspConfigurationFilePath`.
+ *
+ * @param policy The suggested rules and notes
+ * @param filePath The path of the file
+ * @returns {string} The content of the file
+ */
+export const computeLearnedPolicyFileContent = (policy: CspLearnedPolicy, filePath: string): string => {
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    return `${JSON.stringify(policy.rules, null, 2)}\n`;
+  }
+
+  return [
+    '// Rules suggested by the CSP learning mode from the violations reported by the browser, review them before enforcing them',
+    ...policy.notes.map((note: string) => `// - ${note}`),
+    'import { CspPolicies } from \'vite-plugin-content-security-policy\';',
+    '',
+    'export const rules: CspPolicies = {',
+    ...(Object.entries(policy.rules) as [string, string[]][]).map(([directive, sources]: [string, string[]]) => (
+      `  '${directive}': [${sources.map((source: string) => `'${source}'`).join(', ')}],`
+    )),
+    '};',
+    '',
+    'export default rules;',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Creates the handler of the violations received in learning mode. The suggested rules are synthesized
+ * from every violation received, and written again when they change.
+ *
+ * @param root The Vite root directory
+ * @param configuration The learning mode configuration
+ * @returns {(violations: CspViolation[]) => Promise<void>} The handler of the received violations
+ */
+export const createCspLearningModeHandler = (
+  root: string,
+  configuration: LearningModeConfiguration,
+): (violations: CspViolation[]) => Promise<void> => {
+  const outputPath: string = path.resolve(root, configuration.outputPath ?? DEFAULT_OUTPUT_PATH);
+  const violationsByKey: Map<string, CspViolation> = new Map<string, CspViolation>();
+  let writtenContent: string = '';
+  let pendingWrite: Promise<void> | undefined;
+
+  const writeLearnedPolicy = async () => {
+    const content: string = computeLearnedPolicyFileContent(computeLearnedPolicy([...violationsByKey.values()], configuration.algorithm), outputPath);
+    if (content === writtenContent) {
+      return;
+    }
+    writtenContent = content;
+    try {
+      await mkdir(path.dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, content, { encoding: 'utf-8' });
+      logger.info(`📝 CSP rules learned from ${violationsByKey.size} violations written in ${outputPath}`);
+    } catch (error: unknown) {
+      logger.error(`❌ CSP learned rules not written in ${outputPath}:`, error);
+    }
+  };
+
+  logger.info(`CSP learning mode enabled, the rules suggested from the violations are written in ${outputPath}`);
+
+  return (violations: CspViolation[]) => {
+    for (const violation of violations) {
+      violationsByKey.set(`${violation.directive} ${violation.blockedUri} ${violation.sample ?? ''}`, violation);
+    }
+    // The writes are chained so the last suggested rules are written last
+    pendingWrite = pendingWrite ? pendingWrite.then(writeLearnedPolicy) : writeLearnedPolicy();
+    return pendingWrite;
+  };
+};
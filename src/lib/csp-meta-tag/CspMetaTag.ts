@@ -0,0 +1,115 @@
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { computeReportTypeForEnvironment, HeaderNames, ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { computeInlineHashes, computeRulesWithInlineHashes, HashAlgorithm } from '@lib/csp-hashes/CspInlineHashes';
+import { DEFAULT_ENVIRONMENT_LABEL } from '@lib/csp-validation/CspPolicyValidation';
+import { Logger } from 'simple-logging-system';
+import { HtmlTagDescriptor } from 'vite';
+
+const logger: Logger = new Logger('CspMetaTag');
+
+/**
+ * The directives ignored by browsers when the policy is delivered in a `<meta>` tag.
+ */
+export const META_TAG_UNSUPPORTED_DIRECTIVES: string[] = ['frame-ancestors', 'report-uri', 'sandbox'];
+
+/**
+ * The policy written in a `<meta>` tag.
+ *
+ * @property policy - The policy without the directives unsupported in `<meta>` tags
+ * @property droppedDirectives - The directives of the policy that are not supported in `<meta>` tags
+ */
+export type CspMetaTagPolicy = {
+  policy: string,
+  droppedDirectives: string[],
+};
+
+/**
+ * Removes the directives that are not supported in `<meta>` tags from a serialized policy.
+ *
+ * @param policy The serialized policy, e.g. `default-src 'self'; frame-ancestors 'none'`
+ * @returns {CspMetaTagPolicy} The policy to write in the `<meta>` tag, and the directives removed
+ */
+export const computeCspMetaTagPolicy = (policy: string): CspMetaTagPolicy => {
+  const directives: string[] = policy.split(';').map((directive: string) => directive.trim()).filter(Boolean);
+  const isUnsupportedDirective = (directive: string): boolean => (
+    META_TAG_UNSUPPORTED_DIRECTIVES.includes(directive.split(/\s+/)[0].toLowerCase())
+  );
+
+  return {
+    policy: directives.filter((directive: string) => !isUnsupportedDirective(directive)).join('; '),
+    droppedDirectives: directives
+      .filter(isUnsupportedDirective)
+      .map((directive: string) => directive.split(/\s+/)[0].toLowerCase()),
+  };
+};
+
+/**
+ * Computes the policy of an environment written in a `<meta>` tag, and warns about the parts of the configuration that cannot be applied:
+ * - The directives not supported in `<meta>` tags are removed
+ * - The report-only rules are ignored, since report-only policies cannot be delivered in `<meta>` tags
+ * - No policy is written if the report type of the environment is `report`, so a policy meant to be reported is never enforced
+ *
+ * @param rules The CSP rules
+ * @param environment The environment, the default policy is used if undefined
+ * @param reportType The report type, for every environment or by environment
+ * @param reportOnlyRules The CSP rules that are only reported
+ * @returns {string | undefined} The policy to write in the `<meta>` tag, undefined if no policy must be written
+ */
+export const computeCspMetaTagPolicyForEnvironment = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environment?: Environment,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+): string | undefined => {
+  const environmentLabel: string = environment ?? DEFAULT_ENVIRONMENT_LABEL;
+
+  if (reportOnlyRules && computeCspDirectiveForEnvironment<Environment>(reportOnlyRules, environment)) {
+    logger.warn(`The report-only rules of ${environmentLabel} are ignored, report-only policies are not supported in <meta> tags`);
+  }
+
+  if (computeReportTypeForEnvironment<Environment>(reportType, environment) === 'report') {
+    logger.warn(`The report type of ${environmentLabel} is "report", no CSP <meta> tag is written since report-only policies are not supported in <meta> tags`);
+    return undefined;
+  }
+
+  const { policy, droppedDirectives } = computeCspMetaTagPolicy(computeCspDirectiveForEnvironment<Environment>(rules, environment));
+  if (droppedDirectives.length > 0) {
+    logger.warn(`The directives ${droppedDirectives.join(', ')} of ${environmentLabel} are removed from the CSP <meta> tag, they are only supported in headers`);
+  }
+  return policy || undefined;
+};
+
+/**
+ * Computes the policy of an environment written in the `<meta>` tag of an HTML document, including the hashes of its inline contents,
+ * so the inline scripts and styles of the document are allowed without `'unsafe-inline'`.
+ * The hashes are computed as in the CSP Inline Hashes Plugin, so the tag agrees with the configuration files it generates.
+ * The warnings about the configuration are logged by {@link computeCspMetaTagPolicyForEnvironment}, which must be called first.
+ *
+ * @param rules The CSP rules
+ * @param html The HTML document
+ * @param environment The environment, the default policy is used if undefined
+ * @param algorithm The hash algorithm, default is sha256
+ * @returns {string} The policy to write in the `<meta>` tag of the document
+ */
+export const computeCspMetaTagPolicyWithInlineHashes = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  html: string,
+  environment?: Environment,
+  algorithm?: HashAlgorithm,
+): string => computeCspMetaTagPolicy(
+  computeCspDirectiveForEnvironment<Environment>(computeRulesWithInlineHashes<Environment>(rules, computeInlineHashes([html], algorithm)), environment),
+).policy;
+
+/**
+ * Computes the `<meta http-equiv="Content-Security-Policy">` tag of a policy, placed first in the `<head>` element
+ * so the policy applies to every resource of the document.
+ *
+ * @param policy The policy written in the tag
+ * @returns {HtmlTagDescriptor} The tag, to return from a `transformIndexHtml` hook
+ */
+export const computeCspMetaTag = (policy: string): HtmlTagDescriptor => ({
+  tag: 'meta',
+  attrs: { 'http-equiv': HeaderNames.CONTENT_SECURITY_POLICY, content: policy },
+  injectTo: 'head-prepend',
+});
@@ -0,0 +1,301 @@
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CSP_DIRECTIVES, DirectiveDefinition } from '@lib/csp/CspDirectivesRegistry';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * The subset of JSON Schema used to describe policy files.
+ */
+export type JsonSchema = {
+  $schema?: string,
+  $ref?: string,
+  title?: string,
+  description?: string,
+  type?: 'object' | 'array' | 'string' | 'boolean',
+  properties?: Record<string, JsonSchema>,
+  required?: string[],
+  additionalProperties?: boolean | JsonSchema,
+  items?: JsonSchema,
+  anyOf?: JsonSchema[],
+  definitions?: Record<string, JsonSchema>,
+};
+
+const DEFAULT_ORIGIN_SCHEMA: JsonSchema = {
+  description: 'a policy string or a list of sources',
+  anyOf: [
+    { type: 'string' },
+    { type: 'array', items: { type: 'string' } },
+  ],
+};
+
+const JSON_SCHEMA_DEFINITIONS: Record<string, JsonSchema> = {
+  defaultOrigin: DEFAULT_ORIGIN_SCHEMA,
+  authorisedOrigins: {
+    description: 'a policy string, a list of sources, or an object of values by environment with a default value',
+    anyOf: [
+      { $ref: '#/definitions/defaultOrigin' },
+      {
+        type: 'object',
+        properties: { default: { $ref: '#/definitions/defaultOrigin' } },
+        required: ['default'],
+        additionalProperties: {
+          description: 'a policy string, a list of sources, or an object extending the default value',
+          anyOf: [
+            { $ref: '#/definitions/defaultOrigin' },
+            {
+              type: 'object',
+              properties: { extend: { $ref: '#/definitions/defaultOrigin' } },
+              required: ['extend'],
+              additionalProperties: false,
+            },
+          ],
+        },
+      },
+    ],
+  },
+  directiveFlag: {
+    description: 'a boolean, or an object of booleans by environment with a default value',
+    anyOf: [
+      { type: 'boolean' },
+      {
+        type: 'object',
+        properties: { default: { type: 'boolean' } },
+        required: ['default'],
+        additionalProperties: { type: 'boolean' },
+      },
+    ],
+  },
+};
+
+/**
+ * Computes the JSON Schema of the policy files from the supported directives.
+ * The schema is published in the package as `schema/csp-policies.schema.json`,
+ * so editors can complete and check policy files referencing it with a `$schema` property.
+ *
+ * @returns {JsonSchema} The JSON Schema of the policy files
+ */
+export const computeCspPoliciesJsonSchema = (): JsonSchema => ({
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Content Security Policy rules of vite-plugin-content-security-policy',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    ...Object.fromEntries(
+      Object.entries(CSP_DIRECTIVES).map(([directive, definition]: [string, DirectiveDefinition]) => [
+        directive,
+        { $ref: definition.kind === 'flag' ? '#/definitions/directiveFlag' : '#/definitions/authorisedOrigins' },
+      ]),
+    ),
+  },
+  additionalProperties: false,
+  definitions: JSON_SCHEMA_DEFINITIONS,
+});
+
+const computeValueType = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+};
+
+const resolveSchemaReference = (schema: JsonSchema, rootSchema: JsonSchema): JsonSchema => {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const definitionName: string = schema.$ref.replace('#/definitions/', '');
+  return { ...rootSchema.definitions?.[definitionName], ...schema, $ref: undefined };
+};
+
+const computePropertyPath = (parentPath: string, propertyName: string): string => (
+  parentPath ? `${parentPath}.${propertyName}` : propertyName
+);
+
+const validateObjectAgainstSchema = (
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  rootSchema: JsonSchema,
+  valuePath: string,
+): string[] => {
+  const missingProperties: string[] = (schema.required ?? [])
+    .filter((propertyName: string) => !Object.hasOwn(value, propertyName))
+    .map((propertyName: string) => `${valuePath || 'policy'} must have a "${propertyName}" property`);
+
+  return Object.entries(value).reduce((errors: string[], [propertyName, propertyValue]: [string, unknown]) => {
+    const propertyPath: string = computePropertyPath(valuePath, propertyName);
+    const propertySchema: boolean | JsonSchema | undefined = schema.properties && Object.hasOwn(schema.properties, propertyName)
+      ? schema.properties[propertyName]
+      : schema.additionalProperties;
+    if (propertySchema === false) {
+      return [...errors, `${propertyPath} is not a supported property`];
+    }
+    if (propertySchema === undefined || propertySchema === true) {
+      return errors;
+    }
+    return [...errors, ...validateAgainstSchema(propertyValue, propertySchema, rootSchema, propertyPath)];
+  }, missingProperties);
+};
+
+/**
+ * Validates a value against the subset of JSON Schema used by {@link computeCspPoliciesJsonSchema}.
+ *
+ * @param value The value to validate
+ * @param schema The schema of the value
+ * @param rootSchema The schema containing the definitions referenced by `$ref`
+ * @param valuePath The path of the value, used in the error messages
+ * @returns {string[]} The errors found, empty if the value is valid
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  rootSchema: JsonSchema = schema,
+  valuePath: string = '',
+): string[] {
+  const resolvedSchema: JsonSchema = resolveSchemaReference(schema, rootSchema);
+
+  if (resolvedSchema.anyOf) {
+    const matchesAnySchema: boolean = resolvedSchema.anyOf.some(
+      (candidate: JsonSchema) => validateAgainstSchema(value, candidate, rootSchema, valuePath).length === 0,
+    );
+    return matchesAnySchema ? [] : [`${valuePath || 'policy'} must be ${resolvedSchema.description ?? 'a valid value'}`];
+  }
+
+  const valueType: string = computeValueType(value);
+  if (resolvedSchema.type && resolvedSchema.type !== valueType) {
+    return [`${valuePath || 'policy'} must be of type ${resolvedSchema.type}, found ${valueType}`];
+  }
+
+  if (Array.isArray(value) && resolvedSchema.items) {
+    const itemsSchema: JsonSchema = resolvedSchema.items;
+    return value.flatMap(
+      (item: unknown, index: number) => validateAgainstSchema(item, itemsSchema, rootSchema, `${valuePath}[${index}]`),
+    );
+  }
+
+  if (valueType === 'object') {
+    return validateObjectAgainstSchema(value as Record<string, unknown>, resolvedSchema, rootSchema, valuePath);
+  }
+
+  return [];
+}
+
+/**
+ * Parses the content of a policy file, in JSON or in YAML depending on the file extension.
+ *
+ * @param content The content of the policy file
+ * @param filePath The path of the policy file, ending with `.json`, `.yaml` or `.yml`
+ * @returns {unknown} The parsed content
+ * @throws {Error} If the file extension is not supported or the content cannot be parsed
+ */
+export const parseCspPolicyFileContent = (content: string, filePath: string): unknown => {
+  const extension: string = path.extname(filePath).toLowerCase();
+  if (extension === '.json') {
+    return JSON.parse(content);
+  }
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYaml(content);
+  }
+  throw new Error(`Unsupported CSP policy file extension "${extension}", use .json, .yaml, .yml or a JavaScript or TypeScript module`);
+};
+
+/**
+ * Checks a parsed policy file against the JSON Schema of the policy files.
+ * The `$schema` property is removed from the returned rules.
+ *
+ * @param content The parsed content of the policy file
+ * @param filePath The path of the policy file, used in the error message
+ * @returns {CspPolicies<Environment>} The CSP rules
+ * @throws {Error} If the content does not match the schema
+ */
+export const computeCspPoliciesFromFileContent = <Environment extends string = never>(
+  content: unknown,
+  filePath: string,
+): CspPolicies<Environment> => {
+  const errors: string[] = validateAgainstSchema(content, computeCspPoliciesJsonSchema());
+  if (errors.length > 0) {
+    throw new Error(`Invalid CSP policy file ${filePath}:\n${errors.map((error: string) => `  - ${error}`).join('\n')}`);
+  }
+
+  const rules: CspPolicies<Environment> & { $schema?: string } = { ...content as CspPolicies<Environment> };
+  delete rules.$schema;
+  return rules;
+};
+
+/**
+ * The rules of a policy file, and the files it depends on.
+ *
+ * @property rules - The CSP rules
+ * @property dependencies - The absolute paths of the files whose change affects the rules, including the policy file itself
+ */
+export type CspPolicyFileContent<Environment extends string = never> = {
+  rules: CspPolicies<Environment>,
+  dependencies: string[],
+};
+
+/**
+ * The exports of a JavaScript or TypeScript policy file
+ */
+type CspPolicyModule = {
+  default?: unknown,
+  rules?: unknown,
+};
+
+const MODULE_EXTENSIONS: string[] = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'];
+
+/**
+ * Checks if a policy file is a JavaScript or TypeScript module, which is imported instead of being parsed.
+ *
+ * @param filePath The path of the policy file
+ * @returns {boolean} True if the policy file is a module
+ */
+export const isCspPolicyModule = (filePath: string): boolean => MODULE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+
+const importCspPolicyModule = async (filePath: string): Promise<{ content: unknown, dependencies: string[] }> => {
+  // The module is imported through Vite, so TypeScript and the imported modules are supported,
+  // and it is evaluated again on each call so changes are taken into account.
+  // Vite is only loaded here, so the JSON and YAML policy files and the middlewares do not require it.
+  const { runnerImport } = await import('vite');
+  const { module, dependencies } = await runnerImport<CspPolicyModule>(filePath, { logLevel: 'silent' });
+  const content: unknown = module.default ?? module.rules;
+  if (content === undefined) {
+    throw new Error(`CSP policy module ${filePath} must export the rules as default export or as "rules"`);
+  }
+  return { content, dependencies };
+};
+
+/**
+ * Loads and checks a policy file, and lists the files it depends on.
+ * JSON and YAML files are parsed, JavaScript and TypeScript modules are imported with Vite.
+ *
+ * @param filePath The absolute path of the policy file
+ * @returns {Promise<CspPolicyFileContent<Environment>>} The CSP rules and the files they depend on
+ * @throws {Error} If the file cannot be read, parsed or imported, or does not match the schema
+ */
+export const loadCspPolicyFileContent = async <Environment extends string = never>(
+  filePath: string,
+): Promise<CspPolicyFileContent<Environment>> => {
+  if (isCspPolicyModule(filePath)) {
+    const { content, dependencies } = await importCspPolicyModule(filePath);
+    return {
+      rules: computeCspPoliciesFromFileContent<Environment>(content, filePath),
+      dependencies: [filePath, ...dependencies.map((dependency: string) => path.resolve(dependency))],
+    };
+  }
+
+  const content: string = await readFile(filePath, { encoding: 'utf-8' });
+  return {
+    rules: computeCspPoliciesFromFileContent<Environment>(parseCspPolicyFileContent(content, filePath), filePath),
+    dependencies: [filePath],
+  };
+};
+
+/**
+ * Loads and checks a JSON, YAML, JavaScript or TypeScript policy file.
+ *
+ * @param filePath The absolute path of the policy file
+ * @returns {Promise<CspPolicies<Environment>>} The CSP rules
+ * @throws {Error} If the file cannot be read, parsed or imported, or does not match the schema
+ */
+export const loadCspPolicyFile = async <Environment extends string = never>(
+  filePath: string,
+): Promise<CspPolicies<Environment>> => (await loadCspPolicyFileContent<Environment>(filePath)).rules;
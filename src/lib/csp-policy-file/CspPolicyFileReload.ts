@@ -0,0 +1,99 @@
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { computeCspRulesChangesSummary } from '@lib/csp-diff/CspPolicyDiff';
+import { CspPolicyFileContent, loadCspPolicyFileContent } from '@lib/csp-policy-file/CspPolicyFile';
+import path from 'path';
+import { Logger } from 'simple-logging-system';
+import { ResolvedConfig, ViteDevServer } from 'vite';
+
+const logger: Logger = new Logger('CspPolicyFileReload');
+
+/**
+ * The delay in milliseconds after the last change before the rules are reloaded,
+ * so an editor saving several files at once triggers only one reload.
+ */
+export const POLICY_FILE_RELOAD_DELAY: number = 100;
+
+/**
+ * Checks if a file is the Vite configuration file or one of the files it imports.
+ * Vite restarts the dev server when such a file changes, so the plugins are created again with the new rules.
+ *
+ * @param config The resolved Vite configuration
+ * @param filePath The absolute path of the file
+ * @returns {boolean} True if Vite restarts the dev server when the file changes
+ */
+export const isViteConfigurationDependency = (config: ResolvedConfig, filePath: string): boolean => (
+  // Vite lists the dependencies with forward slashes, also on Windows
+  filePath === config.configFile || config.configFileDependencies.includes(filePath.split(path.sep).join(path.posix.sep))
+);
+
+/**
+ * Reload configuration of a policy file
+ *
+ * @property filePath - The absolute path of the policy file
+ * @property rules - The rules currently applied, used to summarize the changes
+ * @property environments - The environments whose policy changes are summarized, the default policy is summarized if empty
+ * @property onReload - Called with the new rules, it may throw to reject them, e.g. when they are invalid
+ * @property delay - The delay after the last change before the rules are reloaded. Default is {@link POLICY_FILE_RELOAD_DELAY}.
+ */
+export type CspPolicyFileReloadConfiguration<Environment extends string = never> = {
+  filePath: string,
+  rules: CspPolicies<Environment>,
+  environments?: Iterable<Environment>,
+  onReload: (rules: CspPolicies<Environment>) => void | Promise<void>,
+  delay?: number,
+};
+
+/**
+ * Reloads the rules of a policy file when the file, or a module it imports, changes.
+ * Changes are debounced, and the policy changes are logged once the new rules are applied.
+ * If the file cannot be loaded, or if `onReload` throws, the error is logged and the previous rules remain applied.
+ *
+ * @param server The Vite development server
+ * @param configuration The reload configuration
+ * @param dependencies The files the policy file depends on, watched in addition to the policy file
+ */
+export const watchCspPolicyFile = <Environment extends string = never>(
+  server: ViteDevServer,
+  {
+    filePath,
+    rules,
+    environments,
+    onReload,
+    delay = POLICY_FILE_RELOAD_DELAY,
+  }: CspPolicyFileReloadConfiguration<Environment>,
+  dependencies: string[] = [],
+): void => {
+  let currentRules: CspPolicies<Environment> = rules;
+  let watchedFiles: Set<string> = new Set([filePath, ...dependencies]);
+  let reloadTimeout: NodeJS.Timeout | undefined;
+
+  const reload = async () => {
+    try {
+      const content: CspPolicyFileContent<Environment> = await loadCspPolicyFileContent<Environment>(filePath);
+      // Modules may import other files after the change
+      watchedFiles = new Set(content.dependencies);
+      server.watcher.add(content.dependencies);
+
+      await onReload(content.rules);
+
+      const changes: string[] = computeCspRulesChangesSummary<Environment>(currentRules, content.rules, environments);
+      currentRules = content.rules;
+      logger.info(changes.length > 0
+        ? `CSP policy file reloaded: ${filePath}\n${changes.join('\n')}`
+        : `CSP policy file reloaded without policy change: ${filePath}`);
+    } catch (error: unknown) {
+      logger.error(`❌ CSP policy file ${filePath} not reloaded, the previous rules are still applied:`, error);
+    }
+  };
+
+  // The policy file may be outside the Vite root
+  server.watcher.add([...watchedFiles]);
+  server.watcher.on('change', (changedPath: string) => {
+    if (!watchedFiles.has(path.resolve(changedPath))) {
+      return;
+    }
+
+    clearTimeout(reloadTimeout);
+    reloadTimeout = setTimeout(reload, delay);
+  });
+};
@@ -0,0 +1,173 @@
+import { appendSourcesToOrigins } from '@lib/csp/ComputeRulesWithSources';
+import { CspPolicies, SourceListDirectives } from '@lib/csp/CspDirectives';
+import { CspRoutePolicy } from '@lib/csp-routes/CspRoutes';
+
+/**
+ * The sources required by a third-party service, by directive.
+ *
+ * Example:
+ * ```
+ * const analyticsPreset: CspPreset = { 'script-src': ['https://analytics.example.com'], 'connect-src': ['https://analytics.example.com'] };
+ * ```
+ */
+export type CspPreset = Partial<Record<SourceListDirectives, string[]>>;
+
+/**
+ * The third-party services whose sources are provided by the plugin.
+ */
+export type CspPresetName =
+  'google-analytics'
+  | 'google-tag-manager'
+  | 'google-fonts'
+  | 'recaptcha'
+  | 'youtube'
+  | 'sentry'
+  | 'stripe'
+  | 'hotjar'
+  | 'intercom';
+
+/**
+ * A preset given by its name, or directly as the sources of each directive.
+ */
+export type CspPresetOption = CspPresetName | CspPreset;
+
+/**
+ * The sources of the third-party services. Inline scripts and styles required by some snippets,
+ * e.g. the Google Tag Manager or Hotjar loaders, must still be allowed with a nonce or a hash.
+ */
+export const CSP_PRESETS: Record<CspPresetName, CspPreset> = {
+  // Google Analytics 4, with the Google Signals regional domains: script-src, img-src, connect-src
+  'google-analytics': {
+    'script-src': ['https://*.googletagmanager.com'],
+    'img-src': ['https://*.google-analytics.com', 'https://*.googletagmanager.com'],
+    'connect-src': ['https://*.google-analytics.com', 'https://*.analytics.google.com', 'https://*.googletagmanager.com'],
+  },
+  // Google Tag Manager container and its preview mode: script-src, img-src, connect-src, style-src, font-src
+  'google-tag-manager': {
+    'script-src': ['https://www.googletagmanager.com', 'https://tagmanager.google.com'],
+    'img-src': ['https://www.googletagmanager.com', 'https://ssl.gstatic.com', 'https://www.gstatic.com'],
+    'connect-src': ['https://www.googletagmanager.com'],
+    'style-src': ['https://tagmanager.google.com', 'https://fonts.googleapis.com'],
+    'font-src': ['https://fonts.gstatic.com'],
+  },
+  // Google Fonts stylesheets and font files: style-src, font-src
+  'google-fonts': {
+    'style-src': ['https://fonts.googleapis.com'],
+    'font-src': ['https://fonts.gstatic.com'],
+  },
+  // Google reCAPTCHA v2 and v3: script-src, frame-src
+  recaptcha: {
+    'script-src': ['https://www.google.com/recaptcha/', 'https://www.gstatic.com/recaptcha/'],
+    'frame-src': ['https://www.google.com/recaptcha/', 'https://recaptcha.google.com/recaptcha/'],
+  },
+  // YouTube embedded players and thumbnails: frame-src, img-src
+  youtube: {
+    'frame-src': ['https://www.youtube.com', 'https://www.youtube-nocookie.com'],
+    'img-src': ['https://i.ytimg.com'],
+  },
+  // Sentry events sent to sentry.io, the Loader Script and the Session Replay worker: connect-src, script-src, worker-src
+  sentry: {
+    'connect-src': ['https://*.ingest.sentry.io', 'https://*.ingest.us.sentry.io', 'https://*.ingest.de.sentry.io'],
+    'script-src': ['https://browser.sentry-cdn.com', 'https://js.sentry-cdn.com'],
+    'worker-src': ['blob:'],
+  },
+  // Stripe.js, Elements and 3D Secure frames: script-src, frame-src, connect-src
+  stripe: {
+    'script-src': ['https://js.stripe.com', 'https://*.js.stripe.com'],
+    'frame-src': ['https://js.stripe.com', 'https://*.js.stripe.com', 'https://hooks.stripe.com'],
+    'connect-src': ['https://api.stripe.com'],
+  },
+  // Hotjar tracking code, surveys and feedback widgets: script-src, connect-src, img-src, font-src, style-src, frame-src
+  hotjar: {
+    'script-src': ['https://*.hotjar.com'],
+    'connect-src': ['https://*.hotjar.com', 'https://*.hotjar.io', 'wss://*.hotjar.com'],
+    'img-src': ['https://*.hotjar.com'],
+    'font-src': ['https://*.hotjar.com'],
+    'style-src': ['https://*.hotjar.com'],
+    'frame-src': ['https://*.hotjar.com'],
+  },
+  // Intercom Messenger: script-src, connect-src, img-src, font-src, media-src, frame-src
+  intercom: {
+    'script-src': ['https://app.intercom.io', 'https://widget.intercom.io', 'https://js.intercomcdn.com'],
+    'connect-src': [
+      'https://*.intercom.io',
+      'wss://*.intercom.io',
+      'https://uploads.intercomcdn.com',
+      'https://uploads.intercomusercontent.com',
+    ],
+    'img-src': [
+      'blob:',
+      'data:',
+      'https://js.intercomcdn.com',
+      'https://static.intercomassets.com',
+      'https://downloads.intercomcdn.com',
+      'https://uploads.intercomusercontent.com',
+      'https://gifs.intercomcdn.com',
+    ],
+    'font-src': ['https://js.intercomcdn.com', 'https://fonts.intercomcdn.com'],
+    'media-src': ['https://js.intercomcdn.com'],
+    'frame-src': ['https://intercom-sheets.com', 'https://www.intercom-reporting.com'],
+  },
+};
+
+/**
+ * Resolves a preset given by its name.
+ *
+ * @param preset The preset name, or the preset sources
+ * @returns {CspPreset} The sources of each directive
+ * @throws {Error} If the preset name is unknown
+ */
+export const resolveCspPreset = (preset: CspPresetOption): CspPreset => {
+  if (typeof preset !== 'string') {
+    return preset;
+  }
+  if (!Object.hasOwn(CSP_PRESETS, preset)) {
+    throw new Error(`Unknown CSP preset "${preset}", available presets are: ${Object.keys(CSP_PRESETS).join(', ')}`);
+  }
+  return CSP_PRESETS[preset];
+};
+
+/**
+ * Adds the sources of presets to the rules, directive by directive and for every environment.
+ *
+ * The sources are added to the sources of the directive, and `'none'` is removed.
+ * If the directive is not configured but `default-src` is, the directive is created from `default-src`.
+ * If `default-src` is not configured either, the resources are not restricted and the sources are not added.
+ *
+ * @param rules The CSP rules
+ * @param presets The presets, by name or as the sources of each directive
+ * @returns {CspPolicies<Environment>} The rules including the sources of the presets
+ * @throws {Error} If a preset name is unknown
+ */
+export const computeRulesWithPresets = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  presets: CspPresetOption[] = [],
+): CspPolicies<Environment> => presets
+  .map(resolveCspPreset)
+  .flatMap((preset: CspPreset) => Object.entries(preset) as [SourceListDirectives, string[]][])
+  .reduce((computedRules: CspPolicies<Environment>, [directive, sources]: [SourceListDirectives, string[]]) => {
+    const origins: CspPolicies<Environment>[SourceListDirectives] = computedRules[directive] ?? computedRules['default-src'];
+    if (!origins) {
+      return computedRules;
+    }
+    return {
+      ...computedRules,
+      [directive]: appendSourcesToOrigins<Environment>(origins, sources),
+    };
+  }, rules);
+
+/**
+ * Adds the sources of presets to the rules of each route, so the directives replaced by a route keep the sources of the presets.
+ *
+ * @param routes The route policies
+ * @param presets The presets, by name or as the sources of each directive
+ * @returns {CspRoutePolicy<Environment>[]} The route policies including the sources of the presets
+ * @throws {Error} If a preset name is unknown
+ */
+export const computeRoutesWithPresets = <Environment extends string = never>(
+  routes: CspRoutePolicy<Environment>[],
+  presets: CspPresetOption[] = [],
+): CspRoutePolicy<Environment>[] => routes.map((route: CspRoutePolicy<Environment>) => ({
+  ...route,
+  rules: computeRulesWithPresets<Environment>(route.rules, presets),
+}));
@@ -1,12 +1,30 @@
+import { mapOrigins } from '@lib/csp/ComputeOriginForEnvironment';
 import {
-  computeCspDirectiveForEnvironment,
-} from '@lib/csp/ComputeOriginForEnvironment';
-import { AuthorisedOrigins, CspPolicies } from '@lib/csp/CspDirectives';
-import { computeHeaderNameByReportType, ReportType } from '@lib/csp/CspHeaders';
+  CspPolicies,
+  CspPoliciesProvider,
+  DefaultOrigin,
+  DirectiveValue,
+} from '@lib/csp/CspDirectives';
+import { computeCspHeadersForEnvironment, HeaderNames, ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import {
+  computeReportingEndpointsHeaderValue,
+  computeRulesWithReportCollector,
+  ReportCollectorConfiguration,
+} from '@lib/csp-report/CspReportCollector';
+import { computeHtmlWithNonce, interceptHtmlResponse } from '@lib/csp-proxy/HtmlNonceInjection';
+import {
+  computeCspRulesForPath,
+  computeRequestPath,
+  CspRoutePolicies,
+  isDocumentRequest,
+} from '@lib/csp-routes/CspRoutes';
 import { NoncesConfiguration } from '@lib/plugins/CspProxyPlugin';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import * as crypto from 'node:crypto';
 import * as http from 'node:http';
-import { Connect, ViteDevServer } from 'vite';
+import { TLSSocket } from 'node:tls';
+import { Connect, PreviewServer, ViteDevServer } from 'vite';
 
 /**
  * Generates a cryptographically secure random nonce value for CSP.
@@ -17,6 +35,34 @@ export const generateNonce = (): string => {
   return crypto.randomBytes(16).toString('base64');
 };
 
+/**
+ * Holds the nonce generated for the request being processed when nonces are generated per request
+ */
+const requestNonceStorage: AsyncLocalStorage<string> = new AsyncLocalStorage<string>();
+
+/**
+ * Returns the nonce generated for the request being processed.
+ *
+ * The value is available in every middleware and Vite hook executed for the request,
+ * including `transformIndexHtml`, when nonces are generated per request.
+ *
+ * @returns {string | undefined} The nonce of the current request, undefined outside of a request or if nonces are not generated per request
+ */
+export const getCurrentRequestNonce = (): string | undefined => requestNonceStorage.getStore();
+
+/**
+ * Holds the nonce used in the policy of each response
+ */
+const responseNonces: WeakMap<http.ServerResponse, string> = new WeakMap<http.ServerResponse, string>();
+
+/**
+ * Returns the nonce used in the CSP header of a response, e.g. to write it in an HTML template.
+ *
+ * @param response The response processed by the CSP middleware
+ * @returns {string | undefined} The nonce of the response, undefined if nonces are not configured
+ */
+export const getResponseNonce = (response: http.ServerResponse): string | undefined => responseNonces.get(response);
+
 /**
  * Replaces the nonce placeholder in a string with a generated nonceValue value.
  *
@@ -34,104 +80,306 @@ export const replaceNoncePlaceholder = (
 };
 
 /**
- * Replace in base directive the template used for nonce by the generated nonce
- * The value will not
+ * Replace in every directive the template used for nonce by the generated nonce,
+ * for the raw policy strings and for the source lists of every environment.
  * @param rules
  * @param nonceValue
  * @param noncePlaceholder
- * @param developmentKey the key of the development environment if it exists
  */
 const computeRulesWithNonce = <Environment extends string = never>(
   rules: CspPolicies<Environment>,
   nonceValue: string,
   noncePlaceholder: string,
-  developmentKey?: Environment,
 ): CspPolicies<Environment> => {
-  const nonceToReplace: string = `'nonce-${noncePlaceholder}'`;
+  const replaceNonce = (origin: DefaultOrigin): DefaultOrigin => (typeof origin === 'string'
+    ? replaceNoncePlaceholder(origin, noncePlaceholder, nonceValue)
+    : origin.map((source: string) => replaceNoncePlaceholder(source, noncePlaceholder, nonceValue)));
 
   return Object.fromEntries(
-    Object.entries(rules).map(([directive, value]: [string, AuthorisedOrigins<Environment>]) => {
-      // Replace nonce template in CSP if it is common for every environment (type equals string)
-      if (typeof value === 'string' && value.includes(nonceToReplace)) {
-        return [directive, replaceNoncePlaceholder(value, noncePlaceholder, nonceValue)];
-      }
+    Object.entries(rules).map(([directive, value]: [string, DirectiveValue<Environment>]) => [
+      directive,
+      mapOrigins<Environment, DirectiveValue<Environment>>(value, replaceNonce),
+    ]),
+  );
+};
 
-      // Replace nonce template in CSP if it is configured for development (developmentKey exists in object)
-      if (typeof value === 'object' && developmentKey && value[developmentKey] && value[developmentKey].includes(nonceToReplace)) {
-        return [
-          directive,
-          {
-            ...value,
-            [developmentKey]: replaceNoncePlaceholder(value[developmentKey], noncePlaceholder, nonceValue),
-          },
-        ];
+/**
+ * Options of the CSP request handler and of the middlewares applying the CSP headers.
+ *
+ * @property rules - The CSP rules, or a function returning the CSP rules to apply to each request
+ * @property environment - The environment whose policy is applied, the default policy is applied if undefined
+ * @property reportType - The type of report, for every environment or by environment, selects the CSP header name. Default is strict.
+ * @property reportOnlyRules - The CSP rules, or a function returning the CSP rules, sent in the `Content-Security-Policy-Report-Only` header in addition to the rules
+ * @property securityHeaders - The security headers sent with the CSP headers, e.g. `Strict-Transport-Security`
+ * @property noncesConfiguration - Nonces configuration. Generating a nonce per request is required to use nonces in production.
+ * @property reportCollectorConfiguration - Report collector configuration, adds reporting directives pointing to the collector endpoint
+ * @property routes - The route policies, or a function returning them, merged on top of the rules for the documents of their paths.
+ * They are not applied to the other responses, e.g. scripts, images or API calls.
+ */
+export type CspMiddlewareOptions<Environment extends string = never> = {
+  rules: CspPolicies<Environment> | CspPoliciesProvider<Environment>,
+  environment?: Environment,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment> | CspPoliciesProvider<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
+  noncesConfiguration?: NoncesConfiguration,
+  reportCollectorConfiguration?: ReportCollectorConfiguration,
+  routes?: CspRoutePolicies<Environment>,
+};
+
+/**
+ * The headers to add to a response, and the nonce used in the policy if nonces are configured.
+ */
+export type CspRequestResult = {
+  nonce?: string,
+  headers: Record<string, string>,
+};
+
+/**
+ * Computes the CSP headers of a request, independently of the server framework.
+ *
+ * @param host The host of the request, used for the Reporting API endpoint
+ * @param documentPath The URL path of the request if it loads a document, used to apply the route policies
+ * @param protocol The protocol of the request, `http` or `https`, used for the Reporting API endpoint. Default is `http`.
+ */
+export type CspRequestHandler = (host?: string, documentPath?: string, protocol?: string) => CspRequestResult;
+
+/**
+ * Minimal Fastify request and reply types, so Fastify is not required to use the plugin.
+ */
+type FastifyRequestLike = { headers: http.IncomingHttpHeaders, url?: string, protocol?: string };
+
+type FastifyReplyLike = { header: (name: string, value: string) => unknown };
+
+export type CspFastifyHook = (request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => void;
+
+/**
+ * Creates a framework-agnostic handler computing the CSP headers of each request.
+ *
+ * @param options The CSP middleware options
+ * @param nonce Nonce value to use for the requests if nonces are not generated per request, generated if undefined
+ * @returns {CspRequestHandler} The handler to call for each request
+ */
+export const createCspRequestHandler = <Environment extends string = never>(
+  {
+    rules,
+    environment,
+    reportType,
+    reportOnlyRules,
+    securityHeaders,
+    noncesConfiguration,
+    reportCollectorConfiguration,
+    routes,
+  }: CspMiddlewareOptions<Environment>,
+  nonce: string = generateNonce(),
+): CspRequestHandler => {
+  return (host?: string, documentPath?: string, protocol?: string) => {
+    const requestNonce: string = noncesConfiguration?.perRequest ? generateNonce() : nonce;
+
+    const computeRequestRules = (policies: CspPolicies<Environment> | CspPoliciesProvider<Environment>): CspPolicies<Environment> => {
+      const requestRules: CspPolicies<Environment> = typeof policies === 'function' ? policies() : policies;
+
+      // If there is a nonce configuration, replace the placeholder by the generated value
+      const rulesWithNonce: CspPolicies<Environment> = !!noncesConfiguration
+        ? computeRulesWithNonce<Environment>(requestRules, requestNonce, noncesConfiguration.nonceTemplate)
+        : requestRules;
+
+      // If the report collector is enabled, send violation reports to the collector endpoint
+      return !!reportCollectorConfiguration
+        ? computeRulesWithReportCollector<Environment>(rulesWithNonce, reportCollectorConfiguration)
+        : rulesWithNonce;
+    };
+
+    // The route policies only apply to documents
+    const computeDocumentRules = (): CspPolicies<Environment> | CspPoliciesProvider<Environment> => {
+      if (!routes || documentPath === undefined) {
+        return rules;
       }
+      return computeCspRulesForPath<Environment>(
+        typeof rules === 'function' ? rules() : rules,
+        typeof routes === 'function' ? routes() : routes,
+        documentPath,
+      );
+    };
+
+    const headers: Record<string, string> = computeCspHeadersForEnvironment<Environment>(
+      computeRequestRules(computeDocumentRules()),
+      environment,
+      reportType,
+      reportOnlyRules && computeRequestRules(reportOnlyRules),
+      securityHeaders,
+    );
 
-      // Replace nonce template in CSP for the default CSP
-      if (typeof value === 'object' && value.default && value.default.includes(nonceToReplace)) {
-        return [
-          directive,
-          {
-            ...value,
-            default: replaceNoncePlaceholder(value.default, noncePlaceholder, nonceValue),
-          },
-        ];
+    if (!!reportCollectorConfiguration) {
+      headers[HeaderNames.REPORTING_ENDPOINTS] = computeReportingEndpointsHeaderValue(reportCollectorConfiguration, host, protocol);
+    }
+
+    return {
+      nonce: noncesConfiguration ? requestNonce : undefined,
+      headers,
+    };
+  };
+};
+
+/**
+ * Computes the protocol of a request, from the `X-Forwarded-Proto` header set by the reverse proxies, else from the connection.
+ *
+ * @param headers The request headers
+ * @param encrypted true if the request is received over TLS
+ * @returns {string} `https` or `http`
+ */
+const computeRequestProtocol = (headers: http.IncomingHttpHeaders, encrypted: boolean): string => {
+  const forwardedProtocol: string | undefined = [headers['x-forwarded-proto']].flat()[0]?.split(',')[0].trim().toLowerCase();
+  if (forwardedProtocol === 'https' || forwardedProtocol === 'http') {
+    return forwardedProtocol;
+  }
+  return encrypted ? 'https' : 'http';
+};
+
+/**
+ * Runs the rest of the request processing with the nonce of the request,
+ * so it is available through {@link getCurrentRequestNonce}.
+ */
+const continueWithRequestNonce = (
+  result: CspRequestResult,
+  noncesConfiguration: NoncesConfiguration | undefined,
+  next: () => void,
+) => {
+  if (noncesConfiguration?.perRequest && result.nonce !== undefined) {
+    requestNonceStorage.run(result.nonce, next);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Creates a Connect middleware adding the CSP headers to every response.
+ * It can be used with the Vite dev and preview servers, Express, Connect or a plain `node:http` server.
+ * When nonces are configured, the nonce is written in the HTML responses, unless `noncesConfiguration.injectInHtml` is false,
+ * and is available through {@link getResponseNonce}.
+ *
+ * Example with Express:
+ * ```
+ * app.use(createCspConnectMiddleware({ rules, environment: 'production', noncesConfiguration: { nonceTemplate: '{RANDOM}', perRequest: true } }));
+ * ```
+ *
+ * @param options The CSP middleware options
+ * @param nonce Nonce value to use for the requests if nonces are not generated per request, generated if undefined
+ * @returns {Connect.NextHandleFunction} The middleware
+ */
+export const createCspConnectMiddleware = <Environment extends string = never>(
+  options: CspMiddlewareOptions<Environment>,
+  nonce?: string,
+): Connect.NextHandleFunction => {
+  const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>(options, nonce);
+
+  return (
+    request: Connect.IncomingMessage,
+    response: http.ServerResponse<Connect.IncomingMessage>,
+    next: Connect.NextFunction,
+  ) => {
+    const result: CspRequestResult = handleRequest(
+      request.headers.host,
+      isDocumentRequest(request.headers) ? computeRequestPath(request.originalUrl ?? request.url ?? '/') : undefined,
+      computeRequestProtocol(request.headers, (request.socket as TLSSocket | undefined)?.encrypted === true),
+    );
+
+    const { noncesConfiguration } = options;
+    if (result.nonce !== undefined && noncesConfiguration) {
+      const responseNonce: string = result.nonce;
+      responseNonces.set(response, responseNonce);
+
+      // Write the nonce in the HTML documents that are not transformed by Vite, e.g. SSR output or HTML files from public/
+      if (noncesConfiguration.injectInHtml !== false) {
+        interceptHtmlResponse(
+          response,
+          (html: string) => computeHtmlWithNonce(html, responseNonce, noncesConfiguration.nonceTemplate, noncesConfiguration.injectInTags),
+        );
       }
+    }
 
-      return [directive, value];
-    }),
-  );
+    for (const [name, value] of Object.entries(result.headers)) {
+      response.setHeader(name, value);
+    }
+
+    // Expose the request nonce to the next middlewares, including the Vite HTML transformation
+    continueWithRequestNonce(result, noncesConfiguration, next);
+  };
+};
+
+/**
+ * Creates a Fastify `onRequest` hook adding the CSP headers to every response.
+ *
+ * Example:
+ * ```
+ * fastify.addHook('onRequest', createCspFastifyHook({ rules, environment: 'production' }));
+ * ```
+ *
+ * @param options The CSP middleware options
+ * @param nonce Nonce value to use for the requests if nonces are not generated per request, generated if undefined
+ * @returns {CspFastifyHook} The hook
+ */
+export const createCspFastifyHook = <Environment extends string = never>(
+  options: CspMiddlewareOptions<Environment>,
+  nonce?: string,
+): CspFastifyHook => {
+  const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>(options, nonce);
+
+  return (request: FastifyRequestLike, reply: FastifyReplyLike, done: () => void) => {
+    const result: CspRequestResult = handleRequest(
+      request.headers.host,
+      isDocumentRequest(request.headers) ? computeRequestPath(request.url ?? '/') : undefined,
+      computeRequestProtocol(request.headers, request.protocol === 'https'),
+    );
+
+    for (const [name, value] of Object.entries(result.headers)) {
+      reply.header(name, value);
+    }
+
+    continueWithRequestNonce(result, options.noncesConfiguration, done);
+  };
 };
 
 /**
  * Configures a proxy server to apply Content Security Policies (CSP) headers.
  *
- * This function sets up middleware that generates a random nonce for each request,
- * replaces any placeholders in CSP directives with this nonce,
+ * This function sets up middleware that replaces any placeholders in CSP directives with the nonce,
  * and sets the appropriate CSP headers on the response.
+ * If `noncesConfiguration.perRequest` is enabled, a fresh nonce is generated for each request
+ * and made available to the rest of the request processing through {@link getCurrentRequestNonce}.
  *
- * @param server The Vite development server instance used to monitor file changes and handle dynamic updates.
- * @param rules The CSP policies or rules to apply for file generation across the specified environments.
- * @param nonce Nonce value to use for the request
+ * @param server The Vite development or preview server instance.
+ * @param rules The CSP policies or rules to apply, or a function returning them for each request.
+ * @param nonce Nonce value to use for the requests if nonces are not generated per request
  * @param reportType Optional parameter to specify the type of CSP report to generate.
- * @param developmentKey Optional parameter to specify the key of the development environment.
+ * @param developmentKey Optional parameter to specify the key of the environment whose policy is applied.
  * @param noncesConfiguration The nonce configuration
+ * @param reportCollectorConfiguration Optional report collector configuration, adds reporting directives pointing to the server
+ * @param reportOnlyRules Optional CSP rules sent in the `Content-Security-Policy-Report-Only` header in addition to the rules, or a function returning them for each request.
+ * @param securityHeaders Optional security headers sent with the CSP headers.
+ * @param routes Optional route policies merged on top of the rules for the documents of their paths, or a function returning them for each request.
  */
 export function configureCspProxyServer<Environment extends string = never>(
-  server: ViteDevServer,
-  rules: CspPolicies,
+  server: ViteDevServer | PreviewServer,
+  rules: CspPolicies<Environment> | CspPoliciesProvider<Environment>,
   nonce: string,
-  reportType?: ReportType,
+  reportType?: ReportTypeByEnvironment<Environment>,
   developmentKey?: Environment,
   noncesConfiguration?: NoncesConfiguration,
+  reportCollectorConfiguration?: ReportCollectorConfiguration,
+  reportOnlyRules?: CspPolicies<Environment> | CspPoliciesProvider<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
+  routes?: CspRoutePolicies<Environment>,
 ) {
-  server.middlewares.use((
-    _: Connect.IncomingMessage,
-    response: http.ServerResponse<Connect.IncomingMessage>,
-    next: Connect.NextFunction,
-  ) => {
-    if (Boolean(noncesConfiguration)) {
-      // Store the nonce in the response locals for potential use in HTML templates
-      // @ts-expect-error - Adding custom property to response
-      response.locals = response.locals || {};
-      // @ts-expect-error - Adding custom property to response
-      response.locals.cspNonce = nonce;
-    }
-
-    // If there is a nonce configuration, replace the placeholder by the generated value
-    const computedRules: CspPolicies<Environment> = !!noncesConfiguration
-      ? computeRulesWithNonce<Environment>(rules, nonce, noncesConfiguration.nonceTemplate, developmentKey)
-      : rules;
-
-    // Process the rules to replace the nonce placeholder  placeholders with the generated nonce if template is provided
-    const directives: string = computeCspDirectiveForEnvironment<Environment>(
-      computedRules,
-      developmentKey,
-    );
-
-    const cspHeader: string = computeHeaderNameByReportType(reportType);
-    response.setHeader(cspHeader, directives);
-
-    next();
-  });
+  server.middlewares.use(createCspConnectMiddleware<Environment>({
+    rules,
+    environment: developmentKey,
+    reportType,
+    reportOnlyRules,
+    securityHeaders,
+    noncesConfiguration,
+    reportCollectorConfiguration,
+    routes,
+  }, nonce));
 }
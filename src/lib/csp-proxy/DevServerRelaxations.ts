@@ -0,0 +1,123 @@
+import { computeRulesWithSources } from '@lib/csp/ComputeRulesWithSources';
+import { CspPolicies, SourceListDirectives } from '@lib/csp/CspDirectives';
+import { Logger } from 'simple-logging-system';
+import { HmrOptions, ResolvedServerOptions } from 'vite';
+
+const logger: Logger = new Logger('DevServerRelaxations');
+
+/**
+ * Dev server relaxations configuration
+ *
+ * @property hmr - Allows the HMR WebSocket connection in `connect-src`. Default is true.
+ * @property inlineStyles - Allows the inline styles injected by the Vite client with `'unsafe-inline'` in `style-src`, when nonces are not configured. Default is true.
+ * @property unsafeEval - Allows `eval` with `'unsafe-eval'` in `script-src`, for framework plugins that require it in development. Default is false.
+ */
+export type DevServerRelaxationsConfiguration = {
+  hmr?: boolean,
+  inlineStyles?: boolean,
+  unsafeEval?: boolean,
+};
+
+/**
+ * Sources added to the policy served by the dev server.
+ *
+ * @property directives - The directives that can receive the sources, from the most specific to the most generic
+ * @property sources - The sources to add
+ */
+export type DevServerRelaxation = {
+  directives: SourceListDirectives[],
+  sources: string[],
+};
+
+const WILDCARD_HOSTS: string[] = ['0.0.0.0', '::'];
+
+/**
+ * Computes the source allowing the connection of the Vite client to the HMR WebSocket.
+ * The source is derived from `server.hmr`, falling back on the dev server host and port like the Vite client does.
+ * The port is a wildcard if the dev server may listen on another port than the configured one.
+ *
+ * @param serverOptions The resolved dev server options
+ * @returns {string | undefined} The WebSocket source, undefined if HMR is disabled
+ */
+export const computeHmrSource = (serverOptions: ResolvedServerOptions): string | undefined => {
+  if (serverOptions.hmr === false) {
+    return undefined;
+  }
+
+  const hmrOptions: HmrOptions = typeof serverOptions.hmr === 'object' ? serverOptions.hmr : {};
+  const protocol: string = hmrOptions.protocol ?? (serverOptions.https ? 'wss' : 'ws');
+  const serverHost: string | undefined = typeof serverOptions.host === 'string' && !WILDCARD_HOSTS.includes(serverOptions.host)
+    ? serverOptions.host
+    : undefined;
+  // The dev server is reachable from any host name if it listens on every network interface
+  const host: string = hmrOptions.host ?? serverHost ?? (serverOptions.host ? '*' : 'localhost');
+  const port: number | string = hmrOptions.clientPort ?? hmrOptions.port ?? (serverOptions.strictPort ? serverOptions.port : '*');
+
+  return `${protocol}://${host}:${port}`;
+};
+
+/**
+ * Computes the sources required by Vite in the policy served by the dev server.
+ *
+ * @param serverOptions The resolved dev server options
+ * @param configuration The relaxations configuration
+ * @param hasNonces True if nonces are configured, Vite then adds the nonce to the styles it injects
+ * @returns {DevServerRelaxation[]} The sources to add to the policy
+ */
+export const computeDevServerRelaxations = (
+  serverOptions: ResolvedServerOptions,
+  configuration: DevServerRelaxationsConfiguration,
+  hasNonces: boolean,
+): DevServerRelaxation[] => {
+  const relaxations: DevServerRelaxation[] = [];
+
+  const hmrSource: string | undefined = configuration.hmr !== false ? computeHmrSource(serverOptions) : undefined;
+  if (hmrSource) {
+    relaxations.push({ directives: ['connect-src'], sources: [hmrSource] });
+  }
+
+  if (configuration.inlineStyles !== false && !hasNonces) {
+    relaxations.push({ directives: ['style-src-elem', 'style-src'], sources: ['\'unsafe-inline\''] });
+  }
+
+  if (configuration.unsafeEval) {
+    relaxations.push({ directives: ['script-src'], sources: ['\'unsafe-eval\''] });
+  }
+
+  return relaxations;
+};
+
+/**
+ * Logs the sources required by Vite added to the policy served by the dev server.
+ *
+ * @param relaxations The sources added
+ */
+export const logDevServerRelaxations = (relaxations: DevServerRelaxation[]): void => {
+  if (relaxations.length === 0) {
+    return;
+  }
+  const relaxedSources: string = relaxations
+    .map(({ directives, sources }: DevServerRelaxation) => `${directives[directives.length - 1]} ${sources.join(' ')}`)
+    .join(', ');
+  logger.info(`CSP relaxed for the dev server: ${relaxedSources}`);
+};
+
+/**
+ * Adds the sources required by Vite to the rules served by the dev server.
+ * The rules are not modified, so the policies generated for the other environments are not affected.
+ *
+ * @param rules The CSP rules
+ * @param relaxations The sources to add
+ * @returns {CspPolicies<Environment>} The rules including the sources required by Vite
+ */
+export const computeRulesWithDevServerRelaxations = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  relaxations: DevServerRelaxation[],
+): CspPolicies<Environment> => relaxations.reduce(
+  (computedRules: CspPolicies<Environment>, { directives, sources }: DevServerRelaxation) => computeRulesWithSources<Environment>(
+    computedRules,
+    directives,
+    sources,
+  ),
+  rules,
+);
@@ -0,0 +1,148 @@
+import { appendHtmlAttributes, parseHtmlAttributes } from '@lib/html/HtmlTags';
+import * as http from 'node:http';
+
+const NONCE_TAG_REGEX: RegExp = /<(script|style|link)\b([^>]*)>/gi;
+
+const NONCE_LINK_RELS: string[] = ['stylesheet', 'modulepreload'];
+
+type ResponseChunk = string | Uint8Array;
+
+const requiresNonce = (tagName: string, attributes: Map<string, string>): boolean => {
+  if (attributes.has('nonce')) {
+    return false;
+  }
+
+  if (tagName.toLowerCase() !== 'link') {
+    return true;
+  }
+
+  const rels: string[] = (attributes.get('rel') ?? '').toLowerCase().split(/\s+/);
+  return rels.some((rel: string) => NONCE_LINK_RELS.includes(rel));
+};
+
+const computeHtmlWithNonceInTags = (html: string, nonce: string): string => html.replace(
+  NONCE_TAG_REGEX,
+  (startTag: string, tagName: string, rawAttributes: string) => (
+    requiresNonce(tagName, parseHtmlAttributes(rawAttributes)) ? appendHtmlAttributes(startTag, { nonce }) : startTag
+  ),
+);
+
+/**
+ * Writes the nonce of a request in an HTML document:
+ * - The nonce template placeholder is replaced by the nonce, e.g. in `nonce="{RANDOM}"` attributes written at build time
+ * - If `injectInTags` is true, a `nonce` attribute is added to the `<script>`, `<style>` and `<link rel="stylesheet|modulepreload">` tags that do not have one.
+ * Every tag of the document is then trusted, including the markup injected by an attacker in rendered content, so it is disabled by default.
+ *
+ * @param html The HTML document
+ * @param nonce The nonce of the request
+ * @param nonceTemplate The placeholder of the nonce, e.g. `{RANDOM}`
+ * @param injectInTags If true, the nonce is added to the tags without nonce
+ * @returns {string} The HTML document including the nonce
+ */
+export const computeHtmlWithNonce = (html: string, nonce: string, nonceTemplate?: string, injectInTags: boolean = false): string => {
+  const htmlWithNonce: string = nonceTemplate ? html.replaceAll(nonceTemplate, nonce) : html;
+  return injectInTags ? computeHtmlWithNonceInTags(htmlWithNonce, nonce) : htmlWithNonce;
+};
+
+const isRewritableHtmlResponse = (response: http.ServerResponse): boolean => {
+  const contentType: string = String(response.getHeader('Content-Type') ?? '');
+  const contentEncoding: string = String(response.getHeader('Content-Encoding') ?? 'identity');
+  // Compressed responses cannot be rewritten without decompressing them
+  return contentType.toLowerCase().includes('text/html') && contentEncoding === 'identity';
+};
+
+const toBuffer = (chunk: ResponseChunk, encoding: unknown): Buffer => (
+  typeof chunk === 'string' ? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf-8') : Buffer.from(chunk)
+);
+
+/**
+ * Applies the headers passed to `writeHead` with `setHeader`, so they can still be changed until the response ends.
+ */
+const applyWriteHeadArguments = (response: http.ServerResponse, statusCode: number, writeHeadArguments: unknown[]) => {
+  response.statusCode = statusCode;
+  for (const argument of writeHeadArguments) {
+    if (typeof argument === 'string') {
+      response.statusMessage = argument;
+    } else if (Array.isArray(argument)) {
+      // Raw headers: names and values are in the same list
+      for (let index: number = 0; index < argument.length - 1; index += 2) {
+        response.setHeader(String(argument[index]), argument[index + 1]);
+      }
+    } else if (typeof argument === 'object' && argument !== null) {
+      for (const [name, value] of Object.entries(argument)) {
+        if (value !== undefined) {
+          response.setHeader(name, value as string | number | string[]);
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Buffers the HTML responses to rewrite them before they are sent.
+ * Other responses, including compressed HTML responses, are streamed unchanged.
+ *
+ * The `Content-Length` header is updated and the `ETag` header is removed from rewritten responses,
+ * since they no longer match the rewritten content.
+ *
+ * @param response The response to intercept
+ * @param rewriteHtml The function rewriting the HTML documents
+ */
+export const interceptHtmlResponse = (response: http.ServerResponse, rewriteHtml: (html: string) => string) => {
+  const originalWriteHead: http.ServerResponse['writeHead'] = response.writeHead.bind(response);
+  const originalWrite: http.ServerResponse['write'] = response.write.bind(response);
+  const originalEnd: http.ServerResponse['end'] = response.end.bind(response);
+  const chunks: Buffer[] = [];
+  let isHtml: boolean | undefined;
+  let isEnding: boolean = false;
+  const checkIsHtml = (): boolean => {
+    isHtml ??= isRewritableHtmlResponse(response);
+    return isHtml;
+  };
+
+  response.writeHead = ((statusCode: number, ...writeHeadArguments: unknown[]) => {
+    applyWriteHeadArguments(response, statusCode, writeHeadArguments);
+    // The headers of HTML responses are written when the rewritten response ends
+    if (!checkIsHtml() || isEnding) {
+      return originalWriteHead(response.statusCode);
+    }
+    return response;
+  }) as http.ServerResponse['writeHead'];
+
+  response.write = ((chunk: ResponseChunk, ...writeArguments: unknown[]) => {
+    if (!checkIsHtml()) {
+      return (originalWrite as (...args: unknown[]) => boolean)(chunk, ...writeArguments);
+    }
+    chunks.push(toBuffer(chunk, writeArguments[0]));
+    const callback: unknown = writeArguments.find((argument: unknown) => typeof argument === 'function');
+    if (typeof callback === 'function') {
+      callback();
+    }
+    return true;
+  }) as http.ServerResponse['write'];
+
+  response.end = ((...endArguments: unknown[]) => {
+    const callback: unknown = endArguments.find((argument: unknown) => typeof argument === 'function');
+    const chunk: unknown = typeof endArguments[0] === 'function' ? undefined : endArguments[0];
+    if (!checkIsHtml()) {
+      return (originalEnd as (...args: unknown[]) => http.ServerResponse)(...endArguments);
+    }
+
+    if (chunk !== undefined && chunk !== null) {
+      chunks.push(toBuffer(chunk as ResponseChunk, endArguments[1]));
+    }
+    isEnding = true;
+    const html: string | undefined = chunks.length > 0 ? rewriteHtml(Buffer.concat(chunks).toString('utf-8')) : undefined;
+    if (html !== undefined) {
+      response.removeHeader('ETag');
+      response.setHeader('Content-Length', Buffer.byteLength(html, 'utf-8'));
+    }
+    // Middlewares registered after this one may also defer writeHead, e.g. compression, so the headers are written directly
+    if (!response.headersSent) {
+      originalWriteHead(response.statusCode);
+    }
+    return html === undefined
+      ? originalEnd(callback as (() => void) | undefined)
+      : originalEnd(html, 'utf-8', callback as (() => void) | undefined);
+  }) as http.ServerResponse['end'];
+};
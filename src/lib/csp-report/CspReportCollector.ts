@@ -0,0 +1,279 @@
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import * as http from 'node:http';
+import { Logger } from 'simple-logging-system';
+import { Connect, PreviewServer, ViteDevServer } from 'vite';
+
+const logger: Logger = new Logger('CspReportCollector');
+
+const DEFAULT_ENDPOINT_PATH: string = '/__csp-report';
+const DEFAULT_GROUP_NAME: string = 'csp-endpoint';
+const MAX_REPORT_BODY_SIZE: number = 1024 * 1024;
+
+const LEGACY_REPORT_CONTENT_TYPE: string = 'application/csp-report';
+const REPORTING_API_CONTENT_TYPE: string = 'application/reports+json';
+const ACCEPTED_CONTENT_TYPES: string[] = [LEGACY_REPORT_CONTENT_TYPE, REPORTING_API_CONTENT_TYPE, 'application/json'];
+
+/**
+ * Report collector configuration
+ *
+ * @property endpointPath - The path on the dev server receiving the violation reports. Default is `/__csp-report`.
+ * @property groupName - The Reporting API endpoint group name used in `report-to` and `Reporting-Endpoints`. Default is `csp-endpoint`.
+ */
+export type ReportCollectorConfiguration = {
+  endpointPath?: string,
+  groupName?: string,
+};
+
+/**
+ * A CSP violation normalized from either a legacy `report-uri` report or a Reporting API report.
+ */
+export type CspViolation = {
+  documentUri: string,
+  directive: string,
+  blockedUri: string,
+  disposition?: string,
+  sourceFile?: string,
+  lineNumber?: number,
+  sample?: string,
+};
+
+/**
+ * Violations grouped by directive and blocked URI, with the number of times each one has been reported.
+ */
+export type CspViolationGroup = {
+  violation: CspViolation,
+  count: number,
+};
+
+export type CspViolationRegistry = Map<string, CspViolationGroup>;
+
+type LegacyCspReport = {
+  'document-uri'?: string,
+  'violated-directive'?: string,
+  'effective-directive'?: string,
+  'blocked-uri'?: string,
+  disposition?: string,
+  'source-file'?: string,
+  'line-number'?: number,
+  'script-sample'?: string,
+};
+
+type ReportingApiCspReport = {
+  type?: string,
+  url?: string,
+  body?: {
+    documentURL?: string,
+    effectiveDirective?: string,
+    blockedURL?: string,
+    disposition?: string,
+    sourceFile?: string,
+    lineNumber?: number,
+    sample?: string,
+  },
+};
+
+/**
+ * Computes the endpoint path and group name, applying default values for missing properties.
+ *
+ * @param configuration The report collector configuration
+ * @returns {Required<ReportCollectorConfiguration>} The configuration with every property set
+ */
+export const computeReportCollectorConfiguration = (
+  configuration: ReportCollectorConfiguration,
+): Required<ReportCollectorConfiguration> => ({
+  endpointPath: configuration.endpointPath ?? DEFAULT_ENDPOINT_PATH,
+  groupName: configuration.groupName ?? DEFAULT_GROUP_NAME,
+});
+
+/**
+ * Adds the `report-uri` and `report-to` directives pointing to the local report collector.
+ * Existing `report-uri` and `report-to` values are replaced so reports are received by the dev server.
+ *
+ * @param rules The CSP rules
+ * @param configuration The report collector configuration
+ * @returns {CspPolicies<Environment>} The rules including the reporting directives
+ */
+export const computeRulesWithReportCollector = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  configuration: ReportCollectorConfiguration,
+): CspPolicies<Environment> => {
+  const { endpointPath, groupName } = computeReportCollectorConfiguration(configuration);
+
+  return {
+    ...rules,
+    'report-uri': endpointPath,
+    'report-to': groupName,
+  };
+};
+
+/**
+ * Computes the `Reporting-Endpoints` header value used by the `report-to` directive.
+ *
+ * Browsers drop the reports of secure pages sent to insecure endpoints, so the endpoint URL uses the protocol of the request.
+ *
+ * @param configuration The report collector configuration
+ * @param host Optional host of the current request, used to build an absolute endpoint URL
+ * @param protocol The protocol of the current request, `http` or `https`. Default is `http`.
+ * @returns {string} The `Reporting-Endpoints` header value
+ */
+export const computeReportingEndpointsHeaderValue = (
+  configuration: ReportCollectorConfiguration,
+  host?: string,
+  protocol: string = 'http',
+): string => {
+  const { endpointPath, groupName } = computeReportCollectorConfiguration(configuration);
+  const endpointUrl: string = host ? `${protocol}://${host}${endpointPath}` : endpointPath;
+  return `${groupName}="${endpointUrl}"`;
+};
+
+const parseLegacyReport = (report: LegacyCspReport): CspViolation => ({
+  documentUri: report['document-uri'] ?? '',
+  directive: report['effective-directive'] ?? report['violated-directive']?.split(' ')[0] ?? '',
+  blockedUri: report['blocked-uri'] ?? '',
+  disposition: report.disposition,
+  sourceFile: report['source-file'],
+  lineNumber: report['line-number'],
+  sample: report['script-sample'],
+});
+
+const parseReportingApiReport = (report: ReportingApiCspReport): CspViolation => ({
+  documentUri: report.body?.documentURL ?? report.url ?? '',
+  directive: report.body?.effectiveDirective ?? '',
+  blockedUri: report.body?.blockedURL ?? '',
+  disposition: report.body?.disposition,
+  sourceFile: report.body?.sourceFile,
+  lineNumber: report.body?.lineNumber,
+  sample: report.body?.sample,
+});
+
+/**
+ * Parses a violation report payload sent by a browser.
+ *
+ * Supports both the legacy `report-uri` format (`{"csp-report": {...}}`)
+ * and the Reporting API format (an array of reports of type `csp-violation`).
+ *
+ * @param payload The parsed JSON body of the report request
+ * @returns {CspViolation[]} The normalized violations, empty if the payload is not recognized
+ */
+export const parseCspViolationReports = (payload: unknown): CspViolation[] => {
+  if (Array.isArray(payload)) {
+    return payload
+      .filter((report: ReportingApiCspReport) => report?.type === 'csp-violation')
+      .map(parseReportingApiReport);
+  }
+
+  if (payload && typeof payload === 'object' && 'csp-report' in payload) {
+    return [parseLegacyReport((payload as { 'csp-report': LegacyCspReport })['csp-report'])];
+  }
+
+  return [];
+};
+
+/**
+ * Registers a violation in the registry, grouping it by directive and blocked URI.
+ *
+ * @param registry The registry containing the violations already received
+ * @param violation The violation to register
+ * @returns {boolean} true if the violation has not been reported before
+ */
+export const registerCspViolation = (
+  registry: CspViolationRegistry,
+  violation: CspViolation,
+): boolean => {
+  const key: string = `${violation.directive} ${violation.blockedUri}`;
+  const existingGroup: CspViolationGroup | undefined = registry.get(key);
+
+  if (existingGroup) {
+    existingGroup.count += 1;
+    return false;
+  }
+
+  registry.set(key, { violation, count: 1 });
+  return true;
+};
+
+const isAcceptedContentType = (contentType?: string): boolean => {
+  const mimeType: string = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  return ACCEPTED_CONTENT_TYPES.includes(mimeType);
+};
+
+const readRequestBody = async (request: Connect.IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size: number = 0;
+
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_REPORT_BODY_SIZE) {
+      throw new Error('CSP report body is too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+};
+
+const logViolation = (violation: CspViolation) => {
+  logger.warn(
+    `🚨 CSP violation: directive "${violation.directive}" blocked "${violation.blockedUri || 'inline'}" on ${violation.documentUri}`
+    + (violation.sourceFile ? ` (${violation.sourceFile}${violation.lineNumber ? `:${violation.lineNumber}` : ''})` : ''),
+  );
+};
+
+/**
+ * Configures a middleware on the Vite development or preview server collecting CSP violation reports.
+ *
+ * Reports are accepted as POST requests on the configured endpoint path, in the legacy `report-uri` format
+ * (`application/csp-report`) or in the Reporting API format (`application/reports+json`).
+ * Each distinct violation, grouped by directive and blocked URI, is logged only once.
+ *
+ * @param server The Vite development or preview server instance
+ * @param configuration The report collector configuration
+ * @param onViolations Optional handler of every violation received, including the violations already reported, e.g. for the learning mode
+ * @returns {CspViolationRegistry} The registry filled with the received violations
+ */
+export function configureCspReportCollectorServer(
+  server: ViteDevServer | PreviewServer,
+  configuration: ReportCollectorConfiguration,
+  onViolations?: (violations: CspViolation[]) => void,
+): CspViolationRegistry {
+  const { endpointPath } = computeReportCollectorConfiguration(configuration);
+  const registry: CspViolationRegistry = new Map();
+
+  server.middlewares.use(endpointPath, (
+    request: Connect.IncomingMessage,
+    response: http.ServerResponse<Connect.IncomingMessage>,
+  ) => {
+    if (request.method !== 'POST') {
+      response.statusCode = 405;
+      response.setHeader('Allow', 'POST');
+      response.end();
+      return;
+    }
+
+    if (!isAcceptedContentType(request.headers['content-type'])) {
+      response.statusCode = 415;
+      response.end();
+      return;
+    }
+
+    readRequestBody(request)
+      .then((body: string) => {
+        const violations: CspViolation[] = parseCspViolationReports(JSON.parse(body));
+        violations
+          .filter((violation: CspViolation) => registerCspViolation(registry, violation))
+          .forEach(logViolation);
+        onViolations?.(violations);
+        response.statusCode = 204;
+        response.end();
+      })
+      .catch((error: unknown) => {
+        logger.debug('Invalid CSP report received', error);
+        response.statusCode = 400;
+        response.end();
+      });
+  });
+
+  logger.info(`CSP violation reports are collected on ${endpointPath}`);
+
+  return registry;
+}
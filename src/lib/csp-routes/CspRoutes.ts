@@ -0,0 +1,172 @@
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import * as http from 'node:http';
+import path from 'path';
+import { Rollup } from 'vite';
+
+/**
+ * CSP rules applied to the documents of some paths, merged on top of the base rules:
+ * each directive of the route rules replaces the directive of the base rules.
+ *
+ * Example:
+ * ```
+ * const routes: CspRoutePolicy<Environment>[] = [
+ *   { path: '/widget/**', rules: { 'frame-ancestors': ['https://partner.example.com'] } },
+ *   { input: 'admin', rules: { 'script-src': ['self'] } },
+ * ];
+ * ```
+ *
+ * @property path - The URL path globs of the documents, `*` matches a path segment part and `**` matches any sub-path,
+ *                  e.g. `/admin/**` or `['/payment', '/payment/*.html']`
+ * @property input - The name of a Vite build input, e.g. `admin` for `build.rollupOptions.input: { admin: 'admin/index.html' }`,
+ *                   or the path of the HTML entry relative to the Vite root. Only supported by the Vite plugins, which resolve it to paths.
+ * @property rules - The CSP rules merged on top of the base rules
+ */
+export type CspRoutePolicy<Environment extends string = never> = {
+  path?: string | string[],
+  input?: string,
+  rules: CspPolicies<Environment>,
+};
+
+/**
+ * The route policies, or a function returning the current route policies.
+ */
+export type CspRoutePolicies<Environment extends string = never> =
+  CspRoutePolicy<Environment>[]
+  | (() => CspRoutePolicy<Environment>[]);
+
+/**
+ * The `Sec-Fetch-Dest` values of the requests loading a document
+ */
+const DOCUMENT_DESTINATIONS: string[] = ['document', 'iframe', 'frame', 'embed', 'object'];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a URL path glob to a regular expression source matching the whole path.
+ * `**` matches any characters, `*` any characters except `/`, and `?` one character except `/`.
+ *
+ * @param glob The path glob, e.g. `/admin/**`
+ * @returns {string} The regular expression source, e.g. `^/admin/.*$`
+ */
+export const computePathGlobPattern = (glob: string): string => `^${glob
+  .split('**')
+  .map((part: string) => part
+    .split('*')
+    .map((subPart: string) => subPart.split('?').map(escapeRegExp).join('[^/]'))
+    .join('[^/]*'))
+  .join('.*')}$`;
+
+/**
+ * Computes the regular expression source matching the paths of a route.
+ *
+ * @param route The route policy, whose paths must be resolved
+ * @returns {string} The regular expression source, e.g. `^/admin/.*$` or `^(?:/|/index\.html)$` for several paths
+ * @throws {Error} If the route has no path
+ */
+export const computeRoutePathPattern = <Environment extends string = never>(route: CspRoutePolicy<Environment>): string => {
+  const paths: string[] = typeof route.path === 'string' ? [route.path] : route.path ?? [];
+  if (paths.length === 0) {
+    throw new Error(`The CSP route policy ${route.input ? `of input "${route.input}" ` : ''}must have a path, the inputs are only resolved by the Vite plugins`);
+  }
+  if (paths.length === 1) {
+    return computePathGlobPattern(paths[0]);
+  }
+  return `^(?:${paths.map((glob: string) => computePathGlobPattern(glob).slice(1, -1)).join('|')})$`;
+};
+
+/**
+ * Computes the rules of a route, the route rules are merged on top of the base rules.
+ *
+ * @param rules The base CSP rules
+ * @param route The route policy
+ * @returns {CspPolicies<Environment>} The CSP rules of the route
+ */
+export const computeRouteRules = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  route: CspRoutePolicy<Environment>,
+): CspPolicies<Environment> => ({ ...rules, ...route.rules });
+
+/**
+ * Computes the rules of a document, from the first route matching its path.
+ *
+ * @param rules The base CSP rules
+ * @param routes The route policies, by order of priority
+ * @param documentPath The URL path of the document, without query string
+ * @returns {CspPolicies<Environment>} The CSP rules of the first matching route, or the base rules if no route matches
+ */
+export const computeCspRulesForPath = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  routes: CspRoutePolicy<Environment>[],
+  documentPath: string,
+): CspPolicies<Environment> => {
+  const matchingRoute: CspRoutePolicy<Environment> | undefined = routes.find(
+    (route: CspRoutePolicy<Environment>) => new RegExp(computeRoutePathPattern<Environment>(route)).test(documentPath),
+  );
+  return matchingRoute ? computeRouteRules<Environment>(rules, matchingRoute) : rules;
+};
+
+/**
+ * Checks whether a request loads a document, so the route policies are not applied to scripts, images or API calls.
+ * The `Sec-Fetch-Dest` header is used when the browser sends it, else the `Accept` header must include `text/html`.
+ *
+ * @param headers The request headers
+ * @returns {boolean} True if the request loads a document
+ */
+export const isDocumentRequest = (headers: http.IncomingHttpHeaders): boolean => {
+  const destination: string | string[] | undefined = headers['sec-fetch-dest'];
+  if (typeof destination === 'string') {
+    return DOCUMENT_DESTINATIONS.includes(destination);
+  }
+  return (headers.accept ?? '').includes('text/html');
+};
+
+/**
+ * Computes the URL path of a request, without query string and fragment.
+ *
+ * @param url The request URL, e.g. `/admin/?tab=users`
+ * @returns {string} The URL path, e.g. `/admin/`
+ */
+export const computeRequestPath = (url: string): string => url.split(/[?#]/)[0];
+
+const findInputFile = (input: Rollup.InputOption | undefined, inputName: string): string | undefined => {
+  if (input === undefined || typeof input === 'string' || Array.isArray(input)) {
+    return undefined;
+  }
+  return input[inputName];
+};
+
+/**
+ * Resolves the routes defined by a Vite build input to the URL paths of their HTML entry,
+ * e.g. `/admin/` and `/admin/index.html` for the `admin/index.html` entry.
+ *
+ * @param routes The route policies
+ * @param root The Vite root directory
+ * @param base The Vite base public path, e.g. `/`
+ * @param input The Vite build inputs, from `build.rollupOptions.input`
+ * @returns {CspRoutePolicy<Environment>[]} The route policies with the paths of their inputs
+ * @throws {Error} If an input is not an HTML entry
+ */
+export const resolveCspRoutePolicies = <Environment extends string = never>(
+  routes: CspRoutePolicy<Environment>[],
+  root: string,
+  base: string = '/',
+  input?: Rollup.InputOption,
+): CspRoutePolicy<Environment>[] => routes.map((route: CspRoutePolicy<Environment>) => {
+  if (route.path !== undefined || route.input === undefined) {
+    return route;
+  }
+
+  const inputFile: string = path.resolve(root, findInputFile(input, route.input) ?? route.input);
+  if (!inputFile.endsWith('.html')) {
+    throw new Error(`The CSP route input "${route.input}" must be an HTML entry, found ${inputFile}`);
+  }
+
+  const basePath: string = base.startsWith('/') ? base.replace(/\/?$/, '/') : '/';
+  const documentPath: string = `${basePath}${path.relative(root, inputFile).split(path.sep).join('/')}`;
+  return {
+    ...route,
+    path: documentPath.endsWith('/index.html')
+      ? [documentPath.slice(0, -'index.html'.length), documentPath]
+      : [documentPath],
+  };
+});
@@ -0,0 +1,250 @@
+import { computeDirectiveValuesForEnvironment, CSP_KEYWORDS } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies, DirectiveValue } from '@lib/csp/CspDirectives';
+import { DirectiveDefinition, findDirectiveDefinition } from '@lib/csp/CspDirectivesRegistry';
+import { Logger } from 'simple-logging-system';
+
+const logger: Logger = new Logger('CspPolicyValidation');
+
+export type ValidationLevel = 'error' | 'warning';
+
+/**
+ * A problem found in the CSP rules.
+ *
+ * @property level - `error` if the policy does not behave as expected, `warning` if the policy is valid but weak or outdated
+ * @property directive - The directive in which the problem is found
+ * @property message - The description of the problem and how to fix it
+ * @property environments - The environments in which the problem is found, `default` being the policy without environment
+ */
+export type CspValidationIssue = {
+  level: ValidationLevel,
+  directive: string,
+  message: string,
+  environments: string[],
+};
+
+/**
+ * Validation configuration
+ *
+ * @property failOn - The minimum level of the issues that fail the dev server startup or the build, `never` to only log the issues. Default is never.
+ */
+export type ValidationConfiguration = {
+  failOn?: ValidationLevel | 'never',
+};
+
+type PolicyIssue = Omit<CspValidationIssue, 'environments'>;
+
+export const DEFAULT_ENVIRONMENT_LABEL: string = 'default';
+
+/**
+ * The directives controlling scripts, in which unsafe sources allow script injections
+ */
+const SCRIPT_DIRECTIVES: string[] = ['default-src', 'script-src', 'script-src-elem', 'script-src-attr'];
+
+/**
+ * The directives removed from the specification, they are not supported in {@link CspPolicies}
+ * but can still be found in policies written as JSON or copied from older configurations
+ */
+const REMOVED_DIRECTIVES: Record<string, string> = {
+  'plugin-types': 'plugin-types is deprecated, plugins are no longer supported by browsers',
+  'prefetch-src': 'prefetch-src is deprecated and ignored by browsers',
+  referrer: 'referrer is deprecated, use the Referrer-Policy header instead',
+  'reflected-xss': 'reflected-xss is deprecated and ignored by browsers',
+  'require-sri-for': 'require-sri-for is deprecated, use the Integrity-Policy header instead',
+};
+
+const UNSAFE_SCRIPT_SOURCES: Record<string, string> = {
+  '\'unsafe-inline\'': '\'unsafe-inline\' allows the execution of injected inline scripts, use nonces or hashes instead',
+  '\'unsafe-eval\'': '\'unsafe-eval\' allows the execution of strings as code with eval()',
+  '*': '* allows scripts from any host',
+  'http:': 'http: allows scripts from any host over an insecure connection',
+  'https:': 'https: allows scripts from any host',
+  'data:': 'data: allows the execution of scripts written in data: URLs',
+};
+
+const QUOTED_SOURCE_REGEX: RegExp = /^'(.*)'$/;
+const NONCE_OR_HASH_REGEX: RegExp = /^(nonce-.+|(sha256|sha384|sha512)-[A-Za-z0-9+/_-]+={0,2})$/;
+const SCHEME_SOURCE_REGEX: RegExp = /^[a-z][a-z0-9+.-]*:$/i;
+const HOST_SOURCE_REGEX: RegExp = /^([a-z][a-z0-9+.-]*:\/\/)?(\*|(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*)(:(\d+|\*))?(\/[^\s;,]*)?$/i;
+
+const validateSource = (directive: string, source: string): PolicyIssue | undefined => {
+  const quotedValue: string | undefined = QUOTED_SOURCE_REGEX.exec(source)?.[1];
+  if (quotedValue !== undefined) {
+    if ((CSP_KEYWORDS as string[]).includes(quotedValue) || NONCE_OR_HASH_REGEX.test(quotedValue)) {
+      return undefined;
+    }
+    return { level: 'error', directive, message: `${source} is not a valid keyword, nonce or hash` };
+  }
+
+  if ((CSP_KEYWORDS as string[]).includes(source) || NONCE_OR_HASH_REGEX.test(source)) {
+    return { level: 'error', directive, message: `${source} must be quoted: '${source}', otherwise it is read as a host` };
+  }
+
+  if (source === '*' || SCHEME_SOURCE_REGEX.test(source) || HOST_SOURCE_REGEX.test(source)) {
+    return undefined;
+  }
+
+  return { level: 'error', directive, message: `${source} is not a valid host or scheme` };
+};
+
+const validateSourceList = (directive: string, sources: string[]): PolicyIssue[] => {
+  const issues: PolicyIssue[] = sources
+    .map((source: string) => validateSource(directive, source))
+    .filter((issue: PolicyIssue | undefined): issue is PolicyIssue => issue !== undefined);
+
+  if (sources.includes('\'none\'') && sources.length > 1) {
+    issues.push({ level: 'error', directive, message: '\'none\' cannot be combined with other sources, the other sources are ignored' });
+  }
+
+  const hasNonceOrHash: boolean = sources.some((source: string) => NONCE_OR_HASH_REGEX.test(QUOTED_SOURCE_REGEX.exec(source)?.[1] ?? ''));
+  if (sources.includes('\'unsafe-inline\'') && hasNonceOrHash) {
+    issues.push({
+      level: 'warning',
+      directive,
+      message: '\'unsafe-inline\' is ignored by browsers supporting nonces and hashes when a nonce or a hash is present',
+    });
+  }
+
+  if (SCRIPT_DIRECTIVES.includes(directive)) {
+    for (const source of sources) {
+      if (UNSAFE_SCRIPT_SOURCES[source] && !(source === '\'unsafe-inline\'' && hasNonceOrHash)) {
+        issues.push({ level: 'warning', directive, message: UNSAFE_SCRIPT_SOURCES[source] });
+      }
+    }
+  }
+
+  return issues;
+};
+
+const validateTokenList = (directive: string, definition: DirectiveDefinition, tokens: string[]): PolicyIssue[] => tokens
+  .filter((token: string) => definition.allowedTokens !== undefined && !definition.allowedTokens.includes(token))
+  .map((token: string) => ({
+    level: 'error',
+    directive,
+    message: `${token} is not a valid ${directive} token, valid tokens are: ${definition.allowedTokens?.join(', ')}`,
+  }));
+
+/**
+ * Validates the policy computed for one environment.
+ *
+ * @param policy The values of each directive, as written in the policy
+ * @returns {PolicyIssue[]} The issues found in the policy
+ */
+const validatePolicy = (policy: [string, string[]][]): PolicyIssue[] => {
+  const directives: string[] = policy.map(([directive]: [string, string[]]) => directive);
+  const issues: PolicyIssue[] = policy.flatMap(([directive, values]: [string, string[]]) => {
+    const definition: DirectiveDefinition | undefined = findDirectiveDefinition(directive);
+
+    if (!definition) {
+      return [{
+        level: 'warning',
+        directive,
+        message: REMOVED_DIRECTIVES[directive] ?? `${directive} is not a known CSP directive, it is ignored by browsers`,
+      }];
+    }
+
+    const directiveIssues: PolicyIssue[] = definition.deprecation
+      ? [{ level: 'warning', directive, message: definition.deprecation }]
+      : [];
+
+    if (definition.kind === 'source-list') {
+      return [...directiveIssues, ...validateSourceList(directive, values)];
+    }
+
+    return [...directiveIssues, ...validateTokenList(directive, definition, values)];
+  });
+
+  if (directives.includes('report-uri') && !directives.includes('report-to')) {
+    issues.push({
+      level: 'warning',
+      directive: 'report-uri',
+      message: 'report-uri is deprecated, add report-to with a Reporting-Endpoints header to support recent browsers',
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Validates the CSP rules of every environment.
+ * Issues found in several environments are reported once, with the list of the environments concerned.
+ *
+ * @param rules The CSP rules
+ * @param environments The environments to validate, the default policy is always validated
+ * @returns {CspValidationIssue[]} The errors and warnings found in the rules
+ */
+export const validateCspPolicies = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Iterable<Environment> = [],
+): CspValidationIssue[] => {
+  const issuesByKey: Map<string, CspValidationIssue> = new Map<string, CspValidationIssue>();
+
+  for (const environment of [undefined, ...environments]) {
+    const policy: [string, string[]][] = Object
+      .entries(rules)
+      .map(([directive, value]: [string, DirectiveValue<Environment>]): [string, string[] | undefined] => [
+        directive,
+        computeDirectiveValuesForEnvironment<Environment>(directive, value, environment),
+      ])
+      .filter((entry: [string, string[] | undefined]): entry is [string, string[]] => entry[1] !== undefined);
+
+    for (const issue of validatePolicy(policy)) {
+      const key: string = `${issue.level} ${issue.directive} ${issue.message}`;
+      const environmentLabel: string = environment ?? DEFAULT_ENVIRONMENT_LABEL;
+      const existingIssue: CspValidationIssue | undefined = issuesByKey.get(key);
+      if (existingIssue) {
+        existingIssue.environments.push(environmentLabel);
+      } else {
+        issuesByKey.set(key, { ...issue, environments: [environmentLabel] });
+      }
+    }
+  }
+
+  return [...issuesByKey.values()];
+};
+
+/**
+ * Formats an issue to be displayed to the user.
+ *
+ * @param issue The issue
+ * @returns {string} The issue description, including the directive and the environments concerned
+ */
+export const formatCspValidationIssue = (issue: CspValidationIssue): string => (
+  `${issue.directive} [${issue.environments.join(', ')}]: ${issue.message}`
+);
+
+const isFailingIssue = (issue: CspValidationIssue, failOn: ValidationLevel | 'never'): boolean => (
+  failOn === 'warning' || (failOn === 'error' && issue.level === 'error')
+);
+
+/**
+ * Validates the CSP rules, logs the issues found and throws if an issue reaches the `failOn` level.
+ *
+ * @param rules The CSP rules
+ * @param environments The environments to validate, the default policy is always validated
+ * @param configuration The validation configuration
+ * @returns {CspValidationIssue[]} The errors and warnings found in the rules
+ */
+export const applyCspPoliciesValidation = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environments: Iterable<Environment> = [],
+  configuration: ValidationConfiguration = {},
+): CspValidationIssue[] => {
+  const issues: CspValidationIssue[] = validateCspPolicies<Environment>(rules, environments);
+
+  for (const issue of issues) {
+    if (issue.level === 'error') {
+      logger.error(formatCspValidationIssue(issue));
+    } else {
+      logger.warn(formatCspValidationIssue(issue));
+    }
+  }
+
+  const failingIssues: CspValidationIssue[] = issues.filter(
+    (issue: CspValidationIssue) => isFailingIssue(issue, configuration.failOn ?? 'never'),
+  );
+  if (failingIssues.length > 0) {
+    throw new Error(`Invalid CSP rules:\n${failingIssues.map(formatCspValidationIssue).join('\n')}`);
+  }
+
+  return issues;
+};
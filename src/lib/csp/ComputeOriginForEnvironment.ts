@@ -1,27 +1,196 @@
-import { AuthorisedOrigins, CspPolicies } from '@lib/csp/CspDirectives';
+import {
+  CspKeyword,
+  CspPolicies,
+  DefaultOrigin,
+  DirectiveFlag,
+  DirectiveValue,
+  ExtendedOrigin,
+  AuthorisedOrigins,
+} from '@lib/csp/CspDirectives';
+import { DirectiveDefinition, findDirectiveDefinition } from '@lib/csp/CspDirectivesRegistry';
+
+export const CSP_KEYWORDS: CspKeyword[] = [
+  'self',
+  'none',
+  'unsafe-inline',
+  'unsafe-eval',
+  'unsafe-hashes',
+  'wasm-unsafe-eval',
+  'strict-dynamic',
+  'report-sample',
+  'inline-speculation-rules',
+];
+
+const QUOTED_SOURCE_PREFIX_REGEX: RegExp = /^(nonce|sha256|sha384|sha512)-/;
+
+export const NONE_SOURCE: string = '\'none\'';
+
+const isExtendedOrigin = (origin: DefaultOrigin | ExtendedOrigin | boolean): origin is ExtendedOrigin => (
+  typeof origin === 'object' && !Array.isArray(origin)
+);
+
+/**
+ * Quotes the keywords, nonces and hashes of a source list, e.g. `self` becomes `'self'`.
+ * Hosts, schemes and sources that are already quoted are returned unchanged.
+ *
+ * @param source The source to normalize
+ * @returns {string} The source as it must be written in the policy
+ */
+export const normalizeSource = (source: string): string => {
+  if ((CSP_KEYWORDS as string[]).includes(source) || QUOTED_SOURCE_PREFIX_REGEX.test(source)) {
+    return `'${source}'`;
+  }
+  return source;
+};
+
+/**
+ * Computes the normalized sources of authorised origins, without duplicates.
+ *
+ * @param origin The authorised origins, as a raw policy string or as a list of sources
+ * @returns {string[]} The normalized sources
+ */
+export const computeSourceList = (origin: DefaultOrigin): string[] => {
+  const sources: string[] = typeof origin === 'string' ? origin.split(/\s+/) : origin;
+  return [...new Set(sources.filter(Boolean).map(normalizeSource))];
+};
+
+/**
+ * Merges the sources of the default origins with the sources of an environment.
+ * `'none'` is removed if other sources are present, since it cannot be combined with other sources.
+ *
+ * @param defaultOrigin The default authorised origins
+ * @param extendedOrigin The authorised origins added for the environment
+ * @returns {string} The merged sources
+ */
+const computeExtendedOrigin = (defaultOrigin: DefaultOrigin, extendedOrigin: DefaultOrigin): string => {
+  const sources: string[] = computeSourceList([
+    ...computeSourceList(defaultOrigin),
+    ...computeSourceList(extendedOrigin),
+  ]);
+  return (sources.length > 1 ? sources.filter((source: string) => source !== NONE_SOURCE) : sources).join(' ');
+};
+
+const computeDefaultOrigin = (origin: DefaultOrigin): string => (
+  typeof origin === 'string' ? origin : computeSourceList(origin).join(' ')
+);
 
 /**
  * Computes and returns the origin for a specific environment based on the provided configuration.
  *
  * @template Environment - A generic type representing the environment type. Defaults to `never` if unspecified.
- * @param {AuthorisedOrigins<Environment>} origine - The authorized origins configuration, which can either be a string or an object mapping environments to specific origins.
+ * @param {AuthorisedOrigins<Environment>} origine - The authorized origins configuration, which can either be a string, a list of sources or an object mapping environments to specific origins.
  * @param {Environment} environment - The current environment for which the origin should be determined.
  * @returns {string} - The resolved origin for the specified environment. If no specific origin is found for the environment, the default origine is returned.
+ * If the origin of the environment is `{ extend: ... }`, it is merged with the default origine.
  */
 export const computeOriginForEnvironment = <Environment extends string = never>(
   origine: AuthorisedOrigins<Environment>,
   environment?: Environment,
 ): string => {
-  if (typeof origine === 'string') {
-    return origine;
+  if (typeof origine === 'string' || Array.isArray(origine)) {
+    return computeDefaultOrigin(origine);
+  }
+
+  const environmentOrigin: DefaultOrigin | ExtendedOrigin | undefined = environment === undefined ? undefined : origine[environment];
+  if (environmentOrigin === undefined) {
+    return computeDefaultOrigin(origine.default);
+  }
+
+  if (isExtendedOrigin(environmentOrigin)) {
+    return computeExtendedOrigin(origine.default, environmentOrigin.extend);
+  }
+
+  return computeDefaultOrigin(environmentOrigin);
+};
+
+/**
+ * Applies a transformation to every origin value of authorised origins,
+ * including the values of every environment and the values extending the default origins.
+ * Flag values are returned unchanged.
+ *
+ * @param origins The authorised origins
+ * @param mapper The transformation applied to each origin value
+ * @returns The transformed authorised origins
+ */
+export const mapOrigins = <Environment extends string = never, Value extends DirectiveValue<Environment> = AuthorisedOrigins<Environment>>(
+  origins: Value,
+  mapper: (origin: DefaultOrigin) => DefaultOrigin,
+): Value => {
+  if (typeof origins === 'boolean') {
+    return origins;
+  }
+
+  if (typeof origins === 'string' || Array.isArray(origins)) {
+    return mapper(origins) as Value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(origins).map(([environment, value]: [string, DefaultOrigin | ExtendedOrigin | boolean]) => {
+      if (typeof value === 'boolean') {
+        return [environment, value];
+      }
+      return [environment, isExtendedOrigin(value) ? { extend: mapper(value.extend) } : mapper(value)];
+    }),
+  ) as Value;
+};
+
+/**
+ * Computes whether a flag directive is enabled for a specific environment.
+ *
+ * @param flag The flag value, for every environment or by environment
+ * @param environment The current environment
+ * @returns {boolean} True if the directive is enabled for the environment
+ */
+export const computeFlagForEnvironment = <Environment extends string = never>(
+  flag: DirectiveFlag<Environment>,
+  environment?: Environment,
+): boolean => {
+  if (typeof flag !== 'object') {
+    // Flags previously configured with an empty string are still enabled
+    return flag !== false;
+  }
+
+  return (environment === undefined ? undefined : flag[environment]) ?? flag.default;
+};
+
+/**
+ * Computes the values of a directive for a specific environment, as they must be written in the policy.
+ *
+ * - Flag directives have no value when enabled, and are omitted when disabled
+ * - Empty source lists are written `'none'`, which is how browsers read them
+ * - Empty token lists are omitted, unless the directive is meaningful without tokens, e.g. `sandbox`
+ *
+ * @param directive The directive name
+ * @param value The directive value
+ * @param environment The current environment
+ * @returns {string[] | undefined} The values of the directive, undefined if the directive must be omitted
+ */
+export const computeDirectiveValuesForEnvironment = <Environment extends string = never>(
+  directive: string,
+  value: DirectiveValue<Environment>,
+  environment?: Environment,
+): string[] | undefined => {
+  const definition: DirectiveDefinition | undefined = findDirectiveDefinition(directive);
+
+  if (definition?.kind === 'flag') {
+    return computeFlagForEnvironment<Environment>(value as DirectiveFlag<Environment>, environment) ? [] : undefined;
+  }
+
+  const values: string[] = computeOriginForEnvironment<Environment>(value as AuthorisedOrigins<Environment>, environment)
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (values.length > 0 || definition?.allowsEmptyValue) {
+    return values;
   }
 
-  return origine[environment] ?? origine.default;
+  return definition?.kind === 'token-list' ? undefined : [NONE_SOURCE];
 };
 
 /**
  * Generates a Content Security Policy (CSP) directive string based on provided
  * policies and the specified environment. If no environment is provided, the default directive is used.
+ * Disabled flag directives and empty token lists are omitted.
  *
  * @template Environment - The type representing the environment. Defaults to `never`.
  * @param {CspPolicies<Environment>} policies - An object defining CSP policies, mapping
@@ -36,9 +205,10 @@ export const computeCspDirectiveForEnvironment = <Environment extends string = n
 ): string => {
   return Object
     .entries(policies)
-    .map(([directive, value]: [string, AuthorisedOrigins<Environment>]) => {
-      const allowedOrigin: string = computeOriginForEnvironment<Environment>(value, environment);
-      return `${directive} ${allowedOrigin}`;
+    .map(([directive, value]: [string, DirectiveValue<Environment>]) => {
+      const values: string[] | undefined = computeDirectiveValuesForEnvironment<Environment>(directive, value, environment);
+      return values === undefined ? undefined : [directive, ...values].join(' ');
     })
+    .filter((serializedDirective: string | undefined) => serializedDirective !== undefined)
     .join('; ');
 };
@@ -0,0 +1,73 @@
+import { mapOrigins, NONE_SOURCE, normalizeSource } from '@lib/csp/ComputeOriginForEnvironment';
+import {
+  AuthorisedOrigins,
+  CspPolicies,
+  DefaultOrigin,
+  SourceListDirectives,
+} from '@lib/csp/CspDirectives';
+
+// 'none' cannot be combined with other sources, so it is removed when sources are added
+const appendSources = (origin: DefaultOrigin, sources: string[]): DefaultOrigin => {
+  const existingSources: string[] = typeof origin === 'string' ? origin.split(/\s+/).filter(Boolean) : origin;
+  const newSources: string[] = sources.filter((source: string) => !existingSources.includes(source));
+  if (newSources.length === 0) {
+    return origin;
+  }
+  const appendedSources: string[] = [
+    ...existingSources.filter((source: string) => normalizeSource(source) !== NONE_SOURCE),
+    ...newSources,
+  ];
+  return typeof origin === 'string' ? appendedSources.join(' ') : appendedSources;
+};
+
+/**
+ * Appends sources to the authorised origins of every environment.
+ *
+ * @param origins The authorised origins
+ * @param sources The sources to append, sources already present are not duplicated and `'none'` is removed
+ * @param isAppendable Optional filter of the origins receiving the sources, every origin by default
+ * @returns {AuthorisedOrigins<Environment>} The authorised origins including the sources
+ */
+export const appendSourcesToOrigins = <Environment extends string = never>(
+  origins: AuthorisedOrigins<Environment>,
+  sources: string[],
+  isAppendable: (origin: DefaultOrigin) => boolean = () => true,
+): AuthorisedOrigins<Environment> => mapOrigins<Environment>(
+  origins,
+  (origin: DefaultOrigin) => (isAppendable(origin) ? appendSources(origin, sources) : origin),
+);
+
+/**
+ * Adds sources to the first directive configured among related directives, for every environment.
+ *
+ * The directives are ordered from the most specific to the most generic (e.g. `script-src-elem` before `script-src`).
+ * If none is configured but `default-src` is, the most generic directive is created from `default-src`.
+ * If `default-src` is not configured either, the resources are not restricted and the sources are not added.
+ *
+ * @param rules The CSP rules
+ * @param directives The directives that can receive the sources, from the most specific to the most generic
+ * @param sources The sources to add
+ * @param isAppendable Optional filter of the origins receiving the sources, every origin by default
+ * @returns {CspPolicies<Environment>} The rules including the sources
+ */
+export const computeRulesWithSources = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  directives: SourceListDirectives[],
+  sources: string[],
+  isAppendable?: (origin: DefaultOrigin) => boolean,
+): CspPolicies<Environment> => {
+  const genericDirective: SourceListDirectives = directives[directives.length - 1];
+  const targetDirective: SourceListDirectives | undefined = directives.find((directive: SourceListDirectives) => rules[directive] !== undefined);
+  const targetOrigins: AuthorisedOrigins<Environment> | undefined = targetDirective
+    ? rules[targetDirective]
+    : rules['default-src'];
+
+  if (!targetOrigins || sources.length === 0) {
+    return rules;
+  }
+
+  return {
+    ...rules,
+    [targetDirective ?? genericDirective]: appendSourcesToOrigins<Environment>(targetOrigins, sources, isAppendable),
+  };
+};
@@ -1,3 +1,6 @@
+/**
+ * Fetch directives, controlling the locations from which resources can be loaded.
+ */
 export type ResourcesDirectives =
   | 'default-src'
   | 'script-src'
@@ -10,13 +13,10 @@ export type ResourcesDirectives =
   | 'font-src'
   | 'manifest-src'
   | 'media-src'
-  | 'report-to'
-  | 'sandbox'
   | 'script-src-attr'
   | 'script-src-elem'
   | 'style-src-attr'
   | 'style-src-elem'
-  | 'upgrade-insecure-requests'
   | 'worker-src'
   | 'fenced-frame-src';
 
@@ -42,7 +42,73 @@ export type Directives =
   | DeprecatedDirectives;
 
 /**
- * A type that maps environment names to authorized origin strings while providing
+ * Directives without value, they are enabled with `true`.
+ */
+export type FlagDirectives = 'upgrade-insecure-requests' | 'block-all-mixed-content';
+
+/**
+ * Directives whose value is a list of tokens instead of a list of sources,
+ * e.g. `sandbox allow-scripts` or `require-trusted-types-for 'script'`.
+ */
+export type TokenListDirectives = 'sandbox' | 'trusted-types' | 'require-trusted-types-for' | 'report-to' | 'report-uri';
+
+/**
+ * Directives whose value is a list of sources, e.g. `script-src 'self' https://cdn.example.com`.
+ */
+export type SourceListDirectives = Exclude<Directives, FlagDirectives | TokenListDirectives>;
+
+/**
+ * The CSP keywords, they must be quoted in the policy, e.g. `'self'`.
+ */
+export type CspKeyword =
+  'self'
+  | 'none'
+  | 'unsafe-inline'
+  | 'unsafe-eval'
+  | 'unsafe-hashes'
+  | 'wasm-unsafe-eval'
+  | 'strict-dynamic'
+  | 'report-sample'
+  | 'inline-speculation-rules';
+
+type CspHashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * A source of a source list.
+ *
+ * Keywords, nonces and hashes can be written with or without quotes, they are quoted when the policy is computed:
+ * - Keywords: `self`, `'self'`, `none`, `strict-dynamic`...
+ * - Nonces: `nonce-abc`, `'nonce-abc'`
+ * - Hashes: `sha256-abc`, `'sha384-abc'`
+ * - Schemes: `data:`, `https:`
+ * - Hosts: `https://cdn.example.com`, `*.example.com`
+ */
+export type CspSource =
+  CspKeyword
+  | `'${CspKeyword}'`
+  | `nonce-${string}`
+  | `'nonce-${string}'`
+  | `${CspHashAlgorithm}-${string}`
+  | `'${CspHashAlgorithm}-${string}'`
+  | `${string}:`
+  // Hosts, while keeping the autocompletion of the other sources
+  | (string & {});
+
+/**
+ * Authorised origins written as a raw policy string, e.g. `'self' https://cdn.example.com`,
+ * or as a list of sources, e.g. `['self', 'https://cdn.example.com']`.
+ */
+export type DefaultOrigin = string | CspSource[];
+
+/**
+ * Authorised origins of an environment that are added to the `default` origins instead of replacing them.
+ */
+export type ExtendedOrigin = {
+  extend: DefaultOrigin,
+};
+
+/**
+ * A type that maps environment names to authorized origins while providing
  * a default origin fallback.
  *
  * This type enables the configuration of authorized origins specific to
@@ -51,6 +117,9 @@ export type Directives =
  * key is provided to specify the fallback origin to use if no specific environment
  * is matched.
  *
+ * The origins of an environment replace the `default` origins,
+ * unless they are wrapped in `{ extend: ... }`, in which case they are added to the `default` origins.
+ *
  * @template Environment A union of strings representing valid environment names.
  * Defaults to `never` if not provided.
  *
@@ -63,23 +132,39 @@ export type Directives =
  * ```
  * export const authorisedOriginesByEnvironment: AuthorisedOriginesByEnvironment<Environment> = {
  *  default: '\'self\'',
- *  'development': 'self',
+ *  'development': '\'self\' http://localhost:5173',
  *  'staging': '\'self\' https://staging.my-site.com',
+ *  'production': { extend: ['https://cdn.my-site.com'] },
  * }
  * ```
  */
 export type AuthorisedOriginesByEnvironment<Environment extends string = never> = Partial<{
-  [env in Environment]: string;
+  [env in Environment]: DefaultOrigin | ExtendedOrigin;
 }> & {
-  default: string,
+  default: DefaultOrigin,
 };
 
-export type DefaultOrigin = string;
-
 export type AuthorisedOrigins<T extends string = never> =
   AuthorisedOriginesByEnvironment<T>
   | DefaultOrigin;
 
+/**
+ * Enables a flag directive, for every environment or by environment.
+ *
+ * Example:
+ * ```
+ * const upgradeInsecureRequests: DirectiveFlag<Environment> = { default: true, development: false };
+ * ```
+ */
+export type DirectiveFlag<Environment extends string = never> =
+  boolean
+  | (Partial<{ [env in Environment]: boolean }> & { default: boolean });
+
+/**
+ * The value of any directive of {@link CspPolicies}.
+ */
+export type DirectiveValue<Environment extends string = never> = AuthorisedOrigins<Environment> | DirectiveFlag<Environment>;
+
 /**
  * Represents a collection of Content Security Policies (CSP) for a set of directives,
  * where each directive can be associated with a list of authorized origins.
@@ -97,9 +182,22 @@ export type AuthorisedOrigins<T extends string = never> =
  *     default: '\'self\'',
  *     'staging': 'https://staging.my-site.com',
  *   },
+ *   'connect-src': {
+ *     default: ['self', 'https://api.my-site.com'],
+ *     'staging': { extend: ['https://api.staging.my-site.com'] },
+ *   },
+ *   'sandbox': ['allow-scripts', 'allow-same-origin'],
+ *   'upgrade-insecure-requests': true,
  * };
  * ```
  * */
 export type CspPolicies<Environment extends string = never> = Partial<{
-  [directive in Directives]: AuthorisedOrigins<Environment>;
+  [directive in SourceListDirectives | TokenListDirectives]: AuthorisedOrigins<Environment>;
+}> & Partial<{
+  [directive in FlagDirectives]: DirectiveFlag<Environment>;
 }>;
+
+/**
+ * Returns the CSP rules to apply when they are read, e.g. to apply rules reloaded from a file.
+ */
+export type CspPoliciesProvider<Environment extends string = never> = () => CspPolicies<Environment>;
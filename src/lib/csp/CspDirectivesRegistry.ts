@@ -0,0 +1,90 @@
+import { Directives } from '@lib/csp/CspDirectives';
+
+/**
+ * How the value of a directive is written in the policy:
+ * - `source-list`: a list of sources, an empty list is written `'none'`
+ * - `token-list`: a list of tokens specific to the directive
+ * - `flag`: no value, the directive is present or absent
+ */
+export type DirectiveKind = 'source-list' | 'token-list' | 'flag';
+
+/**
+ * Definition of a CSP directive
+ *
+ * @property kind - How the value of the directive is written in the policy
+ * @property allowedTokens - For token lists, the only tokens accepted by the directive. Any token is accepted if undefined.
+ * @property allowsEmptyValue - For token lists, whether the directive is meaningful without tokens, e.g. `sandbox`
+ * @property deprecation - The deprecation message if the directive should not be used anymore
+ */
+export type DirectiveDefinition = {
+  kind: DirectiveKind,
+  allowedTokens?: string[],
+  allowsEmptyValue?: boolean,
+  deprecation?: string,
+};
+
+export const SANDBOX_TOKENS: string[] = [
+  'allow-downloads',
+  'allow-forms',
+  'allow-modals',
+  'allow-orientation-lock',
+  'allow-pointer-lock',
+  'allow-popups',
+  'allow-popups-to-escape-sandbox',
+  'allow-presentation',
+  'allow-same-origin',
+  'allow-scripts',
+  'allow-storage-access-by-user-activation',
+  'allow-top-navigation',
+  'allow-top-navigation-by-user-activation',
+  'allow-top-navigation-to-custom-protocols',
+];
+
+const SOURCE_LIST: DirectiveDefinition = { kind: 'source-list' };
+
+/**
+ * The definitions of the directives supported in {@link CspPolicies}
+ */
+export const CSP_DIRECTIVES: Record<Directives, DirectiveDefinition> = {
+  'default-src': SOURCE_LIST,
+  'script-src': SOURCE_LIST,
+  'style-src': SOURCE_LIST,
+  'connect-src': SOURCE_LIST,
+  'object-src': SOURCE_LIST,
+  'img-src': SOURCE_LIST,
+  'frame-src': SOURCE_LIST,
+  'child-src': SOURCE_LIST,
+  'font-src': SOURCE_LIST,
+  'manifest-src': SOURCE_LIST,
+  'media-src': SOURCE_LIST,
+  'script-src-attr': SOURCE_LIST,
+  'script-src-elem': SOURCE_LIST,
+  'style-src-attr': SOURCE_LIST,
+  'style-src-elem': SOURCE_LIST,
+  'worker-src': SOURCE_LIST,
+  'fenced-frame-src': SOURCE_LIST,
+  'base-uri': SOURCE_LIST,
+  'form-action': SOURCE_LIST,
+  'frame-ancestors': SOURCE_LIST,
+  sandbox: { kind: 'token-list', allowedTokens: SANDBOX_TOKENS, allowsEmptyValue: true },
+  'report-to': { kind: 'token-list' },
+  'require-trusted-types-for': { kind: 'token-list', allowedTokens: ['\'script\''] },
+  'trusted-types': { kind: 'token-list', allowsEmptyValue: true },
+  'upgrade-insecure-requests': { kind: 'flag' },
+  'block-all-mixed-content': {
+    kind: 'flag',
+    deprecation: 'block-all-mixed-content is deprecated, use upgrade-insecure-requests instead',
+  },
+  // Deprecated in favor of report-to, but still required by browsers not supporting report-to
+  'report-uri': { kind: 'token-list' },
+};
+
+/**
+ * Finds the definition of a directive.
+ *
+ * @param directive The directive name
+ * @returns {DirectiveDefinition | undefined} The definition of the directive, undefined if the directive is unknown
+ */
+export const findDirectiveDefinition = (directive: string): DirectiveDefinition | undefined => (
+  Object.hasOwn(CSP_DIRECTIVES, directive) ? CSP_DIRECTIVES[directive as Directives] : undefined
+);
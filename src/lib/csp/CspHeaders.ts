@@ -1,8 +1,25 @@
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { computeSecurityHeadersForEnvironment, SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+
 export type ReportType = 'report' | 'strict';
 
-enum HeaderNames {
+/**
+ * The report type, for every environment or by environment.
+ *
+ * Example:
+ * ```
+ * const reportType: ReportTypeByEnvironment<Environment> = { default: 'strict', staging: 'report' };
+ * ```
+ */
+export type ReportTypeByEnvironment<Environment extends string = never> =
+  ReportType
+  | (Partial<{ [env in Environment]: ReportType }> & { default: ReportType });
+
+export enum HeaderNames {
   CONTENT_SECURITY_POLICY = 'Content-Security-Policy',
   CONTENT_SECURITY_POLICY_REPORT_ONLY = 'Content-Security-Policy-Report-Only',
+  REPORTING_ENDPOINTS = 'Reporting-Endpoints',
 }
 
 const HEADER_NAME_BY_REPORT_TYPE: Record<ReportType, string> = {
@@ -19,3 +36,58 @@ const HEADER_NAME_BY_REPORT_TYPE: Record<ReportType, string> = {
 export const computeHeaderNameByReportType = (reportType?: ReportType): string => (
   HEADER_NAME_BY_REPORT_TYPE[reportType ?? 'strict']
 );
+
+/**
+ * Computes the report type of an environment.
+ *
+ * @param {ReportTypeByEnvironment<Environment>} [reportType] - The report type, for every environment or by environment. Optional.
+ * @param {Environment} [environment] - The environment, the default report type is used if undefined or not configured.
+ * @returns {ReportType | undefined} The report type of the environment, undefined if no report type is configured.
+ */
+export const computeReportTypeForEnvironment = <Environment extends string = never>(
+  reportType?: ReportTypeByEnvironment<Environment>,
+  environment?: Environment,
+): ReportType | undefined => {
+  if (reportType === undefined || typeof reportType === 'string') {
+    return reportType;
+  }
+  return (environment === undefined ? undefined : reportType[environment]) ?? reportType.default;
+};
+
+/**
+ * Computes the CSP headers of an environment, followed by the security headers sent with them.
+ *
+ * The policy of the rules is set in the header selected by the report type of the environment.
+ * The policy of the report-only rules is always set in the `Content-Security-Policy-Report-Only` header,
+ * so a stricter policy can be tested while the current one is enforced.
+ * If both policies are report-only, they are sent in the same header, separated by a comma, as allowed by the CSP specification.
+ *
+ * @param rules The CSP rules
+ * @param environment The environment, the default policy is used if undefined
+ * @param reportType The report type, for every environment or by environment
+ * @param reportOnlyRules The CSP rules that are only reported
+ * @param securityHeaders The security headers, for every environment or by environment
+ * @returns {Record<string, string>} The header values by header name
+ */
+export const computeCspHeadersForEnvironment = <Environment extends string = never>(
+  rules: CspPolicies<Environment>,
+  environment?: Environment,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
+): Record<string, string> => {
+  const headers: Record<string, string> = {
+    [computeHeaderNameByReportType(computeReportTypeForEnvironment<Environment>(reportType, environment))]:
+      computeCspDirectiveForEnvironment<Environment>(rules, environment),
+  };
+
+  const reportOnlyPolicy: string = reportOnlyRules ? computeCspDirectiveForEnvironment<Environment>(reportOnlyRules, environment) : '';
+  if (reportOnlyPolicy) {
+    const reportOnlyHeader: string = HeaderNames.CONTENT_SECURITY_POLICY_REPORT_ONLY;
+    headers[reportOnlyHeader] = headers[reportOnlyHeader] ? `${headers[reportOnlyHeader]}, ${reportOnlyPolicy}` : reportOnlyPolicy;
+  }
+
+  return securityHeaders
+    ? { ...headers, ...computeSecurityHeadersForEnvironment<Environment>(securityHeaders, environment) }
+    : headers;
+};
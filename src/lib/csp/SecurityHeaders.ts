@@ -0,0 +1,202 @@
+/**
+ * The features of the `Permissions-Policy` header.
+ */
+export type PermissionsPolicyFeature =
+  'accelerometer'
+  | 'ambient-light-sensor'
+  | 'attribution-reporting'
+  | 'autoplay'
+  | 'bluetooth'
+  | 'browsing-topics'
+  | 'camera'
+  | 'compute-pressure'
+  | 'display-capture'
+  | 'encrypted-media'
+  | 'fullscreen'
+  | 'gamepad'
+  | 'geolocation'
+  | 'gyroscope'
+  | 'hid'
+  | 'identity-credentials-get'
+  | 'idle-detection'
+  | 'local-fonts'
+  | 'magnetometer'
+  | 'microphone'
+  | 'midi'
+  | 'otp-credentials'
+  | 'payment'
+  | 'picture-in-picture'
+  | 'publickey-credentials-create'
+  | 'publickey-credentials-get'
+  | 'screen-wake-lock'
+  | 'serial'
+  | 'storage-access'
+  | 'usb'
+  | 'web-share'
+  | 'window-management'
+  | 'xr-spatial-tracking';
+
+/**
+ * The origins allowed to use a feature: `*` for every origin, or a list of origins and keywords.
+ * `self` allows the document origin, `src` allows the origin of the iframe `src` attribute, and an empty list disables the feature.
+ *
+ * Example:
+ * ```
+ * const geolocation: PermissionsPolicyAllowlist = ['self', 'https://maps.example.com'];
+ * ```
+ */
+export type PermissionsPolicyAllowlist = '*' | ('self' | 'src' | string)[];
+
+/**
+ * The allowlist of each feature of the `Permissions-Policy` header, features not listed keep the browser default allowlist.
+ *
+ * Example:
+ * ```
+ * const permissionsPolicy: PermissionsPolicy = { camera: [], geolocation: ['self'], fullscreen: '*' };
+ * ```
+ */
+export type PermissionsPolicy = Partial<Record<PermissionsPolicyFeature, PermissionsPolicyAllowlist>>;
+
+/**
+ * `Strict-Transport-Security` configuration
+ *
+ * @property maxAge - The time in seconds during which the browser only uses HTTPS, e.g. `31536000` for one year
+ * @property includeSubDomains - If true, the subdomains are also only accessed with HTTPS. Default is false.
+ * @property preload - If true, the domain consents to be included in the browsers HSTS preload lists. Default is false.
+ */
+export type StrictTransportSecurity = {
+  maxAge: number,
+  includeSubDomains?: boolean,
+  preload?: boolean,
+};
+
+export type ReferrerPolicy =
+  'no-referrer'
+  | 'no-referrer-when-downgrade'
+  | 'origin'
+  | 'origin-when-cross-origin'
+  | 'same-origin'
+  | 'strict-origin'
+  | 'strict-origin-when-cross-origin'
+  | 'unsafe-url';
+
+export type CrossOriginOpenerPolicy = 'unsafe-none' | 'same-origin-allow-popups' | 'same-origin' | 'noopener-allow-popups';
+
+export type CrossOriginEmbedderPolicy = 'unsafe-none' | 'require-corp' | 'credentialless';
+
+export type CrossOriginResourcePolicy = 'same-site' | 'same-origin' | 'cross-origin';
+
+/**
+ * The security headers sent with the CSP headers. Headers that are not configured are not sent,
+ * and `false` removes a header configured in the default headers of an environment.
+ *
+ * @property strictTransportSecurity - The `Strict-Transport-Security` header
+ * @property contentTypeOptions - The `X-Content-Type-Options` header, `nosniff` is the only value
+ * @property referrerPolicy - The `Referrer-Policy` header
+ * @property permissionsPolicy - The `Permissions-Policy` header
+ * @property crossOriginOpenerPolicy - The `Cross-Origin-Opener-Policy` header
+ * @property crossOriginEmbedderPolicy - The `Cross-Origin-Embedder-Policy` header
+ * @property crossOriginResourcePolicy - The `Cross-Origin-Resource-Policy` header
+ */
+export type SecurityHeaders = {
+  strictTransportSecurity?: StrictTransportSecurity | false,
+  contentTypeOptions?: 'nosniff' | false,
+  referrerPolicy?: ReferrerPolicy | false,
+  permissionsPolicy?: PermissionsPolicy | false,
+  crossOriginOpenerPolicy?: CrossOriginOpenerPolicy | false,
+  crossOriginEmbedderPolicy?: CrossOriginEmbedderPolicy | false,
+  crossOriginResourcePolicy?: CrossOriginResourcePolicy | false,
+};
+
+/**
+ * The security headers, for every environment or by environment.
+ * The headers of an environment are merged with the default headers, header by header.
+ *
+ * Example:
+ * ```
+ * const securityHeaders: SecurityHeadersByEnvironment<Environment> = {
+ *   default: { contentTypeOptions: 'nosniff', strictTransportSecurity: { maxAge: 31536000 } },
+ *   development: { strictTransportSecurity: false },
+ * };
+ * ```
+ */
+export type SecurityHeadersByEnvironment<Environment extends string = never> =
+  SecurityHeaders
+  | (Partial<{ [env in Environment]: SecurityHeaders }> & { default: SecurityHeaders });
+
+const PERMISSIONS_POLICY_KEYWORDS: string[] = ['self', 'src'];
+
+/**
+ * Computes the value of the `Strict-Transport-Security` header, e.g. `max-age=31536000; includeSubDomains`.
+ *
+ * @param configuration The `Strict-Transport-Security` configuration
+ * @returns {string} The header value
+ */
+export const computeStrictTransportSecurityHeaderValue = (configuration: StrictTransportSecurity): string => [
+  `max-age=${configuration.maxAge}`,
+  ...(configuration.includeSubDomains ? ['includeSubDomains'] : []),
+  ...(configuration.preload ? ['preload'] : []),
+].join('; ');
+
+/**
+ * Computes the value of the `Permissions-Policy` header, e.g. `camera=(), geolocation=(self "https://maps.example.com")`.
+ * Origins are quoted, keywords are not.
+ *
+ * @param permissionsPolicy The allowlist of each feature
+ * @returns {string} The header value
+ */
+export const computePermissionsPolicyHeaderValue = (permissionsPolicy: PermissionsPolicy): string => Object
+  .entries(permissionsPolicy)
+  .map(([feature, allowlist]: [string, PermissionsPolicyAllowlist]) => {
+    if (allowlist === '*') {
+      return `${feature}=*`;
+    }
+    const origins: string[] = allowlist.map((origin: string) => (PERMISSIONS_POLICY_KEYWORDS.includes(origin) ? origin : `"${origin}"`));
+    return `${feature}=(${origins.join(' ')})`;
+  })
+  .join(', ');
+
+const computeSecurityHeadersConfigurationForEnvironment = <Environment extends string = never>(
+  securityHeaders: SecurityHeadersByEnvironment<Environment>,
+  environment?: Environment,
+): SecurityHeaders => {
+  if (!('default' in securityHeaders)) {
+    return securityHeaders;
+  }
+  const environmentHeaders: SecurityHeaders | undefined = environment === undefined ? undefined : securityHeaders[environment];
+  return { ...securityHeaders.default, ...environmentHeaders };
+};
+
+/**
+ * Computes the security headers of an environment.
+ *
+ * @param securityHeaders The security headers, for every environment or by environment
+ * @param environment The environment, the default headers are used if undefined
+ * @returns {Record<string, string>} The header values by header name
+ */
+export const computeSecurityHeadersForEnvironment = <Environment extends string = never>(
+  securityHeaders: SecurityHeadersByEnvironment<Environment>,
+  environment?: Environment,
+): Record<string, string> => {
+  const {
+    strictTransportSecurity,
+    contentTypeOptions,
+    referrerPolicy,
+    permissionsPolicy,
+    crossOriginOpenerPolicy,
+    crossOriginEmbedderPolicy,
+    crossOriginResourcePolicy,
+  } = computeSecurityHeadersConfigurationForEnvironment<Environment>(securityHeaders, environment);
+
+  const headers: [string, string | false | undefined][] = [
+    ['Strict-Transport-Security', strictTransportSecurity && computeStrictTransportSecurityHeaderValue(strictTransportSecurity)],
+    ['X-Content-Type-Options', contentTypeOptions],
+    ['Referrer-Policy', referrerPolicy],
+    ['Permissions-Policy', permissionsPolicy && computePermissionsPolicyHeaderValue(permissionsPolicy)],
+    ['Cross-Origin-Opener-Policy', crossOriginOpenerPolicy],
+    ['Cross-Origin-Embedder-Policy', crossOriginEmbedderPolicy],
+    ['Cross-Origin-Resource-Policy', crossOriginResourcePolicy],
+  ];
+
+  return Object.fromEntries(headers.filter((header: [string, string | false | undefined]): header is [string, string] => !!header[1]));
+};
@@ -0,0 +1,52 @@
+const ATTRIBUTE_REGEX: RegExp = /([^\s"'=<>`/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': '\'',
+  '&#x27;': '\'',
+  '&apos;': '\'',
+  '&lt;': '<',
+  '&gt;': '>',
+};
+
+/**
+ * Decodes the HTML entities commonly used in attribute values.
+ *
+ * @param value The raw attribute value
+ * @returns {string} The attribute value as read by the browser
+ */
+export const decodeHtmlEntities = (value: string): string => value.replace(
+  /&(amp|quot|#39|#x27|apos|lt|gt);/g,
+  (entity: string) => HTML_ENTITIES[entity],
+);
+
+/**
+ * Parses the attributes of an HTML start tag.
+ *
+ * @param attributes The attributes part of the start tag, e.g. ` type="module" src="/index.js"`
+ * @returns {Map<string, string>} The decoded attribute values by lower case attribute name, empty for value-less attributes
+ */
+export const parseHtmlAttributes = (attributes: string): Map<string, string> => new Map(
+  [...attributes.matchAll(ATTRIBUTE_REGEX)].map(
+    ([, name, doubleQuotedValue, singleQuotedValue, unquotedValue]: RegExpExecArray): [string, string] => [
+      name.toLowerCase(),
+      decodeHtmlEntities(doubleQuotedValue ?? singleQuotedValue ?? unquotedValue ?? ''),
+    ],
+  ),
+);
+
+/**
+ * Adds attributes at the end of an HTML start tag.
+ *
+ * @param startTag The start tag, e.g. `<script src="/index.js">`
+ * @param attributes The attributes to add, values must already be escaped
+ * @returns {string} The start tag including the attributes
+ */
+export const appendHtmlAttributes = (startTag: string, attributes: Record<string, string>): string => {
+  const serializedAttributes: string = Object
+    .entries(attributes)
+    .map(([name, value]: [string, string]) => ` ${name}="${value}"`)
+    .join('');
+  return startTag.replace(/\s*(\/?>)$/, `${serializedAttributes}$1`);
+};
@@ -1,57 +1,267 @@
+import { checkCspConfigurationFiles } from '@lib/csp-configuration-generation/CheckCspConfigurationFiles';
 import {
+  computeCombinedCspConfigurationFileContent,
+  computeConfigurationFileName,
+  computeCspConfigurationFileContentForEnvironment,
+  ConfigurationFilesOptions,
+  ConfigurationFormat,
+  ConfigurationFormatter,
   configureCspConfigurationFileGenerationPluginServer,
+  generateCspConfigurationFiles,
+  OutputConfiguration,
+  resolveConfigurationFormatters,
+  resolveOutputConfiguration,
 } from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
 import { CspPolicies } from '@lib/csp/CspDirectives';
-import { Plugin, ViteDevServer } from 'vite';
+import { CspPolicyBuilder, resolveCspPolicies } from '@lib/csp-builder/CspPolicyBuilder';
+import { ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import { applyCspPoliciesValidation, ValidationConfiguration } from '@lib/csp-validation/CspPolicyValidation';
+import { CspPolicyFileContent, loadCspPolicyFileContent } from '@lib/csp-policy-file/CspPolicyFile';
+import { isViteConfigurationDependency, watchCspPolicyFile } from '@lib/csp-policy-file/CspPolicyFileReload';
+import { computeRouteRules, CspRoutePolicy, resolveCspRoutePolicies } from '@lib/csp-routes/CspRoutes';
+import { computeRoutesWithPresets, computeRulesWithPresets, CspPresetOption } from '@lib/csp-presets/CspPresets';
+import { applyCspPoliciesEvaluation, EvaluationConfiguration } from '@lib/csp-evaluation/CspPolicyEvaluation';
+import { CSP_INLINE_HASHES_PLUGIN_NAME } from '@lib/plugins/CspInlineHashesPlugin';
+import type { CspInlineHashesOptions } from '@lib/plugins/CspInlineHashesPlugin';
+import path from 'path';
+import {
+  Plugin,
+  ResolvedConfig,
+  Rollup,
+  ViteDevServer,
+} from 'vite';
+
+export const CSP_CONFIGURATION_FILE_GENERATION_PLUGIN_NAME: string = 'csp-configuration-file-generation-plugin';
+
+/**
+ * The API of the plugins, available in the `api` property of the plugin objects.
+ *
+ * @property options - The options given to the plugin
+ */
+export type CspPluginApi<Options> = {
+  options: Options,
+};
 
 /**
  * Type representing options to generate CSP (Content Security Policy) configuration.
  *
  * @template Environment Specifies the environment type constraint for the configuration.
- * @property rules The set of rules defining CSP policies for specific environments.
+ * @property rules The set of rules defining CSP policies for specific environments, or a builder created with `csp()`,
+ *                 or the path of a JSON, YAML, JavaScript or TypeScript policy file, relative to the Vite root, which is reloaded by the dev server when it changes.
  * @property environments A collection of environments where the CSP configuration is applied.
  * @property reportType Optional property to define the report mode. Can be 'report' or 'strict', default os 'strict'.
- * @property cspConfigurationFilePath Optional property specifying the file path where the CSP configuration is stored.
+ *                    It can also be defined by environment, e.g. `{ default: 'strict', staging: 'report' }`.
+ * @property reportOnlyRules Optional CSP rules written in the `Content-Security-Policy-Report-Only` header in addition to the rules,
+ *                         e.g. to test a stricter policy while the current one is enforced.
+ * @property securityHeaders Optional security headers written with the CSP headers, for every environment or by environment, e.g. `Strict-Transport-Security`.
+ * @property cspConfigurationFilePath Optional property specifying the path of the module exporting the rules, relative to the Vite root, watched by the dev server.
+ *                                    If the module is not imported by the Vite configuration, the rules are imported again from its default or `rules` export when it changes.
+ *                                    No file is watched if it is not set. Ignored if `rules` is a path.
+ * @property emitFiles Optional property to also emit the configuration files in the build output directory, under `content-security-policy/`. Default is false.
+ * @property formats Optional property to select the formats of the configuration files, by name or as custom formatters. Default is `['nginx-apache']`.
+ * @property output Optional property to configure the output directory, relative to the Vite root, the file names and whether environments are combined in one file.
+ * @property validation Optional property to configure the rules validation. The rules of every environment are validated before files are generated, the issues are only logged by default.
+ * @property check Optional property to check the configuration files instead of generating them during `vite build`. The build fails if a file is missing or out of date with the rules. Default is false.
+ *              With the CSP Inline Hashes Plugin, the files include the hashes of the build and are checked by that plugin, which must also enable `check`.
+ * @property routes Optional route policies merged on top of the rules for the documents of their paths or of their Vite build inputs,
+ *                  written as `location` blocks and `LocationMatch` sections. Only the Nginx and Apache formats support them.
+ * @property presets Optional presets of third-party services, e.g. `['google-fonts', 'stripe']`, whose sources are added to the directives
+ *                   of the rules, of the report-only rules and of the routes.
+ * @property evaluation Optional property to evaluate the strength of the policies of every environment, of its routes and of its report-only rules during `vite build`, and log or write the report.
  */
 export type CspConfigurationGenerationOptions<Environment extends string = never> = {
-  rules: CspPolicies<Environment>,
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment> | string,
   environments: Set<Environment>,
-  reportType?: 'report' | 'strict',
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
   cspConfigurationFilePath?: string,
+  emitFiles?: boolean,
+  formats?: ConfigurationFormat[],
+  output?: OutputConfiguration,
+  validation?: ValidationConfiguration,
+  check?: boolean,
+  routes?: CspRoutePolicy<Environment>[],
+  presets?: CspPresetOption[],
+  evaluation?: EvaluationConfiguration,
 };
 
 /**
- * A plugin to handle CSP (Content Security Policy) configuration file generation during a Vite development server's lifecycle.
- * It runs only when csp configuration file change
+ * A plugin to handle CSP (Content Security Policy) configuration file generation.
+ * During a Vite development server's lifecycle, files are generated on startup and when the rules change.
+ * During a Vite build, files are generated when the build starts, and the build fails if they cannot be generated.
  *
  * @param {CspConfigurationGenerationOptions<Environment>} options The configuration options for the CSP file generation process.
- * @param {Record<string, string[]>} options.rules The CSP rules defined as a mapping of directives to allowed sources.
+ * @param {CspPolicies<Environment> | CspPolicyBuilder<Environment> | string} options.rules The CSP rules defined as a mapping of directives to allowed sources, a builder, or the path of a policy file.
  * @param {Environment[]} options.environments The target environments for which the CSP configuration should be generated.
- * @param {string} options.reportType The type of CSP reporting method, such as 'report-only' or 'enforce'.
- * @param {string} options.cspConfigurationFilePath The file path where the generated CSP configuration should be stored.
- * @return {Plugin} A Vite plugin object for integration into the development server.
+ * @param {ReportTypeByEnvironment<Environment>} options.reportType The type of CSP reporting method, 'report' or 'strict', for every environment or by environment.
+ * @param {CspPolicies<Environment>} options.reportOnlyRules The CSP rules that are only reported, in addition to the rules.
+ * @param {SecurityHeadersByEnvironment<Environment>} options.securityHeaders The security headers written with the CSP headers.
+ * @param {string} options.cspConfigurationFilePath The path of the module exporting the rules, watched by the development server.
+ * @param {boolean} options.emitFiles Whether the configuration files are also emitted in the build output directory.
+ * @param {ConfigurationFormat[]} options.formats The formats of the configuration files.
+ * @param {OutputConfiguration} options.output The output configuration of the configuration files.
+ * @param {ValidationConfiguration} options.validation The configuration of the rules validation.
+ * @param {boolean} options.check Whether the configuration files are checked instead of generated during the build.
+ * @param {CspRoutePolicy<Environment>[]} options.routes The route policies written for the documents of their paths.
+ * @param {CspPresetOption[]} options.presets The presets of third-party services added to the rules.
+ * @param {EvaluationConfiguration} options.evaluation The configuration of the policy evaluation report.
+ * @return {Plugin} A Vite plugin object for integration into the development server and the build.
  */
 export function cspConfigurationFileGenerationPlugin<Environment extends string = never>(
-  {
+  options: CspConfigurationGenerationOptions<Environment>,
+): Plugin {
+  const {
     rules,
     environments,
     reportType,
+    reportOnlyRules,
+    securityHeaders,
     cspConfigurationFilePath,
-  }: CspConfigurationGenerationOptions<Environment>,
-): Plugin {
+    emitFiles,
+    formats,
+    output,
+    validation,
+    check,
+    routes,
+    presets,
+    evaluation,
+  } = options;
+  const formatters: ConfigurationFormatter[] = resolveConfigurationFormatters(formats);
+  let isBuild: boolean = false;
+  let hasInlineHashesPlugin: boolean = false;
+  let root: string = '';
+  let resolvedOutput: OutputConfiguration = {};
+  let currentRules: CspPolicies<Environment> = typeof rules === 'string' ? {} : resolveCspPolicies<Environment>(rules);
+  let policyFilePath: string | undefined;
+  let policyFileDependencies: string[] = [];
+  let resolvedRoutes: CspRoutePolicy<Environment>[] = [];
+  // The presets are added when the files are written, so the policy file reloads are compared with the rules as written
+  const computeGeneratedRules = (): CspPolicies<Environment> => computeRulesWithPresets<Environment>(currentRules, presets);
+  const generatedReportOnlyRules: CspPolicies<Environment> | undefined = reportOnlyRules && computeRulesWithPresets<Environment>(reportOnlyRules, presets);
+  // The output and the routes are resolved with the Vite configuration
+  const computeFilesOptions = (): ConfigurationFilesOptions<Environment> => ({
+    reportType,
+    formatters,
+    output: resolvedOutput,
+    reportOnlyRules: generatedReportOnlyRules,
+    securityHeaders,
+    routes: resolvedRoutes,
+  });
+
+  const validateRules = (policies: CspPolicies<Environment>) => {
+    applyCspPoliciesValidation<Environment>(policies, environments, validation);
+    for (const route of resolvedRoutes) {
+      applyCspPoliciesValidation<Environment>(computeRouteRules<Environment>(policies, route), environments, validation);
+    }
+  };
+
   return {
-    name: 'csp-configuration-file-generation-plugin',
+    name: CSP_CONFIGURATION_FILE_GENERATION_PLUGIN_NAME,
 
-    apply: 'serve',
+    // Exposes the options to other tools, e.g. the command-line interface reading the Vite configuration
+    api: { options } satisfies CspPluginApi<CspConfigurationGenerationOptions<Environment>>,
 
-    configureServer: (server: ViteDevServer) => {
-      return configureCspConfigurationFileGenerationPluginServer<Environment>(
-        server,
-        rules,
-        environments,
-        reportType,
-        cspConfigurationFilePath,
+    configResolved: async (config: ResolvedConfig) => {
+      isBuild = config.command === 'build';
+      root = config.root;
+      const inlineHashesPlugin: Plugin | undefined = config.plugins.find((plugin: Plugin) => plugin.name === CSP_INLINE_HASHES_PLUGIN_NAME);
+      hasInlineHashesPlugin = inlineHashesPlugin !== undefined;
+      // The inline hashes plugin writes the files at the end of the build, it would overwrite the files this plugin should only check
+      if (isBuild && check && inlineHashesPlugin && !(inlineHashesPlugin.api as CspPluginApi<CspInlineHashesOptions<Environment>>).options.check) {
+        throw new Error('The CSP configuration files include the inline hashes of the build, enable check in the CSP Inline Hashes Plugin options to check them');
+      }
+      resolvedOutput = resolveOutputConfiguration(config.root, formatters, output);
+      resolvedRoutes = computeRoutesWithPresets<Environment>(
+        resolveCspRoutePolicies<Environment>(routes ?? [], config.root, config.base, config.build.rollupOptions.input),
+        presets,
       );
+      if (typeof rules === 'string') {
+        policyFilePath = path.resolve(config.root, rules);
+        const content: CspPolicyFileContent<Environment> = await loadCspPolicyFileContent<Environment>(policyFilePath);
+        currentRules = content.rules;
+        policyFileDependencies = content.dependencies;
+      } else if (cspConfigurationFilePath) {
+        policyFilePath = path.resolve(config.root, cspConfigurationFilePath);
+      }
+      validateRules(currentRules);
+      if (reportOnlyRules) {
+        applyCspPoliciesValidation<Environment>(reportOnlyRules, environments, validation);
+      }
+    },
+
+    buildStart: async () => {
+      // In serve mode, files are generated by the server configuration
+      if (!isBuild) {
+        return;
+      }
+
+      if (check) {
+        // The files generated with the CSP Inline Hashes Plugin include the hashes of the built documents, so that plugin checks them once they are built
+        if (!hasInlineHashesPlugin) {
+          await checkCspConfigurationFiles<Environment>(computeGeneratedRules(), environments, computeFilesOptions());
+        }
+      } else {
+        await generateCspConfigurationFiles<Environment>(computeGeneratedRules(), environments, computeFilesOptions());
+      }
+      if (evaluation) {
+        await applyCspPoliciesEvaluation<Environment>(computeGeneratedRules(), environments, root, evaluation, {
+          reportOnlyRules: generatedReportOnlyRules,
+          routes: resolvedRoutes,
+          reportType,
+        });
+      }
+    },
+
+    generateBundle(this: Rollup.PluginContext) {
+      if (!emitFiles) {
+        return;
+      }
+
+      if (resolvedOutput.combined) {
+        for (const formatter of formatters) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `content-security-policy/${computeConfigurationFileName(undefined, formatter, resolvedOutput)}`,
+            source: computeCombinedCspConfigurationFileContent<Environment>(computeGeneratedRules(), environments, { ...computeFilesOptions(), formatter }),
+          });
+        }
+        return;
+      }
+
+      for (const environment of environments) {
+        for (const formatter of formatters) {
+          this.emitFile({
+            type: 'asset',
+            fileName: `content-security-policy/${computeConfigurationFileName(environment, formatter, resolvedOutput)}`,
+            source: computeCspConfigurationFileContentForEnvironment<Environment>(computeGeneratedRules(), environment, { ...computeFilesOptions(), formatter }),
+          });
+        }
+      }
+    },
+
+    configureServer: (server: ViteDevServer) => {
+      // Regenerate the files with the policy file changes, invalid rules are rejected and the previous files are kept.
+      // The CSP configuration file imported by the Vite configuration is not watched, Vite restarts the server when it changes.
+      if (policyFilePath && !isViteConfigurationDependency(server.config, policyFilePath)) {
+        watchCspPolicyFile<Environment>(server, {
+          filePath: policyFilePath,
+          rules: currentRules,
+          environments,
+          onReload: async (reloadedRules: CspPolicies<Environment>) => {
+            validateRules(reloadedRules);
+            currentRules = reloadedRules;
+            try {
+              await generateCspConfigurationFiles<Environment>(computeGeneratedRules(), environments, computeFilesOptions());
+            } catch {
+              // The error has already been logged, the development server must keep running
+            }
+          },
+        }, policyFileDependencies);
+      }
+
+      return configureCspConfigurationFileGenerationPluginServer<Environment>(computeGeneratedRules, environments, computeFilesOptions());
     },
   };
 }
@@ -0,0 +1,161 @@
+import { checkCspConfigurationFiles } from '@lib/csp-configuration-generation/CheckCspConfigurationFiles';
+import {
+  ConfigurationFilesOptions,
+  ConfigurationFormat,
+  ConfigurationFormatter,
+  generateCspConfigurationFiles,
+  OutputConfiguration,
+  resolveConfigurationFormatters,
+  resolveOutputConfiguration,
+} from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import {
+  computeInlineHashes,
+  computeRulesWithInlineHashes,
+  HashAlgorithm,
+  InlineHashes,
+} from '@lib/csp-hashes/CspInlineHashes';
+import { SUBRESOURCE_INTEGRITY_NOTES } from '@lib/csp-hashes/SubresourceIntegrity';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CspPolicyBuilder, resolveCspPolicies } from '@lib/csp-builder/CspPolicyBuilder';
+import { ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import { computeRouteRules, CspRoutePolicy, resolveCspRoutePolicies } from '@lib/csp-routes/CspRoutes';
+import { computeRoutesWithPresets, computeRulesWithPresets, CspPresetOption } from '@lib/csp-presets/CspPresets';
+import type { CspPluginApi } from '@lib/plugins/CspConfigurationFileGenerationPlugin';
+import { Plugin, ResolvedConfig, Rollup } from 'vite';
+
+export const CSP_INLINE_HASHES_PLUGIN_NAME: string = 'csp-inline-hashes-plugin';
+
+/**
+ * Type representing options to generate CSP (Content Security Policy) configuration including the hashes of inline contents.
+ *
+ * @template Environment Specifies the environment type constraint for the configuration.
+ * @property rules The set of rules defining CSP policies for specific environments, or a builder created with `csp()`.
+ * @property environments A collection of environments where the CSP configuration is applied.
+ * @property reportType Optional property to define the report mode. Can be 'report' or 'strict', default is 'strict'.
+ *                    It can also be defined by environment, e.g. `{ default: 'strict', staging: 'report' }`.
+ * @property reportOnlyRules Optional CSP rules written in the `Content-Security-Policy-Report-Only` header in addition to the rules. The hashes are also added to these rules.
+ * @property securityHeaders Optional security headers written with the CSP headers, for every environment or by environment, e.g. `Strict-Transport-Security`.
+ * @property algorithm Optional property to define the hash algorithm. Can be 'sha256', 'sha384' or 'sha512', default is 'sha256'.
+ * @property subresourceIntegrityNotes Optional property to add Subresource Integrity hardening notes in the configuration files, default is false.
+ * @property formats Optional property to select the formats of the configuration files, by name or as custom formatters. Default is `['nginx-apache']`.
+ * @property output Optional property to configure the output directory, relative to the Vite root, the file names and whether environments are combined in one file.
+ * @property check Optional property to check the configuration files instead of generating them. The build fails if a file is missing or out of date with the rules and the hashes. Default is false.
+ * @property routes Optional route policies merged on top of the rules for the documents of their paths or of their Vite build inputs. The hashes are also added to the rules of the routes.
+ * @property presets Optional presets of third-party services, e.g. `['google-fonts', 'stripe']`, whose sources are added to the directives of the rules, of the report-only rules and of the routes.
+ */
+export type CspInlineHashesOptions<Environment extends string = never> = {
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment>,
+  environments: Set<Environment>,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
+  algorithm?: HashAlgorithm,
+  subresourceIntegrityNotes?: boolean,
+  formats?: ConfigurationFormat[],
+  output?: OutputConfiguration,
+  check?: boolean,
+  routes?: CspRoutePolicy<Environment>[],
+  presets?: CspPresetOption[],
+};
+
+const isHtmlAsset = (output: Rollup.OutputAsset | Rollup.OutputChunk): output is Rollup.OutputAsset => (
+  output.type === 'asset' && output.fileName.endsWith('.html')
+);
+
+/**
+ * A plugin computing the hashes of the inline scripts, styles and event handlers of the built HTML documents.
+ * The hashes are added to the CSP rules of every environment before generating the CSP configuration files,
+ * so `'unsafe-inline'` is not needed for servers that cannot generate nonces.
+ * It runs only during `vite build`.
+ *
+ * @param {CspInlineHashesOptions<Environment>} options The configuration options for the CSP file generation process.
+ * @param {CspPolicies<Environment> | CspPolicyBuilder<Environment>} options.rules The CSP rules defined as a mapping of directives to allowed sources, or a builder.
+ * @param {Set<Environment>} options.environments The target environments for which the CSP configuration should be generated.
+ * @param {ReportTypeByEnvironment<Environment>} options.reportType The type of CSP reporting method, 'report' or 'strict', for every environment or by environment.
+ * @param {CspPolicies<Environment>} options.reportOnlyRules The CSP rules that are only reported, in addition to the rules.
+ * @param {SecurityHeadersByEnvironment<Environment>} options.securityHeaders The security headers written with the CSP headers.
+ * @param {HashAlgorithm} options.algorithm The hash algorithm used to compute the hashes.
+ * @param {boolean} options.subresourceIntegrityNotes Whether Subresource Integrity hardening notes are added in the configuration files.
+ * @param {ConfigurationFormat[]} options.formats The formats of the configuration files.
+ * @param {OutputConfiguration} options.output The output configuration of the configuration files.
+ * @param {boolean} options.check Whether the configuration files are checked instead of generated.
+ * @param {CspRoutePolicy<Environment>[]} options.routes The route policies written for the documents of their paths.
+ * @param {CspPresetOption[]} options.presets The presets of third-party services added to the rules.
+ * @return {Plugin} A Vite plugin object for integration into the build.
+ */
+export function cspInlineHashesPlugin<Environment extends string = never>(
+  options: CspInlineHashesOptions<Environment>,
+): Plugin {
+  const {
+    rules,
+    environments,
+    reportType,
+    reportOnlyRules,
+    securityHeaders,
+    algorithm,
+    subresourceIntegrityNotes,
+    formats,
+    output,
+    check,
+    routes,
+    presets,
+  } = options;
+  const formatters: ConfigurationFormatter[] = resolveConfigurationFormatters(formats);
+  let resolvedOutput: OutputConfiguration = {};
+  let resolvedRoutes: CspRoutePolicy<Environment>[] = [];
+  const rulesWithPresets: CspPolicies<Environment> = computeRulesWithPresets<Environment>(resolveCspPolicies<Environment>(rules), presets);
+  const reportOnlyRulesWithPresets: CspPolicies<Environment> | undefined = reportOnlyRules && computeRulesWithPresets<Environment>(reportOnlyRules, presets);
+
+  return {
+    name: CSP_INLINE_HASHES_PLUGIN_NAME,
+
+    apply: 'build',
+
+    // Exposes the options to the configuration file generation plugin and to the command-line interface
+    api: { options } satisfies CspPluginApi<CspInlineHashesOptions<Environment>>,
+
+    configResolved: (config: ResolvedConfig) => {
+      resolvedOutput = resolveOutputConfiguration(config.root, formatters, output);
+      resolvedRoutes = computeRoutesWithPresets<Environment>(
+        resolveCspRoutePolicies<Environment>(routes ?? [], config.root, config.base, config.build.rollupOptions.input),
+        presets,
+      );
+    },
+
+    writeBundle: async (_: Rollup.NormalizedOutputOptions, bundle: Rollup.OutputBundle) => {
+      const htmlDocuments: string[] = Object
+        .values(bundle)
+        .filter(isHtmlAsset)
+        .map((asset: Rollup.OutputAsset) => (
+          typeof asset.source === 'string' ? asset.source : Buffer.from(asset.source).toString('utf-8')
+        ));
+
+      const hashes: InlineHashes = computeInlineHashes(htmlDocuments, algorithm);
+
+      const rulesWithHashes: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rulesWithPresets, hashes);
+      const reportOnlyRulesWithHashes: CspPolicies<Environment> | undefined = reportOnlyRulesWithPresets
+        && computeRulesWithInlineHashes<Environment>(reportOnlyRulesWithPresets, hashes);
+      // The routes are merged before adding the hashes, so the directives they replace also receive the hashes
+      const routesWithHashes: CspRoutePolicy<Environment>[] = resolvedRoutes.map((route: CspRoutePolicy<Environment>) => ({
+        ...route,
+        rules: computeRulesWithInlineHashes<Environment>(computeRouteRules<Environment>(rulesWithPresets, route), hashes),
+      }));
+      const filesOptions: ConfigurationFilesOptions<Environment> = {
+        reportType,
+        formatters,
+        output: resolvedOutput,
+        notes: subresourceIntegrityNotes ? SUBRESOURCE_INTEGRITY_NOTES : undefined,
+        reportOnlyRules: reportOnlyRulesWithHashes,
+        securityHeaders,
+        routes: routesWithHashes,
+      };
+
+      if (check) {
+        await checkCspConfigurationFiles<Environment>(rulesWithHashes, environments, filesOptions);
+      } else {
+        await generateCspConfigurationFiles<Environment>(rulesWithHashes, environments, filesOptions);
+      }
+    },
+  };
+}
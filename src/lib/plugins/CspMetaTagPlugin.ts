@@ -0,0 +1,101 @@
+import {
+  computeCspMetaTag,
+  computeCspMetaTagPolicyForEnvironment,
+  computeCspMetaTagPolicyWithInlineHashes,
+} from '@lib/csp-meta-tag/CspMetaTag';
+import { HashAlgorithm } from '@lib/csp-hashes/CspInlineHashes';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CspPolicyBuilder, resolveCspPolicies } from '@lib/csp-builder/CspPolicyBuilder';
+import { ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { applyCspPoliciesValidation, ValidationConfiguration } from '@lib/csp-validation/CspPolicyValidation';
+import { loadCspPolicyFile } from '@lib/csp-policy-file/CspPolicyFile';
+import { computeRulesWithPresets, CspPresetOption } from '@lib/csp-presets/CspPresets';
+import path from 'path';
+import { HtmlTagDescriptor, Plugin, ResolvedConfig } from 'vite';
+
+/**
+ * Type representing options to write the CSP in a `<meta>` tag of the built HTML documents.
+ *
+ * @template Environment Specifies the environment type constraint for the configuration.
+ * @property rules The set of rules defining CSP policies for specific environments, or a builder created with `csp()`,
+ *                 or the path of a JSON, YAML, JavaScript or TypeScript policy file, relative to the Vite root.
+ * @property environment Optional property to select the environment whose policy is written. The default policy is written if undefined.
+ * @property reportType Optional property to define the report mode, for every environment or by environment.
+ *                    No tag is written for an environment in 'report' mode, since report-only policies are not supported in `<meta>` tags.
+ * @property reportOnlyRules Optional CSP rules that are only reported. They are ignored with a warning, so the options of the other plugins can be shared.
+ * @property validation Optional property to configure the rules validation. The rules of the environment are validated when the build starts, the issues are only logged by default.
+ * @property presets Optional presets of third-party services, whose sources are added to the directives of the rules.
+ * @property inlineHashes Optional property to add the hashes of the inline scripts, styles and event handlers of each document to its policy, default is false.
+ *                    Enable it with the CSP Inline Hashes Plugin, so the tag allows the same inline contents as the generated configuration files.
+ * @property algorithm Optional property to define the hash algorithm of the inline hashes. Can be 'sha256', 'sha384' or 'sha512', default is 'sha256'.
+ */
+export type CspMetaTagOptions<Environment extends string = never> = {
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment> | string,
+  environment?: Environment,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+  validation?: ValidationConfiguration,
+  presets?: CspPresetOption[],
+  inlineHashes?: boolean,
+  algorithm?: HashAlgorithm,
+};
+
+/**
+ * A plugin writing the CSP of an environment in a `<meta http-equiv="Content-Security-Policy">` tag of the built HTML documents,
+ * for hosts where response headers cannot be configured, e.g. static site hosting or embedded webviews.
+ * The directives that are not supported in `<meta>` tags (`frame-ancestors`, `report-uri` and `sandbox`) are removed with a warning.
+ * It runs only during `vite build`.
+ *
+ * @param {CspMetaTagOptions<Environment>} options The configuration options of the `<meta>` tag.
+ * @param {CspPolicies<Environment> | CspPolicyBuilder<Environment> | string} options.rules The CSP rules defined as a mapping of directives to allowed sources, a builder, or the path of a policy file.
+ * @param {Environment} options.environment The environment whose policy is written in the `<meta>` tag.
+ * @param {ReportTypeByEnvironment<Environment>} options.reportType The type of CSP reporting method, 'report' or 'strict', for every environment or by environment.
+ * @param {CspPolicies<Environment>} options.reportOnlyRules The CSP rules that are only reported, ignored in `<meta>` tags.
+ * @param {ValidationConfiguration} options.validation The configuration of the rules validation.
+ * @param {CspPresetOption[]} options.presets The presets of third-party services added to the rules.
+ * @param {boolean} options.inlineHashes Whether the hashes of the inline contents of each document are added to its policy.
+ * @param {HashAlgorithm} options.algorithm The hash algorithm used to compute the inline hashes.
+ * @return {Plugin} A Vite plugin object for integration into the build.
+ */
+export function cspMetaTagPlugin<Environment extends string = never>(
+  {
+    rules,
+    environment,
+    reportType,
+    reportOnlyRules,
+    validation,
+    presets,
+    inlineHashes,
+    algorithm,
+  }: CspMetaTagOptions<Environment>,
+): Plugin {
+  let rulesWithPresets: CspPolicies<Environment> = {};
+  let policy: string | undefined;
+
+  return {
+    name: 'csp-meta-tag-plugin',
+
+    apply: 'build',
+
+    configResolved: async (config: ResolvedConfig) => {
+      const currentRules: CspPolicies<Environment> = typeof rules === 'string'
+        ? await loadCspPolicyFile<Environment>(path.resolve(config.root, rules))
+        : resolveCspPolicies<Environment>(rules);
+      const environments: Environment[] = environment ? [environment] : [];
+      applyCspPoliciesValidation<Environment>(currentRules, environments, validation);
+      rulesWithPresets = computeRulesWithPresets<Environment>(currentRules, presets);
+      policy = computeCspMetaTagPolicyForEnvironment<Environment>(rulesWithPresets, environment, reportType, reportOnlyRules);
+    },
+
+    transformIndexHtml: {
+      // Runs after the other plugins, so the hashes match the inline contents of the built document
+      order: 'post',
+      handler: (html: string): HtmlTagDescriptor[] => {
+        if (!policy) {
+          return [];
+        }
+        return [computeCspMetaTag(inlineHashes ? computeCspMetaTagPolicyWithInlineHashes<Environment>(rulesWithPresets, html, environment, algorithm) : policy)];
+      },
+    },
+  };
+}
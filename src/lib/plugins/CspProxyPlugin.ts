@@ -1,27 +1,88 @@
-import { configureCspProxyServer, generateNonce } from '@lib/csp-proxy/CspProxy';
+import { configureCspProxyServer, generateNonce, getCurrentRequestNonce } from '@lib/csp-proxy/CspProxy';
+import {
+  computeDevServerRelaxations,
+  computeRulesWithDevServerRelaxations,
+  DevServerRelaxation,
+  DevServerRelaxationsConfiguration,
+  logDevServerRelaxations,
+} from '@lib/csp-proxy/DevServerRelaxations';
 import { CspPolicies } from '@lib/csp/CspDirectives';
-import { ReportType } from '@lib/csp/CspHeaders';
-import { Plugin, ViteDevServer } from 'vite';
+import { CspPolicyBuilder, resolveCspPolicies } from '@lib/csp-builder/CspPolicyBuilder';
+import { ReportTypeByEnvironment } from '@lib/csp/CspHeaders';
+import { SecurityHeadersByEnvironment } from '@lib/csp/SecurityHeaders';
+import {
+  configureCspReportCollectorServer,
+  ReportCollectorConfiguration,
+} from '@lib/csp-report/CspReportCollector';
+import { applyCspPoliciesValidation, ValidationConfiguration } from '@lib/csp-validation/CspPolicyValidation';
+import { CspPolicyFileContent, loadCspPolicyFileContent } from '@lib/csp-policy-file/CspPolicyFile';
+import { CspPluginApi } from '@lib/plugins/CspConfigurationFileGenerationPlugin';
+import { watchCspPolicyFile } from '@lib/csp-policy-file/CspPolicyFileReload';
+import { createCspLearningModeHandler, LEARNING_MODE_RULES, LearningModeConfiguration } from '@lib/csp-learning/CspLearningMode';
+import { computeRouteRules, CspRoutePolicy, resolveCspRoutePolicies } from '@lib/csp-routes/CspRoutes';
+import { computeRoutesWithPresets, computeRulesWithPresets, CspPresetOption } from '@lib/csp-presets/CspPresets';
+import path from 'path';
+import {
+  Plugin,
+  PreviewServer,
+  ResolvedConfig,
+  ViteDevServer,
+} from 'vite';
 
+/**
+ * Nonces configuration
+ *
+ * @property nonceTemplate - The placeholder of the nonce in the CSP rules, e.g. `{RANDOM}`
+ * @property perRequest - If true, a fresh nonce is generated for each request instead of one nonce for the dev server lifetime. Default is false.
+ * @property injectInHtml - If true, the nonce placeholder is replaced by the nonce in the HTML responses. HTML responses are then buffered before being sent. Default is true.
+ * @property injectInTags - If true, `nonce` attributes are also added to the scripts and styles of the HTML responses that do not have one.
+ * Injected markup, e.g. in SSR output, then receives a valid nonce too. Default is false.
+ */
 export type NoncesConfiguration = {
   nonceTemplate: string,
+  perRequest?: boolean,
+  injectInHtml?: boolean,
+  injectInTags?: boolean,
 };
 
+export const CSP_PROXY_PLUGIN_NAME: string = 'csp-proxy-plugin';
+
 /**
  * This type is used to define the rules and reporting behavior for Content Security Policy (CSP).
  *
  * @template Environment - Specifies the environment type to customize CSP rules per environment.
  *
- * @property rules - A set of CSP policies specified for different environments. This ensures the appropriate CSP rules are applied based on the defined environment type.
- * @property reportType - The type of report to be generated for CSP violations. This property is optional.
+ * @property rules - A set of CSP policies specified for different environments, or a builder created with `csp()`. This ensures the appropriate CSP rules are applied based on the defined environment type.
+ * It can also be the path of a JSON, YAML, JavaScript or TypeScript policy file, relative to the Vite root, which is reloaded by the dev server when it changes.
+ * @property reportType - The type of report to be generated for CSP violations, for every environment or by environment, e.g. `{ default: 'strict', staging: 'report' }`. This property is optional.
+ * @property reportOnlyRules - CSP rules sent in the `Content-Security-Policy-Report-Only` header in addition to the rules, e.g. to test a stricter policy while the current one is enforced. This property is optional.
+ * @property securityHeaders - Security headers sent with the CSP headers, for every environment or by environment, e.g. `Referrer-Policy`. This property is optional.
  * @property developmentKey - The key used to identify the development environment. It allows proxy to known which configuration when running vite dev. This property is optional.
+ * @property previewKey - The key of the environment whose policy is applied when running vite preview. The default policy is applied if undefined. This property is optional.
  * @property noncesConfiguration - Nonces configuration
+ * @property reportCollectorConfiguration - Report collector configuration. When set, violation reports are sent to and logged by the dev server. This property is optional.
+ * @property devServerRelaxations - The sources required by Vite added to the policy served by the dev server, `false` to disable them.
+ * The HMR WebSocket and the inline styles are allowed by default, only the HMR WebSocket in learning mode. This property is optional.
+ * @property validation - Validation configuration. The rules are validated when the dev server starts, and the issues are only logged by default. This property is optional.
+ * @property routes - Route policies merged on top of the rules for the HTML documents of their paths or of their Vite build inputs, e.g. to relax `frame-ancestors` for an embeddable page. This property is optional.
+ * @property learningMode - Learning mode configuration. When set, the dev server only reports a policy blocking every resource instead of applying the rules,
+ * and writes the rules suggested from the reported violations in a file. This property is optional.
+ * @property presets - Presets of third-party services, e.g. `['google-fonts', 'stripe']`, whose sources are added to the directives of the rules, of the report-only rules and of the routes. This property is optional.
  */
 export type CspProxyPluginOptions<Environment extends string = never> = {
-  rules: CspPolicies<Environment>,
-  reportType?: ReportType,
+  rules: CspPolicies<Environment> | CspPolicyBuilder<Environment> | string,
+  reportType?: ReportTypeByEnvironment<Environment>,
+  reportOnlyRules?: CspPolicies<Environment>,
+  securityHeaders?: SecurityHeadersByEnvironment<Environment>,
   developmentKey?: Environment,
+  previewKey?: Environment,
   noncesConfiguration?: NoncesConfiguration,
+  reportCollectorConfiguration?: ReportCollectorConfiguration,
+  devServerRelaxations?: DevServerRelaxationsConfiguration | false,
+  validation?: ValidationConfiguration,
+  routes?: CspRoutePolicy<Environment>[],
+  presets?: CspPresetOption[],
+  learningMode?: LearningModeConfiguration,
 };
 
 /**
@@ -29,30 +90,81 @@ export type CspProxyPluginOptions<Environment extends string = never> = {
  *
  * This plugin allows the user to define CSP rules and an optional reporting type to enforce
  * and report CSP policies in a development environment. It integrates with the Vite dev server
- * to apply the specified CSP rules during runtime.
+ * and the Vite preview server to apply the specified CSP rules during runtime.
  *
  * @template Environment - The type of the environment, defaults to `never` when not specified.
  * @param {CspProxyPluginOptions<Environment>} options - The options to configure the CSP proxy plugin.
- * @param {CspPolicies<Environment>} options.rules - An object defining the CSP rules to be enforced.
+ * @param {CspPolicies<Environment> | CspPolicyBuilder<Environment> | string} options.rules - An object defining the CSP rules to be enforced, a builder, or the path of a policy file.
  * @param {Environment} [options.developmentKey] - An optional key to identify the development environment.
+ * @param {Environment} [options.previewKey] - An optional key to identify the environment applied by the preview server.
  * @param {NoncesConfiguration} [options.noncesConfiguration] - An optional configuration for generating nonces.
- * @param {string} [options.reportType] - An optional report type to specify how CSP violations should be reported.
+ * @param {ReportTypeByEnvironment<Environment>} [options.reportType] - An optional report type to specify how CSP violations should be reported, for every environment or by environment.
+ * @param {CspPolicies<Environment>} [options.reportOnlyRules] - Optional CSP rules that are only reported, in addition to the enforced rules.
+ * @param {SecurityHeadersByEnvironment<Environment>} [options.securityHeaders] - Optional security headers sent with the CSP headers.
+ * @param {ReportCollectorConfiguration} [options.reportCollectorConfiguration] - An optional configuration to collect violation reports on the dev server.
+ * @param {DevServerRelaxationsConfiguration | false} [options.devServerRelaxations] - An optional configuration of the sources required by Vite in development.
+ * @param {ValidationConfiguration} [options.validation] - An optional configuration of the rules validation.
+ * @param {CspRoutePolicy<Environment>[]} [options.routes] - Optional route policies applied to the documents of their paths.
+ * @param {CspPresetOption[]} [options.presets] - Optional presets of third-party services added to the rules.
+ * @param {LearningModeConfiguration} [options.learningMode] - An optional configuration to suggest the rules from the violations reported on the dev server.
  * @returns {Plugin} A Vite plugin object with the required CSP configuration.
  */
 export const cspProxyPlugin = <Environment extends string = never>(
-  {
+  options: CspProxyPluginOptions<Environment>,
+): Plugin => {
+  const {
     rules,
     reportType,
+    reportOnlyRules,
+    securityHeaders,
     developmentKey,
+    previewKey,
     noncesConfiguration,
-  }: CspProxyPluginOptions<Environment>,
-): Plugin => {
+    reportCollectorConfiguration,
+    devServerRelaxations,
+    validation,
+    routes,
+    presets,
+    learningMode,
+  } = options;
   const nonce: string = generateNonce();
+  let currentRules: CspPolicies<Environment> = typeof rules === 'string' ? {} : resolveCspPolicies<Environment>(rules);
+  let policyFilePath: string | undefined;
+  let policyFileDependencies: string[] = [];
+  let resolvedRoutes: CspRoutePolicy<Environment>[] = [];
+
+  const validateRules = (policies: CspPolicies<Environment>, environments: Environment[]) => {
+    applyCspPoliciesValidation<Environment>(policies, environments, validation);
+    for (const route of resolvedRoutes) {
+      applyCspPoliciesValidation<Environment>(computeRouteRules<Environment>(policies, route), environments, validation);
+    }
+  };
 
   return ({
-    name: 'csp-proxy-plugin',
+    name: CSP_PROXY_PLUGIN_NAME,
     apply: 'serve',
+    api: { options } satisfies CspPluginApi<CspProxyPluginOptions<Environment>>,
+    configResolved: async (config: ResolvedConfig) => {
+      resolvedRoutes = computeRoutesWithPresets<Environment>(
+        resolveCspRoutePolicies<Environment>(routes ?? [], config.root, config.base, config.build.rollupOptions.input),
+        presets,
+      );
+      if (typeof rules === 'string') {
+        policyFilePath = path.resolve(config.root, rules);
+        const content: CspPolicyFileContent<Environment> = await loadCspPolicyFileContent<Environment>(policyFilePath);
+        currentRules = content.rules;
+        policyFileDependencies = content.dependencies;
+      }
+    },
+
     configureServer: (server: ViteDevServer) => {
+      const developmentEnvironments: Environment[] = developmentKey ? [developmentKey] : [];
+      // Check the served policy before the first request
+      validateRules(currentRules, developmentEnvironments);
+      if (reportOnlyRules) {
+        applyCspPoliciesValidation<Environment>(reportOnlyRules, developmentEnvironments, validation);
+      }
+
       const htmlNonce: string | undefined = server.config.html?.cspNonce;
       // Nonce configuration must be enabled in vite and in the plugin in order to work
       if ((!htmlNonce && Boolean(noncesConfiguration)) || (Boolean(htmlNonce) && !noncesConfiguration)) {
@@ -63,17 +175,128 @@ export const cspProxyPlugin = <Environment extends string = never>(
 
       // Replace placeholder in html.cspNonce with the generated nonce if the property has been set in Vite
       if (!!server.config.html) {
-        server.config.html.cspNonce = nonce;
+        if (noncesConfiguration?.perRequest) {
+          // Vite reads html.cspNonce when transforming the HTML, so it receives the nonce of the request being processed
+          Object.defineProperty(server.config.html, 'cspNonce', {
+            get: () => getCurrentRequestNonce() ?? nonce,
+            configurable: true,
+            enumerable: true,
+          });
+        } else {
+          server.config.html.cspNonce = nonce;
+        }
+      }
+
+      // Collect violation reports sent by the browser
+      if (!!reportCollectorConfiguration && !learningMode) {
+        configureCspReportCollectorServer(server, reportCollectorConfiguration);
+      }
+
+      // The relaxations do not depend on the rules, so they are computed and logged once for the dev server
+      const computeRelaxations = (relaxationsConfiguration: DevServerRelaxationsConfiguration | false): DevServerRelaxation[] => {
+        const relaxations: DevServerRelaxation[] = relaxationsConfiguration === false
+          ? []
+          : computeDevServerRelaxations(server.config.server, relaxationsConfiguration, Boolean(noncesConfiguration));
+        logDevServerRelaxations(relaxations);
+        return relaxations;
+      };
+
+      // Add the presets, then allow Vite itself to work under the policy, only in the policy served by the dev server
+      const computeServedRules = (
+        policies: CspPolicies<Environment>,
+        relaxations: DevServerRelaxation[],
+      ): CspPolicies<Environment> => computeRulesWithDevServerRelaxations<Environment>(
+        computeRulesWithPresets<Environment>(policies, presets),
+        relaxations,
+      );
+
+      // Only report a policy blocking every resource, so the application keeps working while the allowed resources are learned
+      if (learningMode) {
+        const learningReportCollectorConfiguration: ReportCollectorConfiguration = reportCollectorConfiguration ?? {};
+        configureCspReportCollectorServer(
+          server,
+          learningReportCollectorConfiguration,
+          createCspLearningModeHandler(server.config.root, learningMode),
+        );
+        // Only the HMR WebSocket of Vite is allowed, the inline styles and eval of the application must be reported to be learned
+        const learningRelaxations: DevServerRelaxationsConfiguration | false = devServerRelaxations === false
+          ? false
+          : { hmr: devServerRelaxations?.hmr, inlineStyles: false, unsafeEval: false };
+        configureCspProxyServer<Environment>(
+          server,
+          computeServedRules(LEARNING_MODE_RULES, computeRelaxations(learningRelaxations)),
+          nonce,
+          'report',
+          developmentKey,
+          noncesConfiguration,
+          learningReportCollectorConfiguration,
+          undefined,
+          securityHeaders,
+        );
+        return;
+      }
+
+      const relaxations: DevServerRelaxation[] = computeRelaxations(devServerRelaxations ?? {});
+      let servedRules: CspPolicies<Environment> = computeServedRules(currentRules, relaxations);
+      // The routes are merged before being relaxed, so Vite also works on their documents
+      const computeServedRoutes = (policies: CspPolicies<Environment>): CspRoutePolicy<Environment>[] => resolvedRoutes.map(
+        (route: CspRoutePolicy<Environment>) => ({ ...route, rules: computeServedRules(computeRouteRules<Environment>(policies, route), relaxations) }),
+      );
+      let servedRoutes: CspRoutePolicy<Environment>[] = computeServedRoutes(currentRules);
+
+      // Apply the policy file changes to the next requests, invalid rules are rejected and the previous ones stay applied
+      if (policyFilePath) {
+        watchCspPolicyFile<Environment>(server, {
+          filePath: policyFilePath,
+          rules: currentRules,
+          environments: developmentEnvironments,
+          onReload: (reloadedRules: CspPolicies<Environment>) => {
+            validateRules(reloadedRules, developmentEnvironments);
+            currentRules = reloadedRules;
+            servedRules = computeServedRules(reloadedRules, relaxations);
+            servedRoutes = computeServedRoutes(reloadedRules);
+          },
+        }, policyFileDependencies);
       }
 
       // Add CSP to headers
       configureCspProxyServer<Environment>(
         server,
-        rules,
+        () => servedRules,
         nonce,
         reportType,
         developmentKey,
         noncesConfiguration,
+        reportCollectorConfiguration,
+        reportOnlyRules && computeServedRules(reportOnlyRules, relaxations),
+        securityHeaders,
+        () => servedRoutes,
+      );
+    },
+
+    configurePreviewServer: (server: PreviewServer) => {
+      const previewEnvironments: Environment[] = previewKey ? [previewKey] : [];
+      validateRules(currentRules, previewEnvironments);
+      if (reportOnlyRules) {
+        applyCspPoliciesValidation<Environment>(reportOnlyRules, previewEnvironments, validation);
+      }
+
+      if (!!reportCollectorConfiguration) {
+        configureCspReportCollectorServer(server, reportCollectorConfiguration);
+      }
+
+      // Add CSP to the headers of the built application
+      configureCspProxyServer<Environment>(
+        server,
+        computeRulesWithPresets<Environment>(currentRules, presets),
+        nonce,
+        reportType,
+        previewKey,
+        noncesConfiguration,
+        reportCollectorConfiguration,
+        reportOnlyRules && computeRulesWithPresets<Environment>(reportOnlyRules, presets),
+        securityHeaders,
+        resolvedRoutes,
       );
     },
   });
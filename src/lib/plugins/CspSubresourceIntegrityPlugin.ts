@@ -0,0 +1,60 @@
+import { HashAlgorithm } from '@lib/csp-hashes/CspInlineHashes';
+import {
+  computeHtmlWithIntegrity,
+  createResourceContentResolver,
+  ResourceContentResolver,
+} from '@lib/csp-hashes/SubresourceIntegrity';
+import { Plugin, Rollup } from 'vite';
+
+export type CrossOrigin = 'anonymous' | 'use-credentials';
+
+/**
+ * Subresource Integrity configuration
+ *
+ * @property algorithm - The hash algorithm used for the `integrity` attributes. Default is sha384.
+ * @property crossOrigin - The `crossorigin` attribute value added to tags that do not have one. Default is anonymous.
+ */
+export type SubresourceIntegrityConfiguration = {
+  algorithm?: HashAlgorithm,
+  crossOrigin?: CrossOrigin,
+};
+
+const computeOutputContent = (output: Rollup.OutputAsset | Rollup.OutputChunk): string | Uint8Array => (
+  output.type === 'chunk' ? output.code : output.source
+);
+
+/**
+ * A plugin adding Subresource Integrity `integrity` and `crossorigin` attributes to the scripts,
+ * stylesheets and modulepreload links of the built HTML documents.
+ * It runs only during `vite build`, after the HTML documents have been generated by Vite.
+ *
+ * @param {SubresourceIntegrityConfiguration} configuration The Subresource Integrity configuration.
+ * @param {HashAlgorithm} configuration.algorithm The hash algorithm, default is sha384.
+ * @param {CrossOrigin} configuration.crossOrigin The `crossorigin` attribute value for tags that do not have one, default is anonymous.
+ * @return {Plugin} A Vite plugin object for integration into the build.
+ */
+export function cspSubresourceIntegrityPlugin(
+  configuration: SubresourceIntegrityConfiguration = {},
+): Plugin {
+  return {
+    name: 'csp-subresource-integrity-plugin',
+
+    apply: 'build',
+
+    enforce: 'post',
+
+    generateBundle: (_: Rollup.NormalizedOutputOptions, bundle: Rollup.OutputBundle) => {
+      const outputs: (Rollup.OutputAsset | Rollup.OutputChunk)[] = Object.values(bundle);
+      const resolveResourceContent: ResourceContentResolver = createResourceContentResolver(new Map(
+        outputs.map((output: Rollup.OutputAsset | Rollup.OutputChunk) => [output.fileName, computeOutputContent(output)]),
+      ));
+
+      for (const output of outputs) {
+        if (output.type === 'asset' && output.fileName.endsWith('.html')) {
+          const html: string = typeof output.source === 'string' ? output.source : Buffer.from(output.source).toString('utf-8');
+          output.source = computeHtmlWithIntegrity(html, resolveResourceContent, configuration);
+        }
+      }
+    },
+  };
+}
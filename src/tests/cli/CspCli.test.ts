@@ -0,0 +1,164 @@
+import { CspCliOutput, runCspCli } from '@lib/cli/CspCli';
+import {
+  mkdtemp,
+  readFile,
+  writeFile,
+} from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+type CliResult = {
+  exitCode: number,
+  output: string,
+  errors: string,
+};
+
+const rules: object = {
+  'default-src': ['self'],
+  'script-src': { default: ['self'], production: { extend: 'https://cdn.example.com' } },
+};
+
+const createProjectDirectory = async (): Promise<string> => {
+  const directory: string = await mkdtemp(path.join(os.tmpdir(), 'csp-cli-'));
+  await writeFile(path.join(directory, 'policy.json'), JSON.stringify(rules));
+  return directory;
+};
+
+const runCli = async (args: string[], cwd: string): Promise<CliResult> => {
+  const result: CliResult = { exitCode: 0, output: '', errors: '' };
+  const cliOutput: CspCliOutput = {
+    write: (text: string) => {
+      result.output += text;
+    },
+    writeError: (text: string) => {
+      result.errors += text;
+    },
+  };
+  result.exitCode = await runCspCli(args, cwd, cliOutput);
+  return result;
+};
+
+describe('runCspCli', () => {
+  it('should print the policy of an environment from a policy file', async () => {
+    const directory: string = await createProjectDirectory();
+
+    expect(await runCli(['print', '--rules', 'policy.json', '--env', 'production'], directory)).toEqual({
+      exitCode: 0,
+      output: 'Content-Security-Policy: default-src \'self\'; script-src \'self\' https://cdn.example.com\n',
+      errors: '',
+    });
+  });
+
+  it('should print the default policy in a configuration format', async () => {
+    const directory: string = await createProjectDirectory();
+
+    const result: CliResult = await runCli(['print', '--rules', 'policy.json', '--format', 'nginx', '--report-type', 'report'], directory);
+
+    expect(result.output).toBe('add_header Content-Security-Policy-Report-Only "default-src \'self\'; script-src \'self\'" always;\n');
+  });
+
+  it('should generate and check the configuration files of the environments', async () => {
+    const directory: string = await createProjectDirectory();
+    const args: string[] = ['--rules', 'policy.json', '--env', 'production', '--env', 'staging', '--format', 'nginx', '--output', 'deploy'];
+
+    expect((await runCli(['generate', ...args], directory)).exitCode).toBe(0);
+    expect(await readFile(path.join(directory, 'deploy/csp-configuration.staging.nginx.conf'), { encoding: 'utf-8' }))
+      .toBe('add_header Content-Security-Policy "default-src \'self\'; script-src \'self\'" always;\n');
+    expect((await runCli(['check', ...args], directory)).exitCode).toBe(0);
+
+    await writeFile(path.join(directory, 'policy.json'), JSON.stringify({ ...rules, 'img-src': ['self', 'data:'] }));
+    const result: CliResult = await runCli(['check', ...args], directory);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.errors).toContain('CSP configuration files are out of date with the rules');
+    expect(result.errors).toContain('  + img-src \'self\' data:');
+  });
+
+  it('should fail the validation on errors', async () => {
+    const directory: string = await createProjectDirectory();
+    await writeFile(path.join(directory, 'invalid-policy.json'), JSON.stringify({ 'script-src': ['self', 'none'] }));
+
+    const validResult: CliResult = await runCli(['validate', '--rules', 'policy.json'], directory);
+    const invalidResult: CliResult = await runCli(['validate', '--rules', 'invalid-policy.json'], directory);
+
+    expect(validResult).toEqual({ exitCode: 0, output: '✅ CSP rules are valid\n', errors: '' });
+    expect(invalidResult.exitCode).toBe(1);
+    expect(invalidResult.output).toContain('error: script-src [default]:');
+  });
+
+  it('should evaluate the policy of the environments in the report format', async () => {
+    const directory: string = await createProjectDirectory();
+
+    const result: CliResult = await runCli(['evaluate', '--rules', 'policy.json', '--env', 'production', '--format', 'markdown'], directory);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toContain('| production | 70/100 | 0 | 2 | 2 | 1 |');
+    expect((await runCli(['evaluate', '--rules', 'policy.json', '--format', 'nginx'], directory)).errors).toBe(
+      '❌ Unknown evaluation report format "nginx", use console, json, markdown\n',
+    );
+  });
+
+  it('should fail when an evaluated policy scores lower than the minimum score', async () => {
+    const directory: string = await createProjectDirectory();
+
+    const result: CliResult = await runCli(['evaluate', '--rules', 'policy.json', '--env', 'production', '--minimum-score', '75'], directory);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain('CSP policy evaluation of production: 70/100');
+    expect(result.output).not.toContain('CSP policy evaluation of default');
+    expect(result.errors).toBe('❌ The CSP policy scores lower than 75/100 for: production (70/100)\n');
+    expect((await runCli(['evaluate', '--rules', 'policy.json', '--minimum-score', '75'], directory)).errors).toBe(
+      '❌ The CSP policy scores lower than 75/100 for: default (70/100)\n',
+    );
+    expect((await runCli(['evaluate', '--rules', 'policy.json', '--env', 'production', '--report-type', 'report', '--minimum-score', '75'], directory)).exitCode)
+      .toBe(0);
+    expect((await runCli(['evaluate', '--rules', 'policy.json', '--minimum-score', '70'], directory)).exitCode).toBe(0);
+    expect((await runCli(['evaluate', '--rules', 'policy.json', '--minimum-score', 'high'], directory)).errors).toBe(
+      '❌ Invalid minimum score "high", use a number from 0 to 100\n',
+    );
+  });
+
+  it('should load the rules and the settings of the plugins declared in the Vite configuration', async () => {
+    const directory: string = await createProjectDirectory();
+    await writeFile(path.join(directory, 'vite.config.mjs'), `export default {
+  plugins: [[{
+    name: 'csp-configuration-file-generation-plugin',
+    api: { options: { rules: 'policy.json', environments: new Set(['production']), formats: ['nginx'], output: { directory: 'deploy' } } },
+  }]],
+};
+`);
+
+    expect((await runCli(['generate'], directory)).exitCode).toBe(0);
+    expect(await readFile(path.join(directory, 'deploy/csp-configuration.production.nginx.conf'), { encoding: 'utf-8' }))
+      .toBe('add_header Content-Security-Policy "default-src \'self\'; script-src \'self\' https://cdn.example.com" always;\n');
+  });
+
+  it('should refuse to write or check the configuration files of the inline hashes plugin', async () => {
+    const directory: string = await createProjectDirectory();
+    await writeFile(path.join(directory, 'vite.config.mjs'), `export default {
+  plugins: [{
+    name: 'csp-inline-hashes-plugin',
+    api: { options: { rules: { 'default-src': ['self'] }, environments: new Set(['production']) } },
+  }],
+};
+`);
+
+    expect((await runCli(['generate'], directory)).errors).toBe(
+      '❌ The Vite configuration uses cspInlineHashesPlugin, whose configuration files include the hashes of the built HTML documents: run vite build to generate them\n',
+    );
+    expect((await runCli(['check'], directory)).exitCode).toBe(1);
+    expect((await runCli(['print'], directory)).output).toBe('Content-Security-Policy: default-src \'self\'\n');
+  });
+
+  it('should report unknown commands and missing environments', async () => {
+    const directory: string = await createProjectDirectory();
+
+    expect((await runCli(['deploy'], directory)).errors).toBe(
+      '❌ Unknown command "deploy", available commands are: generate, print, validate, check, evaluate\n',
+    );
+    expect((await runCli(['generate', '--rules', 'policy.json'], directory)).errors).toBe(
+      '❌ No environment to process, use --env or configure the environments of cspConfigurationFileGenerationPlugin\n',
+    );
+  });
+});
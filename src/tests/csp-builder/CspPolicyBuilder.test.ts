@@ -0,0 +1,134 @@
+import {
+  csp,
+  CspEnvironmentPolicyBuilder,
+  CspPolicyBuilder,
+  hash,
+  host,
+  isCspPolicyBuilder,
+  keyword,
+  nonce,
+  none,
+  resolveCspPolicies,
+  scheme,
+  self,
+  strictDynamic,
+  unsafeInline,
+} from '@lib/csp-builder/CspPolicyBuilder';
+import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'development' | 'staging' | 'production';
+
+describe('csp', () => {
+  it('should build the rules of the source list directives', () => {
+    expect(csp()
+      .defaultSrc(self)
+      .scriptSrc(self, strictDynamic, nonce(), hash('sha256', 'abc='))
+      .scriptSrc(self, host('https://cdn.example.com'))
+      .imgSrc(self, scheme('data'), scheme('blob:'))
+      .scriptSrcElem(keyword('report-sample'))
+      .frameAncestors(none)
+      .build()).toEqual({
+      'default-src': ['\'self\''],
+      'script-src': ['\'self\'', '\'strict-dynamic\'', '\'nonce-{RANDOM}\'', '\'sha256-abc=\'', 'https://cdn.example.com'],
+      'img-src': ['\'self\'', 'data:', 'blob:'],
+      'script-src-elem': ['\'report-sample\''],
+      'frame-ancestors': ['\'none\''],
+    });
+  });
+
+  it('should build the rules of the token list and flag directives', () => {
+    expect(csp()
+      .sandbox('allow-scripts', 'allow-forms')
+      .trustedTypes('default', 'dompurify')
+      .requireTrustedTypesFor()
+      .reportTo('csp-endpoint')
+      .reportUri('/csp-report')
+      .upgradeInsecureRequests()
+      .build()).toEqual({
+      sandbox: ['allow-scripts', 'allow-forms'],
+      'trusted-types': ['default', 'dompurify'],
+      'require-trusted-types-for': ['\'script\''],
+      'report-to': ['csp-endpoint'],
+      'report-uri': ['/csp-report'],
+      'upgrade-insecure-requests': true,
+    });
+  });
+
+  it('should build the rules of the environments', () => {
+    const rules: CspPolicies<Environment> = csp<Environment>()
+      .scriptSrc(self)
+      .connectSrc(self)
+      .forEnv('development', (policy: CspEnvironmentPolicyBuilder) => policy.scriptSrc(self, unsafeInline).upgradeInsecureRequests(false))
+      .forEnv('staging', (policy: CspEnvironmentPolicyBuilder) => policy.extend.connectSrc(host('https://api.staging.example.com')))
+      .forEnv('staging', (policy: CspEnvironmentPolicyBuilder) => policy.extend.connectSrc(host('https://sentry.example.com')))
+      .forEnv('production', (policy: CspEnvironmentPolicyBuilder) => policy.upgradeInsecureRequests())
+      .build();
+
+    expect(rules).toEqual({
+      'script-src': { default: ['\'self\''], development: ['\'self\'', '\'unsafe-inline\''] },
+      'connect-src': { default: ['\'self\''], staging: { extend: ['https://api.staging.example.com', 'https://sentry.example.com'] } },
+      'upgrade-insecure-requests': { default: false, development: false, production: true },
+    });
+    expect(computeCspDirectiveForEnvironment<Environment>(rules, 'staging'))
+      .toBe('script-src \'self\'; connect-src \'self\' https://api.staging.example.com https://sentry.example.com');
+  });
+
+  it('should not modify the previous builders', () => {
+    const baseBuilder: CspPolicyBuilder = csp().defaultSrc(self);
+
+    baseBuilder.scriptSrc(strictDynamic);
+
+    expect(baseBuilder.build()).toEqual({ 'default-src': ['\'self\''] });
+  });
+
+  it('should throw when a source list directive is only set for environments', () => {
+    const builder: CspPolicyBuilder<Environment> = csp<Environment>()
+      .forEnv('staging', (policy: CspEnvironmentPolicyBuilder) => policy.frameSrc(host('https://staging.example.com')));
+
+    expect(() => builder.build()).toThrow('The directive "frame-src" is only set for staging, set its default sources, e.g. none');
+  });
+
+  it('should throw when the sources of an environment both replace and extend the default sources', () => {
+    expect(() => csp<Environment>()
+      .connectSrc(self)
+      .forEnv('staging', (policy: CspEnvironmentPolicyBuilder) => policy.connectSrc(self).extend.connectSrc(host('https://api.example.com'))))
+      .toThrow('The sources of the directive "connect-src" cannot both replace and extend the default sources');
+  });
+
+  it('should only accept the sources created by the helpers', () => {
+    // @ts-expect-error Raw strings are not accepted, e.g. a keyword without quotes would be read as a host
+    expect(csp().scriptSrc('self').build()).toEqual({ 'script-src': ['self'] });
+    // @ts-expect-error Unknown keyword
+    expect(keyword('slef')).toBe('\'slef\'');
+  });
+
+  it('should reject the keywords, nonces, hashes and quoted values as hosts', () => {
+    for (const value of ['self', '\'unsafe-inline\'', 'nonce-abc', 'sha256-abc=', 'https://a.example.com https://b.example.com', '']) {
+      expect(() => host(value)).toThrow(`"${value}" is not a host source, use the keyword(), nonce() or hash() helpers for the other sources`);
+    }
+    expect(host('*.example.com')).toBe('*.example.com');
+  });
+
+  it('should only accept the declared environments', () => {
+    const builder: CspPolicyBuilder<Environment> = csp<Environment>().scriptSrc(self);
+
+    // @ts-expect-error Unknown environment
+    expect(builder.forEnv('qa', (policy: CspEnvironmentPolicyBuilder) => policy).build()).toEqual({ 'script-src': ['\'self\''] });
+  });
+});
+
+describe('resolveCspPolicies', () => {
+  it('should build the rules of a builder', () => {
+    expect(isCspPolicyBuilder(csp())).toBe(true);
+    expect(resolveCspPolicies(csp().defaultSrc(self))).toEqual({ 'default-src': ['\'self\''] });
+  });
+
+  it('should return the rules written as an object', () => {
+    const rules: CspPolicies<never> = { 'default-src': ['self'] };
+
+    expect(isCspPolicyBuilder(rules)).toBe(false);
+    expect(resolveCspPolicies(rules)).toBe(rules);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  checkCspConfigurationFiles,
+  findOutdatedCspConfigurationFiles,
+  OutdatedConfigurationFile,
+} from '@lib/csp-configuration-generation/CheckCspConfigurationFiles';
+import { ConfigurationFilesOptions, generateCspConfigurationFiles } from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { NGINX_FORMATTER } from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CspRoutePolicy } from '@lib/csp-routes/CspRoutes';
+import { mkdtemp } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'staging';
+
+const environments: Set<Environment> = new Set<Environment>(['production', 'staging']);
+
+const rules: CspPolicies<Environment> = {
+  'default-src': '\'self\'',
+  'script-src': { default: ['self'], production: ['self', 'https://cdn.example.com'] },
+};
+
+const createOutputDirectory = (): Promise<string> => mkdtemp(path.join(os.tmpdir(), 'csp-check-'));
+
+describe('findOutdatedCspConfigurationFiles', () => {
+  it('should report missing files', async () => {
+    const directory: string = await createOutputDirectory();
+
+    const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(
+      rules,
+      new Set<Environment>(['staging']),
+      { output: { directory } },
+    );
+
+    expect(outdatedFiles).toEqual([{
+      filePath: path.join(directory, 'csp-configuration.staging.txt'),
+      missing: true,
+      reports: [{
+        from: path.join(directory, 'csp-configuration.staging.txt'),
+        to: 'staging',
+        directives: [
+          {
+            directive: 'default-src', status: 'added', addedSources: ['\'self\''], removedSources: [],
+          },
+          {
+            directive: 'script-src', status: 'added', addedSources: ['\'self\''], removedSources: [],
+          },
+        ],
+      }],
+    }]);
+  });
+
+  it('should report the policy changes of the outdated files', async () => {
+    const directory: string = await createOutputDirectory();
+    await generateCspConfigurationFiles<Environment>(rules, environments, { formatters: [NGINX_FORMATTER], output: { directory } });
+
+    const updatedRules: CspPolicies<Environment> = { ...rules, 'img-src': { default: ['self'], production: ['self', 'data:'] } };
+    const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(
+      updatedRules,
+      environments,
+      { formatters: [NGINX_FORMATTER], output: { directory } },
+    );
+
+    expect(outdatedFiles.map(({ reports }: OutdatedConfigurationFile) => reports)).toEqual([
+      [{
+        from: path.join(directory, 'csp-configuration.production.nginx.conf'),
+        to: 'production',
+        directives: [{
+          directive: 'img-src', status: 'added', addedSources: ['\'self\'', 'data:'], removedSources: [],
+        }],
+      }],
+      [{
+        from: path.join(directory, 'csp-configuration.staging.nginx.conf'),
+        to: 'staging',
+        directives: [{
+          directive: 'img-src', status: 'added', addedSources: ['\'self\''], removedSources: [],
+        }],
+      }],
+    ]);
+  });
+
+  it('should compare every environment of combined files', async () => {
+    const directory: string = await createOutputDirectory();
+    await generateCspConfigurationFiles<Environment>(rules, environments, { output: { directory, combined: true } });
+
+    const updatedRules: CspPolicies<Environment> = { ...rules, 'script-src': ['self'] };
+    const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(
+      updatedRules,
+      environments,
+      { output: { directory, combined: true } },
+    );
+
+    expect(outdatedFiles[0].reports.map(({ to, directives }: OutdatedConfigurationFile['reports'][number]) => ({ to, directives })))
+      .toEqual([
+        {
+          to: 'production',
+          directives: [{
+            directive: 'script-src', status: 'changed', addedSources: [], removedSources: ['https://cdn.example.com'],
+          }],
+        },
+        { to: 'staging', directives: [] },
+      ]);
+  });
+
+  it('should compare the policies of combined files without the policies of the routes', async () => {
+    const directory: string = await createOutputDirectory();
+    const routes: CspRoutePolicy<Environment>[] = [{ path: '/admin/**', rules: { 'script-src': ['none'] } }];
+    await generateCspConfigurationFiles<Environment>(rules, environments, { output: { directory, combined: true }, routes });
+
+    const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(
+      { ...rules, 'img-src': ['self'] },
+      environments,
+      { output: { directory, combined: true }, routes },
+    );
+
+    expect(outdatedFiles[0].reports.map(({ to, directives }: OutdatedConfigurationFile['reports'][number]) => ({ to, directives })))
+      .toEqual(['production', 'staging'].map((environment: string) => ({
+        to: environment,
+        directives: [{
+          directive: 'img-src', status: 'added', addedSources: ['\'self\''], removedSources: [],
+        }],
+      })));
+  });
+
+  it('should compare the policies of each header of combined files with a report type by environment', async () => {
+    const directory: string = await createOutputDirectory();
+    const reportOnlyRules: CspPolicies<Environment> = { 'default-src': ['self'], 'script-src': ['self'] };
+    const options: ConfigurationFilesOptions<Environment> = {
+      reportType: { default: 'strict', staging: 'report' },
+      output: { directory, combined: true },
+      reportOnlyRules,
+    };
+    await generateCspConfigurationFiles<Environment>(rules, environments, options);
+
+    const updatedRules: CspPolicies<Environment> = { ...rules, 'img-src': ['self'] };
+    const outdatedFiles: OutdatedConfigurationFile[] = await findOutdatedCspConfigurationFiles<Environment>(
+      updatedRules,
+      environments,
+      { ...options, reportOnlyRules: { ...reportOnlyRules, 'script-src': ['self', 'https://cdn.example.com'] } },
+    );
+
+    // The report-only rules of staging follow its rules in the Content-Security-Policy-Report-Only header
+    expect(outdatedFiles[0].reports.map(({ to, directives }: OutdatedConfigurationFile['reports'][number]) => ({ to, directives })))
+      .toEqual(['production', 'staging'].flatMap((environment: string) => [
+        {
+          to: environment,
+          directives: [{
+            directive: 'img-src', status: 'added', addedSources: ['\'self\''], removedSources: [],
+          }],
+        },
+        {
+          to: `${environment} (report-only)`,
+          directives: [{
+            directive: 'script-src', status: 'changed', addedSources: ['https://cdn.example.com'], removedSources: [],
+          }],
+        },
+      ]));
+  });
+});
+
+describe('checkCspConfigurationFiles', () => {
+  it('should pass when the files are up to date', async () => {
+    const directory: string = await createOutputDirectory();
+    await generateCspConfigurationFiles<Environment>(rules, environments, { reportType: 'report', output: { directory } });
+
+    await expect(checkCspConfigurationFiles<Environment>(rules, environments, { reportType: 'report', output: { directory } })).resolves.toBeUndefined();
+  });
+
+  it('should fail with the policy changes when the files are out of date', async () => {
+    const directory: string = await createOutputDirectory();
+    await generateCspConfigurationFiles<Environment>(rules, new Set<Environment>(['production']), { output: { directory } });
+
+    const updatedRules: CspPolicies<Environment> = { ...rules, 'script-src': ['self', 'https://scripts.example.com'] };
+
+    await expect(checkCspConfigurationFiles<Environment>(updatedRules, environments, { output: { directory } }))
+      .rejects.toThrow(`CSP configuration files are out of date with the rules, generate them again by disabling the check:
+CSP policy changes from ${path.join(directory, 'csp-configuration.production.txt')} to production:
+  script-src
+    + https://scripts.example.com
+    - https://cdn.example.com
+${path.join(directory, 'csp-configuration.staging.txt')} is missing
+`);
+  });
+});
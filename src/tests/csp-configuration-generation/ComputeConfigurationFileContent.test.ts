@@ -1,6 +1,11 @@
 import {
+  computeCombinedCspConfigurationFileContent,
   computeConfigurationFileContent,
+  computeCspConfigurationFileContentForEnvironment,
+  ConfigurationFileContentOptions,
 } from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import { NGINX_FORMATTER, VERCEL_FORMATTER } from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import { CspPolicies } from '@lib/csp/CspDirectives';
 import { describe, expect, it } from 'vitest';
 
 describe('computeConfigurationFileContent', () => {
@@ -11,7 +16,7 @@ describe('computeConfigurationFileContent', () => {
     const result: string = computeConfigurationFileContent(headerName, directive);
 
     const expected: string = `# Nginx configuration
-add_header Content-Security-Policy "default-src 'self' always";
+add_header Content-Security-Policy "default-src 'self'" always;
 
 # Apache configuration
 Header always set Content-Security-Policy "default-src 'self'"
@@ -26,7 +31,7 @@ Header always set Content-Security-Policy "default-src 'self'"
     const result: string = computeConfigurationFileContent(headerName, directive);
 
     const expected: string = `# Nginx configuration
-add_header Content-Security-Policy "default-src 'self'; script-src 'self' 'unsafe-inline' https://example.com; style-src 'self' 'unsafe-inline' always";
+add_header Content-Security-Policy "default-src 'self'; script-src 'self' 'unsafe-inline' https://example.com; style-src 'self' 'unsafe-inline'" always;
 
 # Apache configuration
 Header always set Content-Security-Policy "default-src 'self'; script-src 'self' 'unsafe-inline' https://example.com; style-src 'self' 'unsafe-inline'"
@@ -41,10 +46,129 @@ Header always set Content-Security-Policy "default-src 'self'; script-src 'self'
     const result: string = computeConfigurationFileContent(headerName, directive);
 
     const expected: string = `# Nginx configuration
-add_header Content-Security-Policy-Report-Only "default-src 'self'; report-uri https://example.com/report always";
+add_header Content-Security-Policy-Report-Only "default-src 'self'; report-uri https://example.com/report" always;
 
 # Apache configuration
 Header always set Content-Security-Policy-Report-Only "default-src 'self'; report-uri https://example.com/report"
+`;
+    expect(result).toBe(expected);
+  });
+
+  it('should add notes as comments at the beginning of the configuration', () => {
+    const result: string = computeConfigurationFileContent('Content-Security-Policy', 'default-src \'self\'', ['First note', 'Second note']);
+
+    const expected: string = `# First note
+# Second note
+
+# Nginx configuration
+add_header Content-Security-Policy "default-src 'self'" always;
+
+# Apache configuration
+Header always set Content-Security-Policy "default-src 'self'"
+`;
+    expect(result).toBe(expected);
+  });
+});
+
+describe('computeCspConfigurationFileContentForEnvironment', () => {
+  it('should generate the configuration with the directives of the environment', () => {
+    const rules: CspPolicies<'production' | 'staging'> = {
+      'default-src': '\'self\'',
+      'connect-src': {
+        default: '\'self\'',
+        production: '\'self\' https://api.example.com',
+      },
+    };
+
+    const result: string = computeCspConfigurationFileContentForEnvironment<'production' | 'staging'>(rules, 'production', { reportType: 'strict' });
+
+    const expected: string = `# Nginx configuration
+add_header Content-Security-Policy "default-src 'self'; connect-src 'self' https://api.example.com" always;
+
+# Apache configuration
+Header always set Content-Security-Policy "default-src 'self'; connect-src 'self' https://api.example.com"
+`;
+    expect(result).toBe(expected);
+  });
+
+  it('should write the report-only rules next to the rules, with the report type of the environment', () => {
+    const rules: CspPolicies<'production' | 'staging'> = { 'default-src': ['self'] };
+    const reportOnlyRules: CspPolicies<'production' | 'staging'> = { 'default-src': ['self'], 'script-src': ['self'] };
+
+    const options: ConfigurationFileContentOptions<'production' | 'staging'> = {
+      reportType: { default: 'strict', staging: 'report' },
+      formatter: NGINX_FORMATTER,
+      reportOnlyRules,
+    };
+    const productionResult: string = computeCspConfigurationFileContentForEnvironment<'production' | 'staging'>(rules, 'production', options);
+    const stagingResult: string = computeCspConfigurationFileContentForEnvironment<'production' | 'staging'>(rules, 'staging', options);
+
+    expect(productionResult).toBe(`add_header Content-Security-Policy "default-src 'self'" always;
+add_header Content-Security-Policy-Report-Only "default-src 'self'; script-src 'self'" always;
+`);
+    expect(stagingResult).toBe(`add_header Content-Security-Policy-Report-Only "default-src 'self', default-src 'self'; script-src 'self'" always;
+`);
+  });
+
+  it('should write the headers of the route policies, with the rules of the environment merged on top of the base rules', () => {
+    const rules: CspPolicies<'production' | 'staging'> = {
+      'default-src': ['self'],
+      'frame-ancestors': ['none'],
+    };
+
+    const result: string = computeCspConfigurationFileContentForEnvironment<'production' | 'staging'>(rules, 'production', {
+      reportType: 'strict',
+      formatter: NGINX_FORMATTER,
+      securityHeaders: { referrerPolicy: 'no-referrer' },
+      routes: [{ path: '/widget/**', rules: { 'frame-ancestors': { default: ['none'], production: ['https://partner.example.com'] } } }],
+    });
+
+    expect(result).toBe(`# The map blocks of the route policies are only allowed in the http block
+map $uri $csp_content_security_policy {
+    "~^/widget/.*$" "default-src 'self'; frame-ancestors https://partner.example.com";
+    default "default-src 'self'; frame-ancestors 'none'";
+}
+
+add_header Content-Security-Policy $csp_content_security_policy always;
+add_header Referrer-Policy "no-referrer" always;
+`);
+  });
+
+  it('should reject the route policies for formats that do not support them', () => {
+    expect(() => computeCspConfigurationFileContentForEnvironment<'production'>({ 'default-src': ['self'] }, 'production', {
+      reportType: 'strict',
+      formatter: VERCEL_FORMATTER,
+      routes: [{ path: '/admin/**', rules: {} }],
+    })).toThrow('CSP configuration format "vercel" does not support route policies');
+  });
+});
+
+describe('computeCombinedCspConfigurationFileContent', () => {
+  it('should combine the configurations of every environment', () => {
+    const rules: CspPolicies<'production' | 'staging'> = {
+      'default-src': {
+        default: '\'self\'',
+        staging: '\'self\' https://staging.example.com',
+      },
+    };
+
+    const result: string = computeCombinedCspConfigurationFileContent<'production' | 'staging'>(rules, new Set(['production', 'staging']), { reportType: 'strict' });
+
+    const expected: string = `# Environment: production
+
+# Nginx configuration
+add_header Content-Security-Policy "default-src 'self'" always;
+
+# Apache configuration
+Header always set Content-Security-Policy "default-src 'self'"
+
+# Environment: staging
+
+# Nginx configuration
+add_header Content-Security-Policy "default-src 'self' https://staging.example.com" always;
+
+# Apache configuration
+Header always set Content-Security-Policy "default-src 'self' https://staging.example.com"
 `;
     expect(result).toBe(expected);
   });
@@ -0,0 +1,287 @@
+import {
+  computeCombinedCspConfigurationFileContent,
+  computeConfigurationFileName,
+  computeCspConfigurationFileContentForEnvironment,
+  ConfigurationFormatter,
+  ConfigurationHeader,
+  ConfigurationRoute,
+  registerConfigurationFormatter,
+  resolveConfigurationFormatters,
+  resolveOutputConfiguration,
+} from '@lib/csp-configuration-generation/CspConfigurationFileGeneration';
+import {
+  APACHE_FORMATTER,
+  CADDY_FORMATTER,
+  FIREBASE_FORMATTER,
+  IIS_FORMATTER,
+  KUBERNETES_INGRESS_FORMATTER,
+  NETLIFY_FORMATTER,
+  NGINX_APACHE_FORMATTER,
+  NGINX_FORMATTER,
+  VERCEL_FORMATTER,
+  CLOUDFLARE_PAGES_FORMATTER,
+  extractCspPoliciesFromConfigurationFile,
+} from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+const headers: ConfigurationHeader[] = [{
+  name: 'Content-Security-Policy',
+  value: 'default-src \'self\'; img-src \'self\' data:',
+}];
+
+describe('configuration formatters', () => {
+  it('should format Nginx headers', () => {
+    expect(NGINX_FORMATTER.format(headers, ['A note'])).toBe(`# A note
+
+add_header Content-Security-Policy "default-src 'self'; img-src 'self' data:" always;
+`);
+  });
+
+  it('should select the headers changed by the routes in Nginx map blocks, by order of priority', () => {
+    const routes: ConfigurationRoute[] = [
+      { pathPattern: '^/admin/.*$', headers: [{ name: 'Content-Security-Policy', value: 'default-src \'none\'' }, { name: 'Referrer-Policy', value: 'no-referrer' }] },
+      { pathPattern: '^/widget/.*$', headers: [{ name: 'Content-Security-Policy', value: 'frame-ancestors *' }, { name: 'Referrer-Policy', value: 'no-referrer' }] },
+    ];
+
+    expect(NGINX_FORMATTER.format([...headers, { name: 'Referrer-Policy', value: 'no-referrer' }], [], routes)).toBe(`# The map blocks of the route policies are only allowed in the http block
+map $uri $csp_content_security_policy {
+    "~^/admin/.*$" "default-src 'none'";
+    "~^/widget/.*$" "frame-ancestors *";
+    default "default-src 'self'; img-src 'self' data:";
+}
+
+add_header Content-Security-Policy $csp_content_security_policy always;
+add_header Referrer-Policy "no-referrer" always;
+`);
+  });
+
+  it('should not send the headers of the Nginx map blocks where they are not configured', () => {
+    const routes: ConfigurationRoute[] = [
+      { pathPattern: '^/admin/.*$', headers: [...headers, { name: 'Content-Security-Policy-Report-Only', value: 'script-src \'self\'' }] },
+      { pathPattern: '^/widget/.*$', headers: [] },
+    ];
+
+    expect(NGINX_FORMATTER.format(headers, [], routes)).toBe(`# The map blocks of the route policies are only allowed in the http block
+map $uri $csp_content_security_policy {
+    "~^/admin/.*$" "default-src 'self'; img-src 'self' data:";
+    "~^/widget/.*$" "";
+    default "default-src 'self'; img-src 'self' data:";
+}
+map $uri $csp_content_security_policy_report_only {
+    "~^/admin/.*$" "script-src 'self'";
+    "~^/widget/.*$" "";
+    default "";
+}
+
+add_header Content-Security-Policy $csp_content_security_policy always;
+add_header Content-Security-Policy-Report-Only $csp_content_security_policy_report_only always;
+`);
+  });
+
+  it('should write the headers of the routes in Apache LocationMatch sections, in reverse order so the first matching route applies', () => {
+    const routes: ConfigurationRoute[] = [
+      { pathPattern: '^/admin/.*$', headers: [{ name: 'Content-Security-Policy', value: 'default-src \'none\'' }] },
+      { pathPattern: '^/.*$', headers: [{ name: 'Content-Security-Policy', value: 'frame-ancestors *' }] },
+    ];
+
+    expect(APACHE_FORMATTER.format(headers, [], routes)).toBe(`Header always set Content-Security-Policy "default-src 'self'; img-src 'self' data:"
+
+<LocationMatch "^/.*$">
+    Header always set Content-Security-Policy "frame-ancestors *"
+</LocationMatch>
+
+<LocationMatch "^/admin/.*$">
+    Header always set Content-Security-Policy "default-src 'none'"
+</LocationMatch>
+`);
+  });
+
+  it('should escape the double quotes and the backslashes of the route path patterns', () => {
+    const routes: ConfigurationRoute[] = [
+      { pathPattern: '^/"quoted"/page\\.html$', headers: [{ name: 'Content-Security-Policy', value: 'frame-ancestors *' }] },
+    ];
+
+    expect(APACHE_FORMATTER.format(headers, [], routes)).toContain('<LocationMatch "^/\\"quoted\\"/page\\\\.html$">');
+    expect(NGINX_FORMATTER.format(headers, [], routes)).toContain('"~^/\\"quoted\\"/page\\\\.html$" "frame-ancestors *";');
+  });
+
+  it('should escape the double quotes of the header values', () => {
+    expect(NGINX_FORMATTER.format([{ name: 'Permissions-Policy', value: 'geolocation=(self "https://maps.example.com")' }], []))
+      .toBe('add_header Permissions-Policy "geolocation=(self \\"https://maps.example.com\\")" always;\n');
+  });
+
+  it('should format a Caddyfile header directive', () => {
+    expect(CADDY_FORMATTER.format(headers, [])).toBe(`header {
+\tContent-Security-Policy "default-src 'self'; img-src 'self' data:"
+}
+`);
+  });
+
+  it('should format IIS custom headers with escaped values', () => {
+    expect(IIS_FORMATTER.format([{ name: 'X-Test', value: '"a" & <b>' }], [])).toBe(`<?xml version="1.0" encoding="utf-8"?>
+<configuration>
+  <system.webServer>
+    <httpProtocol>
+      <customHeaders>
+        <add name="X-Test" value="&quot;a&quot; &amp; &lt;b&gt;" />
+      </customHeaders>
+    </httpProtocol>
+  </system.webServer>
+</configuration>
+`);
+  });
+
+  it('should format a Netlify _headers file', () => {
+    expect(NETLIFY_FORMATTER.format(headers, [])).toBe(`/*
+  Content-Security-Policy: default-src 'self'; img-src 'self' data:
+`);
+  });
+
+  it('should format a vercel.json headers fragment', () => {
+    expect(JSON.parse(VERCEL_FORMATTER.format(headers, ['Ignored note']))).toEqual({
+      headers: [{
+        source: '/(.*)',
+        headers: [{ key: 'Content-Security-Policy', value: 'default-src \'self\'; img-src \'self\' data:' }],
+      }],
+    });
+  });
+
+  it('should format a firebase.json hosting headers fragment', () => {
+    expect(JSON.parse(FIREBASE_FORMATTER.format(headers, []))).toEqual({
+      hosting: {
+        headers: [{
+          source: '**',
+          headers: [{ key: 'Content-Security-Policy', value: 'default-src \'self\'; img-src \'self\' data:' }],
+        }],
+      },
+    });
+  });
+
+  it('should format Kubernetes ingress-nginx annotations', () => {
+    expect(KUBERNETES_INGRESS_FORMATTER.format(headers, [])).toBe(`metadata:
+  annotations:
+    nginx.ingress.kubernetes.io/configuration-snippet: |
+      more_set_headers "Content-Security-Policy: default-src 'self'; img-src 'self' data:";
+`);
+  });
+});
+
+describe('resolveConfigurationFormatters', () => {
+  it('should default to the combined Nginx and Apache formatter', () => {
+    expect(resolveConfigurationFormatters()).toEqual([NGINX_APACHE_FORMATTER]);
+  });
+
+  it('should resolve built-in, registered and inline formatters', () => {
+    const customFormatter: ConfigurationFormatter = {
+      name: 'custom',
+      fileExtension: 'custom.txt',
+      format: (formattedHeaders: ConfigurationHeader[]) => formattedHeaders.map(({ value }: ConfigurationHeader) => value).join('\n'),
+    };
+    const inlineFormatter: ConfigurationFormatter = { ...customFormatter, name: 'inline' };
+    registerConfigurationFormatter(customFormatter);
+
+    expect(resolveConfigurationFormatters(['nginx', 'custom', inlineFormatter])).toEqual([NGINX_FORMATTER, customFormatter, inlineFormatter]);
+  });
+
+  it('should throw for unknown formats', () => {
+    expect(() => resolveConfigurationFormatters(['unknown'])).toThrow('Unknown CSP configuration format "unknown"');
+  });
+});
+
+describe('computeConfigurationFileName', () => {
+  it('should keep the txt extension for the default formatter', () => {
+    expect(computeConfigurationFileName('production')).toBe('csp-configuration.production.txt');
+  });
+
+  it('should use the formatter file extension', () => {
+    expect(computeConfigurationFileName('staging', NGINX_FORMATTER)).toBe('csp-configuration.staging.nginx.conf');
+  });
+
+  it('should replace the placeholders of the file name template', () => {
+    expect(computeConfigurationFileName('staging', NGINX_FORMATTER, { fileNameTemplate: '{format}/{environment}.{extension}' }))
+      .toBe('nginx/staging.nginx.conf');
+  });
+
+  it('should use the combined file name by default for combined files', () => {
+    expect(computeConfigurationFileName(undefined, NGINX_FORMATTER, { combined: true })).toBe('csp-configuration.nginx.conf');
+  });
+});
+
+describe('resolveOutputConfiguration', () => {
+  it('should resolve the output directory against the root', () => {
+    expect(resolveOutputConfiguration('/project/packages/app', [NGINX_FORMATTER], { directory: 'deploy' }).directory)
+      .toBe(path.resolve('/project/packages/app', 'deploy'));
+    expect(resolveOutputConfiguration('/project/packages/app', [NGINX_FORMATTER]).directory)
+      .toBe(path.resolve('/project/packages/app', 'content-security-policy/configurations'));
+  });
+
+  it('should reject combined files for formats that do not support comments', () => {
+    expect(() => resolveOutputConfiguration('/project', [VERCEL_FORMATTER], { combined: true }))
+      .toThrow('CSP configuration format "vercel" does not support combined output files');
+  });
+
+  it('should reject combined files for formats whose files contain one environment', () => {
+    for (const formatter of [CADDY_FORMATTER, IIS_FORMATTER, NETLIFY_FORMATTER, CLOUDFLARE_PAGES_FORMATTER, KUBERNETES_INGRESS_FORMATTER]) {
+      expect(() => resolveOutputConfiguration('/project', [NGINX_FORMATTER, formatter], { combined: true }))
+        .toThrow(`CSP configuration format "${formatter.name}" does not support combined output files`);
+    }
+  });
+});
+
+describe('computeCombinedCspConfigurationFileContent', () => {
+  type Environment = 'staging' | 'production';
+
+  const rules: CspPolicies<Environment> = {
+    'default-src': ['self'],
+    'connect-src': { default: ['self'], staging: { extend: ['https://api.staging.example.com'] } },
+  };
+  const environments: Set<Environment> = new Set<Environment>(['staging', 'production']);
+
+  it('should write the configuration of each environment in its own section', () => {
+    for (const formatter of [NGINX_APACHE_FORMATTER, NGINX_FORMATTER, APACHE_FORMATTER]) {
+      const content: string = computeCombinedCspConfigurationFileContent<Environment>(rules, environments, { formatter, notes: ['A note'] });
+      const sections: string[] = content.split(/^(?=# Environment: )/m).slice(1);
+
+      expect(sections).toEqual([...environments].map((environment: Environment) => (
+        computeCspConfigurationFileContentForEnvironment<Environment>(rules, environment, { formatter, notes: [`Environment: ${environment}`] })
+      ).concat(environment === 'staging' ? '\n' : '')));
+      expect(extractCspPoliciesFromConfigurationFile(content, formatter)).toEqual([
+        'default-src \'self\'; connect-src \'self\' https://api.staging.example.com',
+        'default-src \'self\'; connect-src \'self\'',
+      ]);
+    }
+  });
+});
+
+describe('extractCspPoliciesFromConfigurationFile', () => {
+  it('should extract the policies of the default format', () => {
+    const content: string = `# Environment: production
+# Nginx configuration
+add_header Content-Security-Policy "default-src 'self'; img-src data:" always;
+
+# Apache configuration
+Header always set Content-Security-Policy "default-src 'self'; img-src data:"
+`;
+
+    expect(extractCspPoliciesFromConfigurationFile(content)).toEqual(['default-src \'self\'; img-src data:']);
+  });
+
+  it('should extract the policies of the default format changed by route policies from the Apache configuration', () => {
+    const routes: ConfigurationRoute[] = [{ pathPattern: '^/admin/.*$', headers: [{ name: 'Content-Security-Policy', value: 'default-src \'none\'' }] }];
+
+    expect(extractCspPoliciesFromConfigurationFile(NGINX_APACHE_FORMATTER.format(headers, [], routes))).toEqual([headers[0].value]);
+  });
+
+  it('should extract the policies of other formats and header names', () => {
+    const content: string = `metadata:
+  annotations:
+    nginx.ingress.kubernetes.io/configuration-snippet: |
+      more_set_headers "Content-Security-Policy-Report-Only: default-src 'none'";
+`;
+
+    expect(extractCspPoliciesFromConfigurationFile(content, KUBERNETES_INGRESS_FORMATTER, 'Content-Security-Policy-Report-Only'))
+      .toEqual(['default-src \'none\'']);
+  });
+});
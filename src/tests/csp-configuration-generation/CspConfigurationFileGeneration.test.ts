@@ -1,5 +1,9 @@
-import { computeOriginForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
-import { AuthorisedOrigins } from '@lib/csp/CspDirectives';
+import {
+  computeCspDirectiveForEnvironment,
+  computeOriginForEnvironment,
+  mapOrigins,
+} from '@lib/csp/ComputeOriginForEnvironment';
+import { AuthorisedOrigins, CspPolicies, DefaultOrigin } from '@lib/csp/CspDirectives';
 import { describe, expect, it } from 'vitest';
 
 type Environment = 'production' | 'staging';
@@ -38,4 +42,82 @@ describe('computeOriginForEnvironment', () => {
 
     expect(result).toBe('\'self\'');
   });
+
+  it('should quote keywords, nonces and hashes of source lists and remove duplicates', () => {
+    const value: AuthorisedOrigins<Environment> = ['self', '\'self\'', 'nonce-abc', 'sha256-xyz', 'data:', 'https://cdn.example.com'];
+
+    const result: string = computeOriginForEnvironment<Environment>(value, 'production');
+
+    expect(result).toBe('\'self\' \'nonce-abc\' \'sha256-xyz\' data: https://cdn.example.com');
+  });
+
+  it('should merge the default value with the extended value of the environment', () => {
+    const value: AuthorisedOrigins<Environment> = {
+      default: '\'self\' https://cdn.example.com',
+      staging: { extend: ['self', 'https://staging.example.com'] },
+    };
+
+    expect(computeOriginForEnvironment<Environment>(value, 'staging')).toBe('\'self\' https://cdn.example.com https://staging.example.com');
+    expect(computeOriginForEnvironment<Environment>(value, 'production')).toBe('\'self\' https://cdn.example.com');
+  });
+
+  it('should remove none when extending a default value', () => {
+    const value: AuthorisedOrigins<Environment> = {
+      default: ['none'],
+      staging: { extend: 'https://staging.example.com' },
+    };
+
+    expect(computeOriginForEnvironment<Environment>(value, 'staging')).toBe('https://staging.example.com');
+  });
+});
+
+describe('mapOrigins', () => {
+  it('should map the values of every environment, including extended values', () => {
+    const value: AuthorisedOrigins<Environment> = {
+      default: '\'self\'',
+      production: ['self'],
+      staging: { extend: ['https://staging.example.com'] },
+    };
+
+    const result: AuthorisedOrigins<Environment> = mapOrigins<Environment>(
+      value,
+      (origin: DefaultOrigin) => (typeof origin === 'string' ? `${origin} data:` : [...origin, 'data:']),
+    );
+
+    expect(result).toEqual({
+      default: '\'self\' data:',
+      production: ['self', 'data:'],
+      staging: { extend: ['https://staging.example.com', 'data:'] },
+    });
+  });
+});
+
+describe('computeCspDirectiveForEnvironment', () => {
+  it('should write enabled flag directives without value and omit disabled ones', () => {
+    const policies: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+      'upgrade-insecure-requests': { default: true, staging: false },
+      'block-all-mixed-content': false,
+    };
+
+    expect(computeCspDirectiveForEnvironment<Environment>(policies, 'production')).toBe('default-src \'self\'; upgrade-insecure-requests');
+    expect(computeCspDirectiveForEnvironment<Environment>(policies, 'staging')).toBe('default-src \'self\'');
+  });
+
+  it('should write sandbox tokens and an empty sandbox without trailing space', () => {
+    expect(computeCspDirectiveForEnvironment<Environment>({ sandbox: ['allow-scripts', 'allow-forms'] })).toBe('sandbox allow-scripts allow-forms');
+    expect(computeCspDirectiveForEnvironment<Environment>({ sandbox: '' })).toBe('sandbox');
+  });
+
+  it('should write empty source lists as none and omit empty token lists', () => {
+    const policies: CspPolicies<Environment> = {
+      'object-src': [],
+      'report-to': ' ',
+      'require-trusted-types-for': '\'script\'',
+      'trusted-types': 'default dompurify',
+    };
+
+    expect(computeCspDirectiveForEnvironment<Environment>(policies))
+      .toBe('object-src \'none\'; require-trusted-types-for \'script\'; trusted-types default dompurify');
+  });
 });
@@ -0,0 +1,140 @@
+import { NGINX_FORMATTER } from '@lib/csp-configuration-generation/ConfigurationFormatters';
+import {
+  computeCspBaselineDiff,
+  computeCspEnvironmentsDiff,
+  computeCspPolicyDiff,
+  computeCspRulesChangesSummary,
+  formatCspDirectiveDiff,
+  formatCspPolicyDiffReport,
+  parseCspPolicy,
+} from '@lib/csp-diff/CspPolicyDiff';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'staging';
+
+describe('parseCspPolicy', () => {
+  it('should parse the sources of each directive and keep the first occurrence of a directive', () => {
+    expect(parseCspPolicy('default-src \'self\';  IMG-SRC \'self\' data:; upgrade-insecure-requests; img-src *;')).toEqual(new Map([
+      ['default-src', ['\'self\'']],
+      ['img-src', ['\'self\'', 'data:']],
+      ['upgrade-insecure-requests', []],
+    ]));
+  });
+});
+
+describe('computeCspPolicyDiff', () => {
+  it('should list the added, removed and changed directives', () => {
+    expect(computeCspPolicyDiff(
+      'default-src \'self\'; script-src \'self\' \'unsafe-inline\'; frame-src \'none\'',
+      'default-src \'self\'; script-src \'self\' https://cdn.example.com; img-src \'self\' data:',
+    )).toEqual([
+      {
+        directive: 'script-src', status: 'changed', addedSources: ['https://cdn.example.com'], removedSources: ['\'unsafe-inline\''],
+      },
+      {
+        directive: 'img-src', status: 'added', addedSources: ['\'self\'', 'data:'], removedSources: [],
+      },
+      {
+        directive: 'frame-src', status: 'removed', addedSources: [], removedSources: ['\'none\''],
+      },
+    ]);
+  });
+});
+
+describe('formatCspDirectiveDiff', () => {
+  it('should format each kind of change', () => {
+    expect(formatCspDirectiveDiff({
+      directive: 'script-src', status: 'changed', addedSources: ['https://cdn.example.com'], removedSources: ['\'unsafe-inline\''],
+    })).toBe('script-src: +https://cdn.example.com -\'unsafe-inline\'');
+    expect(formatCspDirectiveDiff({
+      directive: 'img-src', status: 'added', addedSources: ['data:'], removedSources: [],
+    })).toBe('+ img-src data:');
+    expect(formatCspDirectiveDiff({
+      directive: 'frame-src', status: 'removed', addedSources: [], removedSources: ['\'none\''],
+    })).toBe('- frame-src');
+  });
+});
+
+describe('computeCspRulesChangesSummary', () => {
+  const previousRules: CspPolicies<Environment> = {
+    'default-src': '\'self\'',
+    'connect-src': { default: ['self'], production: ['https://api.example.com'] },
+  };
+
+  it('should summarize the changes of each environment', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+      'connect-src': { default: ['self'], production: ['https://api.example.com', 'https://events.example.com'] },
+    };
+
+    expect(computeCspRulesChangesSummary<Environment>(previousRules, rules, ['production', 'staging']))
+      .toEqual(['production: connect-src: +https://events.example.com']);
+  });
+
+  it('should compare the default policy without environments', () => {
+    expect(computeCspRulesChangesSummary<Environment>(previousRules, { 'default-src': '\'none\'' }))
+      .toEqual(['default: default-src: +\'none\' -\'self\', - connect-src']);
+  });
+});
+
+describe('computeCspEnvironmentsDiff', () => {
+  it('should compare the policies of two environments', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+      'connect-src': { default: ['self'], production: ['self', 'https://api.example.com'] },
+    };
+
+    expect(computeCspEnvironmentsDiff<Environment>(rules, 'staging', 'production')).toEqual({
+      from: 'staging',
+      to: 'production',
+      directives: [{
+        directive: 'connect-src', status: 'changed', addedSources: ['https://api.example.com'], removedSources: [],
+      }],
+    });
+  });
+});
+
+describe('computeCspBaselineDiff', () => {
+  it('should compare a committed configuration file with the current rules', () => {
+    const baseline: string = 'add_header Content-Security-Policy "default-src \'self\'; frame-src \'none\'" always;\n';
+
+    expect(computeCspBaselineDiff<Environment>({ 'default-src': '\'self\'' }, 'production', baseline, 'committed', NGINX_FORMATTER)).toEqual({
+      from: 'committed',
+      to: 'production',
+      directives: [{
+        directive: 'frame-src', status: 'removed', addedSources: [], removedSources: ['\'none\''],
+      }],
+    });
+  });
+});
+
+describe('formatCspPolicyDiffReport', () => {
+  it('should format the changes with one line per source', () => {
+    expect(formatCspPolicyDiffReport({
+      from: 'staging',
+      to: 'production',
+      directives: [
+        {
+          directive: 'script-src', status: 'changed', addedSources: ['https://cdn.example.com'], removedSources: ['\'unsafe-inline\''],
+        },
+        {
+          directive: 'img-src', status: 'added', addedSources: ['data:'], removedSources: [],
+        },
+        {
+          directive: 'frame-src', status: 'removed', addedSources: [], removedSources: ['\'none\''],
+        },
+      ],
+    })).toBe(`CSP policy changes from staging to production:
+  script-src
+    + https://cdn.example.com
+    - 'unsafe-inline'
+  + img-src data:
+  - frame-src 'none'
+`);
+  });
+
+  it('should tell when nothing changed', () => {
+    expect(formatCspPolicyDiffReport({ from: 'staging', to: 'production', directives: [] })).toBe('No CSP policy change from staging to production\n');
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  applyCspPoliciesEvaluation,
+  checkCspEvaluationScores,
+  computeCspPolicyScore,
+  CspEnvironmentEvaluation,
+  evaluateCspPolicies,
+  evaluateCspPolicy,
+  formatCspEvaluationReport,
+} from '@lib/csp-evaluation/CspPolicyEvaluation';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { mkdtemp, readFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'development' | 'production';
+
+const STRICT_POLICY: string = [
+  'script-src \'nonce-abc\' \'strict-dynamic\' https: \'unsafe-inline\'',
+  'object-src \'none\'',
+  'base-uri \'none\'',
+  'frame-ancestors \'self\'',
+  'report-to csp-endpoint',
+].join('; ');
+
+describe('evaluateCspPolicy', () => {
+  it('should not find any weakness in a strict policy', () => {
+    expect(evaluateCspPolicy(STRICT_POLICY)).toEqual([]);
+  });
+
+  it('should rank the findings of a missing policy by severity', () => {
+    expect(evaluateCspPolicy('img-src \'self\'')).toEqual([
+      { severity: 'high', directive: 'script-src', message: 'script-src and default-src are missing, scripts are allowed from any host' },
+      { severity: 'high', directive: 'object-src', message: 'object-src is missing, plugins can execute scripts from any host, set it to \'none\'' },
+      { severity: 'medium', directive: 'frame-ancestors', message: 'frame-ancestors is missing, the page can be framed by any site for clickjacking, set it to \'none\' or \'self\'' },
+      { severity: 'low', directive: 'base-uri', message: 'base-uri is missing, an injected <base> tag can change the URLs of the page, set it to \'none\' or \'self\'' },
+      { severity: 'info', directive: 'report-to', message: 'the violations are not reported, add report-to or report-uri' },
+    ]);
+  });
+
+  it('should find the unsafe keywords and the hosts allowing any script', () => {
+    const policy: string = 'default-src \'self\' \'unsafe-inline\' \'unsafe-eval\' https: https://*.example.com; base-uri \'self\'; frame-ancestors \'none\'; report-uri /csp';
+
+    expect(evaluateCspPolicy(policy).map(({ severity, directive, message }: { severity: string, directive: string, message: string }) => `${severity} ${directive} ${message}`)).toEqual([
+      'high default-src \'unsafe-inline\' allows the execution of injected inline scripts, use nonces or hashes instead',
+      'high default-src https: allows scripts from any host',
+      'medium default-src \'unsafe-eval\' allows the execution of strings as code with eval(), remove it if possible',
+      'medium default-src https://*.example.com allows scripts from any subdomain of example.com',
+      'medium object-src plugins can execute scripts, set object-src to \'none\'',
+      'low default-src host allowlists can often be bypassed, use nonces or hashes with \'strict-dynamic\' instead',
+    ]);
+  });
+
+  it('should find the hosts serving JSONP endpoints or AngularJS libraries', () => {
+    const policy: string = 'script-src \'sha256-abc=\' https://ajax.googleapis.com/ajax/libs/ https://*.google.com; object-src \'none\'; base-uri \'none\'; frame-ancestors \'none\'; report-to csp';
+
+    expect(evaluateCspPolicy(policy)).toEqual([
+      {
+        severity: 'high',
+        directive: 'script-src',
+        message: 'https://ajax.googleapis.com/ajax/libs/ allows ajax.googleapis.com, which serves AngularJS libraries bypassing the allowlist, use nonces or hashes with \'strict-dynamic\'',
+      },
+      {
+        severity: 'high',
+        directive: 'script-src',
+        message: 'https://*.google.com allows www.google.com, which serves JSONP endpoints bypassing the allowlist, use nonces or hashes with \'strict-dynamic\'',
+      },
+      {
+        severity: 'high',
+        directive: 'script-src',
+        message: 'https://*.google.com allows accounts.google.com, which serves JSONP endpoints bypassing the allowlist, use nonces or hashes with \'strict-dynamic\'',
+      },
+      { severity: 'medium', directive: 'script-src', message: 'https://*.google.com allows scripts from any subdomain of google.com' },
+    ]);
+  });
+
+  it('should find the misuses of strict-dynamic', () => {
+    const baseDirectives: string = 'object-src \'none\'; base-uri \'none\'; frame-ancestors \'none\'; report-to csp';
+
+    expect(evaluateCspPolicy(`script-src 'self' 'strict-dynamic' https://cdn.jsdelivr.net; ${baseDirectives}`)).toEqual([
+      { severity: 'medium', directive: 'script-src', message: '\'strict-dynamic\' without nonce or hash blocks every script, add a nonce or the hashes of the scripts' },
+    ]);
+    expect(evaluateCspPolicy(`script-src 'nonce-abc' 'strict-dynamic'; ${baseDirectives}`)).toEqual([{
+      severity: 'info',
+      directive: 'script-src',
+      message: 'add https: and \'unsafe-inline\' as fallbacks for the browsers not supporting \'strict-dynamic\', they are ignored by the others',
+    }]);
+  });
+
+  it('should evaluate script-src-elem before script-src', () => {
+    const policy: string = `script-src-elem 'self' 'unsafe-inline'; ${STRICT_POLICY}`;
+
+    expect(evaluateCspPolicy(policy).map(({ severity, directive }: { severity: string, directive: string }) => `${severity} ${directive}`)).toEqual([
+      'high script-src-elem',
+      'low script-src-elem',
+    ]);
+  });
+
+  it('should require base-uri when scripts are allowed by nonce', () => {
+    expect(evaluateCspPolicy('script-src \'nonce-abc\'; object-src \'none\'; frame-ancestors \'none\'; report-to csp')).toEqual([{
+      severity: 'high',
+      directive: 'base-uri',
+      message: 'base-uri is missing, an injected <base> tag can load the scripts allowed by nonce from another host, set it to \'none\' or \'self\'',
+    }]);
+  });
+});
+
+describe('computeCspPolicyScore', () => {
+  it('should remove points for each finding by severity', () => {
+    expect(computeCspPolicyScore(evaluateCspPolicy(STRICT_POLICY))).toBe(100);
+    expect(computeCspPolicyScore(evaluateCspPolicy('img-src \'self\''))).toBe(35);
+    expect(computeCspPolicyScore(evaluateCspPolicy('script-src * \'unsafe-inline\' \'unsafe-eval\''))).toBe(0);
+  });
+});
+
+describe('evaluateCspPolicies', () => {
+  const rules: CspPolicies<Environment> = {
+    'script-src': { default: ['nonce-{RANDOM}', 'strict-dynamic', 'https:', 'unsafe-inline'], development: { extend: ['unsafe-eval'] } },
+    'object-src': ['none'],
+    'base-uri': ['none'],
+    'frame-ancestors': ['self'],
+    'report-to': ['csp-endpoint'],
+  };
+
+  it('should evaluate the effective policy of each environment', () => {
+    const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<Environment>(rules, ['development', 'production']);
+
+    expect(report.map(({ environment, score }: CspEnvironmentEvaluation) => [environment, score])).toEqual([['default', 100], ['development', 90], ['production', 100]]);
+    expect(report[1].policy).toContain('script-src \'nonce-{RANDOM}\' \'strict-dynamic\' https: \'unsafe-inline\' \'unsafe-eval\'');
+  });
+
+  it('should evaluate the policies of the routes and the report-only policies of each environment', () => {
+    const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<Environment>(rules, ['production'], {
+      reportOnlyRules: { 'default-src': ['none'] },
+      routes: [{ path: '/widget/**', rules: { 'frame-ancestors': ['*'] } }],
+    });
+
+    expect(report.map(({ environment, score, reportOnly }: CspEnvironmentEvaluation) => [environment, score, reportOnly])).toEqual([
+      ['default', 100, undefined],
+      ['default (route /widget/**)', 100, undefined],
+      ['default (report-only)', 85, true],
+      ['production', 100, undefined],
+      ['production (route /widget/**)', 100, undefined],
+      ['production (report-only)', 85, true],
+    ]);
+    expect(report[4].policy).toContain('frame-ancestors *');
+  });
+
+  it('should flag the policies of the environments in report mode as report-only', () => {
+    const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<Environment>(rules, ['development', 'production'], {
+      routes: [{ path: '/widget/**', rules: { 'frame-ancestors': ['*'] } }],
+      reportType: { default: 'strict', development: 'report' },
+      includeDefault: false,
+    });
+
+    expect(report.map(({ environment, reportOnly }: CspEnvironmentEvaluation) => [environment, reportOnly])).toEqual([
+      ['development', true],
+      ['development (route /widget/**)', true],
+      ['production', undefined],
+      ['production (route /widget/**)', undefined],
+    ]);
+  });
+
+  it('should format the report for the console, as JSON and as Markdown', () => {
+    const report: CspEnvironmentEvaluation[] = evaluateCspPolicies<Environment>(rules, ['development']);
+
+    expect(formatCspEvaluationReport(report)).toBe([
+      'CSP policy evaluation of default: 100/100',
+      'CSP policy evaluation of development: 90/100',
+      '  medium script-src: \'unsafe-eval\' allows the execution of strings as code with eval(), remove it if possible',
+      '',
+    ].join('\n'));
+    expect(JSON.parse(formatCspEvaluationReport(report, 'json'))).toEqual(report);
+    expect(formatCspEvaluationReport(report, 'markdown')).toBe([
+      '## CSP policy evaluation',
+      '',
+      '| Environment | Score | High | Medium | Low | Info |',
+      '| --- | --- | --- | --- | --- | --- |',
+      '| default | 100/100 | 0 | 0 | 0 | 0 |',
+      '| development | 90/100 | 0 | 1 | 0 | 0 |',
+      '',
+      '### default',
+      '',
+      'No finding.',
+      '',
+      '### development',
+      '',
+      '| Severity | Directive | Finding |',
+      '| --- | --- | --- |',
+      '| medium | `script-src` | \'unsafe-eval\' allows the execution of strings as code with eval(), remove it if possible |',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('checkCspEvaluationScores', () => {
+  it('should only compare the enforced policies with the minimum score', () => {
+    const report: CspEnvironmentEvaluation[] = [
+      { environment: 'production', policy: '', score: 80, findings: [] },
+      { environment: 'production (report-only)', policy: '', score: 20, findings: [], reportOnly: true },
+      { environment: 'production (route /widget/**)', policy: '', score: 40, findings: [] },
+    ];
+
+    expect(() => checkCspEvaluationScores(report, 50)).toThrow('The CSP policy scores lower than 50/100 for: production (route /widget/**) (40/100)');
+    expect(() => checkCspEvaluationScores(report, 40)).not.toThrow();
+  });
+});
+
+describe('applyCspPoliciesEvaluation', () => {
+  it('should write the reports and throw when a policy scores lower than the minimum score', async () => {
+    const root: string = await mkdtemp(path.join(os.tmpdir(), 'csp-evaluation-'));
+    const rules: CspPolicies<Environment> = { 'default-src': { default: ['self'], development: ['self', 'unsafe-inline'] } };
+
+    await expect(applyCspPoliciesEvaluation<Environment>(rules, ['development'], root, { formats: ['json', 'markdown'], minimumScore: 50 }))
+      .rejects.toThrow('The CSP policy scores lower than 50/100 for: development (45/100)');
+    expect(JSON.parse(await readFile(path.join(root, 'content-security-policy/csp-evaluation.json'), 'utf-8'))).toHaveLength(2);
+    expect(await readFile(path.join(root, 'content-security-policy/csp-evaluation.md'), 'utf-8')).toContain('| development | 45/100 | 1 | 2 | 2 | 1 |');
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  computeCspHashSource,
+  computeInlineHashes,
+  computeRulesWithInlineHashes,
+  extractInlineContents,
+  InlineContents,
+  InlineHashes,
+} from '@lib/csp-hashes/CspInlineHashes';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'staging';
+
+const html: string = `<!doctype html>
+<html>
+  <head>
+    <script type="module" crossorigin src="/assets/index.js"></script>
+    <script>window.config = { onload: "x" };</script>
+    <style>body { margin: 0; }</style>
+  </head>
+  <body>
+    <button onclick="track(&quot;click&quot;)" style="color: red">Click</button>
+  </body>
+</html>`;
+
+const noHashes: InlineHashes = {
+  scripts: [],
+  styles: [],
+  scriptAttributes: [],
+  styleAttributes: [],
+};
+
+describe('computeCspHashSource', () => {
+  it('should compute a quoted sha256 hash source', () => {
+    expect(computeCspHashSource('alert(\'Hello, world.\');', 'sha256')).toBe('\'sha256-qznLcsROx4GACP2dm0UCKCzCG+HiZ1guq6ZZDob/Tng=\'');
+  });
+
+  it('should compute a quoted sha384 hash source', () => {
+    expect(computeCspHashSource('', 'sha384')).toBe('\'sha384-OLBgp1GsljhM2TJ+sbHjaiH9txEUvgdDTAzHv2P24donTt6/529l+9Ua0vFImLlb\'');
+  });
+});
+
+describe('extractInlineContents', () => {
+  it('should extract inline scripts, styles, event handlers and style attributes', () => {
+    const result: InlineContents = extractInlineContents(html);
+
+    expect(result).toEqual({
+      scripts: ['window.config = { onload: "x" };'],
+      styles: ['body { margin: 0; }'],
+      scriptAttributes: ['track("click")'],
+      styleAttributes: ['color: red'],
+    });
+  });
+});
+
+describe('computeInlineHashes', () => {
+  it('should deduplicate hashes of identical contents across documents', () => {
+    const result: InlineHashes = computeInlineHashes([html, html]);
+
+    expect(result.scripts).toHaveLength(1);
+    expect(result.scripts[0]).toMatch(/^'sha256-[A-Za-z0-9+/=]+'$/);
+    expect(result.scriptAttributes).toHaveLength(1);
+  });
+});
+
+describe('computeRulesWithInlineHashes', () => {
+  it('should add hashes to the generic directives for every environment', () => {
+    const rules: CspPolicies<Environment> = {
+      'script-src': {
+        default: '\'self\'',
+        production: '\'self\' https://cdn.example.com',
+      },
+      'style-src': '\'self\'',
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scripts: ['\'sha256-script\''],
+      styles: ['\'sha256-style\''],
+    });
+
+    expect(result).toEqual({
+      'script-src': {
+        default: '\'self\' \'sha256-script\'',
+        production: '\'self\' https://cdn.example.com \'sha256-script\'',
+      },
+      'style-src': '\'self\' \'sha256-style\'',
+    });
+  });
+
+  it('should prefer the specific directives when they are configured', () => {
+    const rules: CspPolicies<Environment> = {
+      'script-src': '\'self\'',
+      'script-src-attr': '\'none\'',
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scriptAttributes: ['\'sha256-handler\''],
+    });
+
+    expect(result).toEqual({
+      'script-src': '\'self\'',
+      'script-src-attr': '\'unsafe-hashes\' \'sha256-handler\'',
+    });
+  });
+
+  it('should create the directive from default-src when it is not configured', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scripts: ['\'sha256-script\''],
+    });
+
+    expect(result).toEqual({
+      'default-src': '\'self\'',
+      'script-src': '\'self\' \'sha256-script\'',
+    });
+  });
+
+  it('should remove none when hashes are added to the directive', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': ['none'],
+      'style-src': '\'none\'',
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scripts: ['\'sha256-script\''],
+      styles: ['\'sha256-style\''],
+    });
+
+    expect(result).toEqual({
+      'default-src': ['none'],
+      'script-src': ['\'sha256-script\''],
+      'style-src': '\'sha256-style\'',
+    });
+  });
+
+  it('should not add hashes to the sources allowing unsafe-inline without nonce or hash', () => {
+    const rules: CspPolicies<Environment> = {
+      'script-src': {
+        default: ['self', 'nonce-{RANDOM}', 'unsafe-inline'],
+        production: ['self'],
+        staging: '\'self\' \'unsafe-inline\'',
+      },
+      'style-src': ['self', 'unsafe-inline'],
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scripts: ['\'sha256-script\''],
+      styles: ['\'sha256-style\''],
+    });
+
+    expect(result).toEqual({
+      'script-src': {
+        default: ['self', 'nonce-{RANDOM}', 'unsafe-inline', '\'sha256-script\''],
+        production: ['self', '\'sha256-script\''],
+        staging: '\'self\' \'unsafe-inline\'',
+      },
+      'style-src': ['self', 'unsafe-inline'],
+    });
+  });
+
+  it('should not add hashes when inline contents are not restricted', () => {
+    const rules: CspPolicies<Environment> = {
+      'img-src': '\'self\'',
+    };
+
+    const result: CspPolicies<Environment> = computeRulesWithInlineHashes<Environment>(rules, {
+      ...noHashes,
+      scripts: ['\'sha256-script\''],
+    });
+
+    expect(result).toEqual(rules);
+  });
+});
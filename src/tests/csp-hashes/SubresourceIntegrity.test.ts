@@ -0,0 +1,62 @@
+import { computeHash } from '@lib/csp-hashes/CspInlineHashes';
+import {
+  computeHtmlWithIntegrity,
+  createResourceContentResolver,
+  ResourceContentResolver,
+} from '@lib/csp-hashes/SubresourceIntegrity';
+import { describe, expect, it } from 'vitest';
+
+const scriptContent: string = 'console.log("main");';
+const styleContent: string = 'body { margin: 0; }';
+const vendorContent: string = 'export const vendor = true;';
+
+const resolveResourceContent: ResourceContentResolver = createResourceContentResolver(new Map([
+  ['assets/index.js', scriptContent],
+  ['assets/index.css', styleContent],
+  ['assets/vendor.js', vendorContent],
+]));
+
+describe('createResourceContentResolver', () => {
+  it('should resolve built files from absolute and relative URLs', () => {
+    expect(resolveResourceContent('/assets/index.js')).toBe(scriptContent);
+    expect(resolveResourceContent('./assets/index.css?v=1')).toBe(styleContent);
+    expect(resolveResourceContent('https://cdn.example.com/app/assets/vendor.js')).toBe(vendorContent);
+  });
+
+  it('should not resolve unknown files', () => {
+    expect(resolveResourceContent('/assets/unknown.js')).toBeUndefined();
+  });
+});
+
+describe('computeHtmlWithIntegrity', () => {
+  it('should add integrity and crossorigin attributes to scripts, stylesheets and modulepreload links', () => {
+    const html: string = '<script type="module" crossorigin src="/assets/index.js"></script>'
+      + '<link rel="modulepreload" crossorigin href="/assets/vendor.js">'
+      + '<link rel="stylesheet" href="/assets/index.css" />';
+
+    const result: string = computeHtmlWithIntegrity(html, resolveResourceContent, {});
+
+    expect(result).toBe(
+      `<script type="module" crossorigin src="/assets/index.js" integrity="${computeHash(scriptContent, 'sha384')}"></script>`
+      + `<link rel="modulepreload" crossorigin href="/assets/vendor.js" integrity="${computeHash(vendorContent, 'sha384')}">`
+      + `<link rel="stylesheet" href="/assets/index.css" integrity="${computeHash(styleContent, 'sha384')}" crossorigin="anonymous"/>`,
+    );
+  });
+
+  it('should use the configured algorithm and crossorigin value', () => {
+    const html: string = '<script src="/assets/index.js"></script>';
+
+    const result: string = computeHtmlWithIntegrity(html, resolveResourceContent, { algorithm: 'sha512', crossOrigin: 'use-credentials' });
+
+    expect(result).toBe(`<script src="/assets/index.js" integrity="${computeHash(scriptContent, 'sha512')}" crossorigin="use-credentials"></script>`);
+  });
+
+  it('should leave unchanged tags with an integrity attribute, external resources and other links', () => {
+    const html: string = '<script src="/assets/index.js" integrity="sha384-existing"></script>'
+      + '<script src="https://analytics.example.com/script.js"></script>'
+      + '<link rel="icon" href="/assets/index.css">'
+      + '<script>console.log("inline")</script>';
+
+    expect(computeHtmlWithIntegrity(html, resolveResourceContent, {})).toBe(html);
+  });
+});
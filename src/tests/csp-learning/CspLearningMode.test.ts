@@ -0,0 +1,153 @@
+import {
+  computeGroupedOrigins,
+  computeLearnedPolicy,
+  computeLearnedPolicyFileContent,
+  computeLearnedSource,
+  createCspLearningModeHandler,
+} from '@lib/csp-learning/CspLearningMode';
+import { computeHash } from '@lib/csp-hashes/CspInlineHashes';
+import { computeCspPoliciesFromFileContent } from '@lib/csp-policy-file/CspPolicyFile';
+import { CspViolation } from '@lib/csp-report/CspReportCollector';
+import { mkdtemp, readFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+const DOCUMENT_URI: string = 'http://localhost:5173/';
+
+const violation = (directive: string, blockedUri: string, sample?: string): CspViolation => ({
+  documentUri: DOCUMENT_URI,
+  directive,
+  blockedUri,
+  sample,
+});
+
+describe('computeLearnedSource', () => {
+  it('should allow the blocked URLs by their origin', () => {
+    expect(computeLearnedSource(violation('script-src-elem', 'https://cdn.example.com/lib/app.js?v=1'))).toBe('https://cdn.example.com');
+    expect(computeLearnedSource(violation('connect-src', 'wss://realtime.example.com:8443/socket'))).toBe('wss://realtime.example.com:8443');
+  });
+
+  it('should allow the URLs of the document origin by self', () => {
+    expect(computeLearnedSource(violation('img-src', 'http://localhost:5173/logo.svg'))).toBe('self');
+    expect(computeLearnedSource(violation('connect-src', 'ws://localhost:5173/'))).toBe('self');
+  });
+
+  it('should allow eval and the schemes by their keyword', () => {
+    expect(computeLearnedSource(violation('script-src', 'eval'))).toBe('unsafe-eval');
+    expect(computeLearnedSource(violation('script-src', 'wasm-eval'))).toBe('wasm-unsafe-eval');
+    expect(computeLearnedSource(violation('img-src', 'data'))).toBe('data:');
+    expect(computeLearnedSource(violation('worker-src', 'blob:http://localhost:5173/1234'))).toBe('blob:');
+  });
+
+  it('should allow the inline code by the hash of its complete sample', () => {
+    expect(computeLearnedSource(violation('script-src-elem', 'inline', 'console.log(1)'))).toBe(computeHash('console.log(1)', 'sha256'));
+    expect(computeLearnedSource(violation('style-src-elem', 'inline', 'body{margin:0}'), 'sha384')).toBe(computeHash('body{margin:0}', 'sha384'));
+    expect(computeLearnedSource(violation('script-src-elem', 'inline', 'window.dataLayer = window.dataLayer || []'))).toBeUndefined();
+    expect(computeLearnedSource(violation('script-src-elem', 'inline'))).toBeUndefined();
+  });
+});
+
+describe('computeGroupedOrigins', () => {
+  it('should group the origins of at least 3 subdomains with a wildcard', () => {
+    expect(computeGroupedOrigins([
+      'self',
+      'https://a.example.com',
+      'https://b.example.com',
+      'https://c.example.com',
+      'http://d.example.com',
+      'https://cdn.other.com',
+      'https://api.other.com',
+    ])).toEqual(['self', 'http://d.example.com', 'https://cdn.other.com', 'https://api.other.com', 'https://*.example.com']);
+  });
+
+  it('should not group the top-level domains', () => {
+    expect(computeGroupedOrigins(['https://a.com', 'https://b.com', 'https://c.com'])).toEqual(['https://a.com', 'https://b.com', 'https://c.com']);
+  });
+});
+
+describe('computeLearnedPolicy', () => {
+  it('should suggest the rules allowing the violations', () => {
+    expect(computeLearnedPolicy([
+      violation('script-src-elem', 'http://localhost:5173/src/main.ts'),
+      violation('script-src-elem', 'https://www.googletagmanager.com/gtag/js'),
+      violation('script-src-elem', 'inline', 'console.log(1)'),
+      violation('script-src-attr', 'inline', 'track()'),
+      violation('style-src-elem', 'https://fonts.googleapis.com/css2'),
+      violation('img-src', 'data'),
+      violation('img-src', 'http://localhost:5173/logo.svg'),
+      violation('trusted-types', 'trusted-types-policy'),
+    ])).toEqual({
+      rules: {
+        'default-src': ['none'],
+        'script-src': [
+          'self',
+          'unsafe-hashes',
+          'https://www.googletagmanager.com',
+          ...[computeHash('console.log(1)', 'sha256'), computeHash('track()', 'sha256')].sort((hash: string, otherHash: string) => hash.localeCompare(otherHash)),
+        ],
+        'style-src': ['https://fonts.googleapis.com'],
+        'img-src': ['self', 'data:'],
+      },
+      notes: [],
+    });
+  });
+
+  it('should add a note for the inline code with a truncated sample', () => {
+    const truncatedViolation: CspViolation = {
+      ...violation('script-src-elem', 'inline', 'window.dataLayer = window.dataLayer || []'),
+      sourceFile: 'http://localhost:5173/',
+      lineNumber: 12,
+    };
+
+    expect(computeLearnedPolicy([truncatedViolation])).toEqual({
+      rules: { 'default-src': ['none'] },
+      notes: ['script-src: the inline code of http://localhost:5173/:12 cannot be hashed from its truncated sample, allow it with a nonce or a hash'],
+    });
+  });
+});
+
+describe('computeLearnedPolicyFileContent', () => {
+  const policy: { rules: { 'default-src': string[], 'img-src': string[] }, notes: string[] } = {
+    rules: { 'default-src': ['none'], 'img-src': ['self', 'data:'] },
+    notes: ['script-src: a note'],
+  };
+
+  it('should write a JSON policy file', () => {
+    const content: string = computeLearnedPolicyFileContent(policy, 'csp-learned-rules.json');
+
+    expect(computeCspPoliciesFromFileContent(JSON.parse(content), 'csp-learned-rules.json')).toEqual(policy.rules);
+  });
+
+  it('should write a TypeScript module exporting the rules', () => {
+    expect(computeLearnedPolicyFileContent(policy, 'csp-learned-rules.ts')).toBe([
+      '// Rules suggested by the CSP learning mode from the violations reported by the browser, review them before enforcing them',
+      '// - script-src: a note',
+      'import { CspPolicies } from \'vite-plugin-content-security-policy\';',
+      '',
+      'export const rules: CspPolicies = {',
+      '  \'default-src\': [\'none\'],',
+      '  \'img-src\': [\'self\', \'data:\'],',
+      '};',
+      '',
+      'export default rules;',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('createCspLearningModeHandler', () => {
+  it('should write the rules suggested from the received violations', async () => {
+    const root: string = await mkdtemp(path.join(os.tmpdir(), 'csp-learning-'));
+    const handleViolations: (violations: CspViolation[]) => Promise<void> = createCspLearningModeHandler(root, { outputPath: 'csp/learned.json' });
+
+    await handleViolations([violation('img-src', 'https://images.example.com/a.png')]);
+    await handleViolations([violation('img-src', 'https://images.example.com/b.png'), violation('font-src', 'data')]);
+
+    expect(JSON.parse(await readFile(path.join(root, 'csp/learned.json'), 'utf-8'))).toEqual({
+      'default-src': ['none'],
+      'img-src': ['https://images.example.com'],
+      'font-src': ['data:'],
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  computeCspMetaTag,
+  computeCspMetaTagPolicy,
+  computeCspMetaTagPolicyForEnvironment,
+  computeCspMetaTagPolicyWithInlineHashes,
+} from '@lib/csp-meta-tag/CspMetaTag';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'staging' | 'production';
+
+const rules: CspPolicies<Environment> = {
+  'default-src': ['self'],
+  'frame-ancestors': ['none'],
+  'report-uri': { default: '/csp-report', production: 'https://reports.example.com' },
+};
+
+describe('computeCspMetaTagPolicy', () => {
+  it('should remove the directives not supported in meta tags', () => {
+    expect(computeCspMetaTagPolicy('default-src \'self\'; frame-ancestors \'none\'; Sandbox allow-scripts; report-uri /csp-report')).toEqual({
+      policy: 'default-src \'self\'',
+      droppedDirectives: ['frame-ancestors', 'sandbox', 'report-uri'],
+    });
+  });
+
+  it('should keep a policy without unsupported directives', () => {
+    expect(computeCspMetaTagPolicy('default-src \'self\'; img-src data:')).toEqual({
+      policy: 'default-src \'self\'; img-src data:',
+      droppedDirectives: [],
+    });
+  });
+});
+
+describe('computeCspMetaTagPolicyForEnvironment', () => {
+  it('should compute the policy of the environment without the unsupported directives', () => {
+    expect(computeCspMetaTagPolicyForEnvironment<Environment>(rules, 'production')).toBe('default-src \'self\'');
+  });
+
+  it('should not write a policy for an environment in report mode', () => {
+    const reportType: { default: 'strict', staging: 'report' } = { default: 'strict', staging: 'report' };
+
+    expect(computeCspMetaTagPolicyForEnvironment<Environment>(rules, 'staging', reportType)).toBeUndefined();
+    expect(computeCspMetaTagPolicyForEnvironment<Environment>(rules, 'production', reportType)).toBe('default-src \'self\'');
+  });
+
+  it('should ignore the report-only rules', () => {
+    expect(computeCspMetaTagPolicyForEnvironment<Environment>(rules, undefined, undefined, { 'script-src': ['self'] }))
+      .toBe('default-src \'self\'');
+  });
+
+  it('should not write a policy when only unsupported directives are configured', () => {
+    expect(computeCspMetaTagPolicyForEnvironment<Environment>({ 'frame-ancestors': ['none'] })).toBeUndefined();
+  });
+});
+
+describe('computeCspMetaTagPolicyWithInlineHashes', () => {
+  it('should add the hashes of the inline contents of the document to the policy', () => {
+    const html: string = '<html><head><script>console.log(1)</script></head><body><script src="/main.js"></script></body></html>';
+
+    expect(computeCspMetaTagPolicyWithInlineHashes<Environment>(rules, html, 'production'))
+      .toBe('default-src \'self\'; script-src \'self\' \'sha256-CihokcEcBW4atb/CW/XWsvWwbTjqwQlE9nj9ii5ww5M=\'');
+  });
+
+  it('should not add the hashes where the rules allow \'unsafe-inline\'', () => {
+    expect(computeCspMetaTagPolicyWithInlineHashes<Environment>({ 'script-src': ['self', 'unsafe-inline'] }, '<script>console.log(1)</script>'))
+      .toBe('script-src \'self\' \'unsafe-inline\'');
+  });
+});
+
+describe('computeCspMetaTag', () => {
+  it('should prepend the meta tag to the head element', () => {
+    expect(computeCspMetaTag('default-src \'self\'')).toEqual({
+      tag: 'meta',
+      attrs: { 'http-equiv': 'Content-Security-Policy', content: 'default-src \'self\'' },
+      injectTo: 'head-prepend',
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  computeCspPoliciesFromFileContent,
+  computeCspPoliciesJsonSchema,
+  CspPolicyFileContent,
+  loadCspPolicyFile,
+  loadCspPolicyFileContent,
+  parseCspPolicyFileContent,
+  validateAgainstSchema,
+} from '@lib/csp-policy-file/CspPolicyFile';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { mkdtemp, readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'development';
+
+describe('computeCspPoliciesJsonSchema', () => {
+  it('should match the published schema', async () => {
+    const publishedSchema: string = await readFile(path.resolve(__dirname, '../../../schema/csp-policies.schema.json'), 'utf-8');
+
+    expect(JSON.parse(publishedSchema)).toEqual(JSON.parse(JSON.stringify(computeCspPoliciesJsonSchema())));
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('should accept source lists, environment overrides and flags', () => {
+    const rules: unknown = {
+      $schema: './node_modules/vite-plugin-content-security-policy/schema/csp-policies.schema.json',
+      'default-src': '\'self\'',
+      'script-src': ['self', 'https://cdn.example.com'],
+      'connect-src': {
+        default: ['self'],
+        development: { extend: ['ws://localhost:5173'] },
+        production: 'https://api.example.com',
+      },
+      'upgrade-insecure-requests': { default: true, development: false },
+    };
+
+    expect(validateAgainstSchema(rules, computeCspPoliciesJsonSchema())).toEqual([]);
+  });
+
+  it('should report unknown directives and invalid values', () => {
+    const rules: unknown = {
+      'script-scr': '\'self\'',
+      'img-src': 42,
+      'connect-src': { development: ['self'] },
+      'style-src': ['self', true],
+      'upgrade-insecure-requests': 'yes',
+    };
+
+    expect(validateAgainstSchema(rules, computeCspPoliciesJsonSchema())).toEqual([
+      'script-scr is not a supported property',
+      'img-src must be a policy string, a list of sources, or an object of values by environment with a default value',
+      'connect-src must be a policy string, a list of sources, or an object of values by environment with a default value',
+      'style-src must be a policy string, a list of sources, or an object of values by environment with a default value',
+      'upgrade-insecure-requests must be a boolean, or an object of booleans by environment with a default value',
+    ]);
+  });
+
+  it('should report a policy that is not an object', () => {
+    expect(validateAgainstSchema(['self'], computeCspPoliciesJsonSchema())).toEqual(['policy must be of type object, found array']);
+  });
+});
+
+describe('parseCspPolicyFileContent', () => {
+  it('should parse YAML files', () => {
+    const content: string = `
+default-src: "'self'"
+connect-src:
+  default: [self]
+  development:
+    extend: ['ws://localhost:5173']
+`;
+
+    expect(parseCspPolicyFileContent(content, 'csp.yml')).toEqual({
+      'default-src': '\'self\'',
+      'connect-src': { default: ['self'], development: { extend: ['ws://localhost:5173'] } },
+    });
+  });
+
+  it('should reject unsupported extensions', () => {
+    expect(() => parseCspPolicyFileContent('{}', 'csp.toml'))
+      .toThrow('Unsupported CSP policy file extension ".toml", use .json, .yaml, .yml or a JavaScript or TypeScript module');
+  });
+});
+
+describe('computeCspPoliciesFromFileContent', () => {
+  it('should remove the $schema property', () => {
+    expect(computeCspPoliciesFromFileContent({ $schema: 'schema.json', 'default-src': '\'self\'' }, 'csp.json'))
+      .toEqual({ 'default-src': '\'self\'' });
+  });
+
+  it('should throw with every schema error', () => {
+    expect(() => computeCspPoliciesFromFileContent({ 'script-scr': '\'self\'', 'img-src': 42 }, 'csp.json'))
+      .toThrow(`Invalid CSP policy file csp.json:
+  - script-scr is not a supported property
+  - img-src must be a policy string, a list of sources, or an object of values by environment with a default value`);
+  });
+});
+
+describe('loadCspPolicyFile', () => {
+  it('should load a JSON policy file', async () => {
+    const directory: string = await mkdtemp(path.join(os.tmpdir(), 'csp-policy-file-'));
+    const filePath: string = path.join(directory, 'csp.json');
+    await writeFile(filePath, JSON.stringify({ 'default-src': ['self'], 'img-src': { default: ['self'], production: ['https://img.example.com'] } }));
+
+    const rules: CspPolicies<Environment> = await loadCspPolicyFile<Environment>(filePath);
+
+    expect(rules).toEqual({ 'default-src': ['self'], 'img-src': { default: ['self'], production: ['https://img.example.com'] } });
+  });
+});
+
+describe('loadCspPolicyFileContent', () => {
+  it('should import the rules of a TypeScript module and list its dependencies', async () => {
+    const directory: string = await mkdtemp(path.join(os.tmpdir(), 'csp-policy-module-'));
+    const filePath: string = path.join(directory, 'csp-rules.ts');
+    await writeFile(path.join(directory, 'hosts.ts'), 'export const API_HOST: string = \'https://api.example.com\';\n');
+    await writeFile(filePath, `import { API_HOST } from './hosts';
+
+export default { 'default-src': ['self'], 'connect-src': ['self', API_HOST] };
+`);
+
+    const content: CspPolicyFileContent = await loadCspPolicyFileContent(filePath);
+
+    expect(content.rules).toEqual({ 'default-src': ['self'], 'connect-src': ['self', 'https://api.example.com'] });
+    expect(content.dependencies).toEqual([filePath, path.join(directory, 'hosts.ts')]);
+  });
+
+  it('should reject modules that do not export the rules', async () => {
+    const directory: string = await mkdtemp(path.join(os.tmpdir(), 'csp-policy-module-'));
+    const filePath: string = path.join(directory, 'csp-rules.mjs');
+    await writeFile(filePath, 'export const CSP_RULES = {};\n');
+
+    await expect(loadCspPolicyFileContent(filePath))
+      .rejects.toThrow(`CSP policy module ${filePath} must export the rules as default export or as "rules"`);
+  });
+});
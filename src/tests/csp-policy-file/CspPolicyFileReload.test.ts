@@ -0,0 +1,69 @@
+import { isViteConfigurationDependency, watchCspPolicyFile } from '@lib/csp-policy-file/CspPolicyFileReload';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { EventEmitter } from 'events';
+import { mkdtemp, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ResolvedConfig, ViteDevServer } from 'vite';
+import {
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+type FakeWatcher = EventEmitter & { add: (paths: string | string[]) => void, watchedPaths: string[] };
+
+const createFakeServer = (): { server: ViteDevServer, watcher: FakeWatcher } => {
+  const watcher: FakeWatcher = Object.assign(new EventEmitter(), {
+    watchedPaths: [] as string[],
+    add(paths: string | string[]) {
+      this.watchedPaths.push(...(Array.isArray(paths) ? paths : [paths]));
+    },
+  });
+  return { server: { watcher } as unknown as ViteDevServer, watcher };
+};
+
+const createPolicyFile = async (content: string): Promise<string> => {
+  const directory: string = await mkdtemp(path.join(os.tmpdir(), 'csp-policy-reload-'));
+  const filePath: string = path.join(directory, 'csp.json');
+  await writeFile(filePath, content);
+  return filePath;
+};
+
+describe('watchCspPolicyFile', () => {
+  it('should reload the rules once after several changes', async () => {
+    const filePath: string = await createPolicyFile('{ "default-src": ["self"] }');
+    const { server, watcher } = createFakeServer();
+    const reloadedRules: CspPolicies[] = [];
+    watchCspPolicyFile(server, {
+      filePath,
+      rules: { 'default-src': ['none'] },
+      onReload: (rules: CspPolicies) => {
+        reloadedRules.push(rules);
+      },
+      delay: 10,
+    });
+
+    watcher.emit('change', filePath);
+    watcher.emit('change', path.join(path.dirname(filePath), 'other.json'));
+    watcher.emit('change', filePath);
+    await vi.waitFor(() => expect(reloadedRules).toHaveLength(1));
+
+    expect(watcher.watchedPaths).toContain(filePath);
+    expect(reloadedRules).toEqual([{ 'default-src': ['self'] }]);
+  });
+});
+
+describe('isViteConfigurationDependency', () => {
+  it('should match the Vite configuration file and its dependencies', () => {
+    const config: ResolvedConfig = {
+      configFile: '/project/vite.config.ts',
+      configFileDependencies: ['/project/vite.config.ts', '/project/csp/csp-configuration.ts'],
+    } as ResolvedConfig;
+
+    expect(isViteConfigurationDependency(config, '/project/vite.config.ts')).toBe(true);
+    expect(isViteConfigurationDependency(config, '/project/csp/csp-configuration.ts')).toBe(true);
+    expect(isViteConfigurationDependency(config, '/other/csp/csp-configuration.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  computeRoutesWithPresets,
+  computeRulesWithPresets,
+  CSP_PRESETS,
+  CspPresetName,
+  resolveCspPreset,
+} from '@lib/csp-presets/CspPresets';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { CspRoutePolicy } from '@lib/csp-routes/CspRoutes';
+import { validateCspPolicies } from '@lib/csp-validation/CspPolicyValidation';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'staging' | 'production';
+
+describe('resolveCspPreset', () => {
+  it('should resolve a preset by its name', () => {
+    expect(resolveCspPreset('google-fonts')).toEqual({
+      'style-src': ['https://fonts.googleapis.com'],
+      'font-src': ['https://fonts.gstatic.com'],
+    });
+  });
+
+  it('should return a custom preset', () => {
+    expect(resolveCspPreset({ 'connect-src': ['https://api.example.com'] })).toEqual({ 'connect-src': ['https://api.example.com'] });
+  });
+
+  it('should throw for an unknown preset name', () => {
+    expect(() => resolveCspPreset('unknown' as CspPresetName)).toThrow('Unknown CSP preset "unknown"');
+  });
+});
+
+describe('computeRulesWithPresets', () => {
+  it('should add the sources of the presets to the configured directives', () => {
+    const rules: CspPolicies<never> = {
+      'default-src': ['self'],
+      'style-src': ['self', 'unsafe-inline'],
+      'font-src': 'https://fonts.example.com',
+      'script-src': ['self'],
+    };
+
+    expect(computeRulesWithPresets(rules, ['google-fonts', 'stripe'])).toEqual({
+      'default-src': ['self'],
+      'style-src': ['self', 'unsafe-inline', 'https://fonts.googleapis.com'],
+      'font-src': 'https://fonts.example.com https://fonts.gstatic.com',
+      'script-src': ['self', 'https://js.stripe.com', 'https://*.js.stripe.com'],
+      'frame-src': ['self', 'https://js.stripe.com', 'https://*.js.stripe.com', 'https://hooks.stripe.com'],
+      'connect-src': ['self', 'https://api.stripe.com'],
+    });
+  });
+
+  it('should not duplicate the sources shared by several presets', () => {
+    const rules: CspPolicies<never> = { 'font-src': ['self'] };
+
+    expect(computeRulesWithPresets(rules, ['google-fonts', 'google-tag-manager'])['font-src']).toEqual(['self', 'https://fonts.gstatic.com']);
+  });
+
+  it('should not add the sources of a directive restricted neither by itself nor by default-src', () => {
+    const rules: CspPolicies<never> = { 'script-src': ['self'] };
+
+    expect(computeRulesWithPresets(rules, ['google-fonts'])).toEqual({ 'script-src': ['self'] });
+  });
+
+  it('should replace \'none\' with the sources of the presets', () => {
+    const rules: CspPolicies<never> = { 'default-src': ['self'], 'frame-src': ['none'], 'img-src': '\'none\'' };
+
+    expect(computeRulesWithPresets(rules, ['youtube'])).toEqual({
+      'default-src': ['self'],
+      'frame-src': ['https://www.youtube.com', 'https://www.youtube-nocookie.com'],
+      'img-src': 'https://i.ytimg.com',
+    });
+  });
+
+  it('should add the sources of the presets for every environment', () => {
+    const rules: CspPolicies<Environment> = {
+      'connect-src': { default: ['self'], staging: { extend: ['https://staging.example.com'] }, production: 'https://api.example.com' },
+    };
+
+    expect(computeRulesWithPresets<Environment>(rules, ['sentry'])['connect-src']).toEqual({
+      default: ['self', 'https://*.ingest.sentry.io', 'https://*.ingest.us.sentry.io', 'https://*.ingest.de.sentry.io'],
+      staging: { extend: ['https://staging.example.com', 'https://*.ingest.sentry.io', 'https://*.ingest.us.sentry.io', 'https://*.ingest.de.sentry.io'] },
+      production: 'https://api.example.com https://*.ingest.sentry.io https://*.ingest.us.sentry.io https://*.ingest.de.sentry.io',
+    });
+  });
+
+  it('should add the sources of a custom preset', () => {
+    const rules: CspPolicies<never> = { 'default-src': ['self'] };
+
+    expect(computeRulesWithPresets(rules, [{ 'connect-src': ['https://api.example.com'] }])).toEqual({
+      'default-src': ['self'],
+      'connect-src': ['self', 'https://api.example.com'],
+    });
+  });
+
+  it('should return the rules without presets', () => {
+    const rules: CspPolicies<never> = { 'default-src': ['self'] };
+
+    expect(computeRulesWithPresets(rules)).toBe(rules);
+  });
+
+  it('should only add valid sources', () => {
+    const rules: CspPolicies<never> = { 'default-src': ['self'] };
+
+    expect(validateCspPolicies(computeRulesWithPresets(rules, Object.keys(CSP_PRESETS) as CspPresetName[]))).toEqual([]);
+  });
+});
+
+describe('computeRoutesWithPresets', () => {
+  it('should add the sources of the presets to the directives replaced by the routes', () => {
+    const routes: CspRoutePolicy<never>[] = [{ path: '/payment/**', rules: { 'frame-src': ['self'], 'frame-ancestors': ['none'] } }];
+
+    expect(computeRoutesWithPresets(routes, ['stripe'])).toEqual([{
+      path: '/payment/**',
+      rules: {
+        'frame-src': ['self', 'https://js.stripe.com', 'https://*.js.stripe.com', 'https://hooks.stripe.com'],
+        'frame-ancestors': ['none'],
+      },
+    }]);
+  });
+});
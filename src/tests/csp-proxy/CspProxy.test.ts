@@ -1,6 +1,19 @@
-import { generateNonce, replaceNoncePlaceholder } from '@lib/csp-proxy/CspProxy';
+import {
+  configureCspProxyServer,
+  CspFastifyHook,
+  createCspConnectMiddleware,
+  createCspFastifyHook,
+  createCspRequestHandler,
+  CspRequestHandler,
+  CspRequestResult,
+  generateNonce,
+  getCurrentRequestNonce,
+  replaceNoncePlaceholder,
+} from '@lib/csp-proxy/CspProxy';
 import { computeCspDirectiveForEnvironment } from '@lib/csp/ComputeOriginForEnvironment';
 import { CspPolicies } from '@lib/csp/CspDirectives';
+import * as http from 'node:http';
+import { Connect, ViteDevServer } from 'vite';
 import { describe, expect, it } from 'vitest';
 
 const noncePlaceholder: string = '{RANDOM}';
@@ -122,3 +135,292 @@ describe('computeCspDirectiveForEnvironment', () => {
     expect(result).toBe('default-src \'self\'; script-src \'self\' \'unsafe-inline\'');
   });
 });
+
+type ProxyResult = {
+  headers: Record<string, string | number>,
+  requestNonce?: string,
+  body?: string,
+};
+
+const createProxyMiddleware = (
+  rules: CspPolicies,
+  nonce: string,
+  perRequest: boolean,
+  injectInTags?: boolean,
+): Connect.NextHandleFunction => {
+  let middleware: Connect.NextHandleFunction | undefined;
+  const server: ViteDevServer = {
+    middlewares: {
+      use: (handler: Connect.NextHandleFunction) => {
+        middleware = handler;
+      },
+    },
+  } as unknown as ViteDevServer;
+
+  configureCspProxyServer(server, rules, nonce, 'strict', undefined, { nonceTemplate: noncePlaceholder, perRequest, injectInTags });
+
+  return middleware as Connect.NextHandleFunction;
+};
+
+const executeRequest = (
+  middleware: Connect.NextHandleFunction,
+  sendResponse?: (response: http.ServerResponse) => void,
+): ProxyResult => {
+  const result: ProxyResult = { headers: {} };
+  const request: Connect.IncomingMessage = { headers: { accept: 'text/html' } } as Connect.IncomingMessage;
+  const response: http.ServerResponse = {
+    setHeader: (name: string, value: string | number) => {
+      result.headers[name] = value;
+    },
+    getHeader: (name: string) => result.headers[name],
+    removeHeader: (name: string) => {
+      delete result.headers[name];
+    },
+    writeHead: () => response,
+    write: () => true,
+    end: (body?: string) => {
+      result.body = body;
+      return response;
+    },
+  } as unknown as http.ServerResponse;
+
+  middleware(request, response, () => {
+    result.requestNonce = getCurrentRequestNonce();
+    sendResponse?.(response);
+  });
+
+  return result;
+};
+
+describe('configureCspProxyServer', () => {
+  const rules: CspPolicies = {
+    'script-src': `'self' 'nonce-${noncePlaceholder}'`,
+  };
+
+  it('should use the same nonce for every request by default', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware(rules, 'server-nonce', false);
+
+    const firstResult: ProxyResult = executeRequest(middleware);
+    const secondResult: ProxyResult = executeRequest(middleware);
+
+    expect(firstResult.headers['Content-Security-Policy']).toBe('script-src \'self\' \'nonce-server-nonce\'');
+    expect(secondResult.headers['Content-Security-Policy']).toBe('script-src \'self\' \'nonce-server-nonce\'');
+    expect(firstResult.requestNonce).toBeUndefined();
+  });
+
+  it('should generate a different nonce for each request when nonces are generated per request', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware(rules, 'server-nonce', true);
+
+    const firstResult: ProxyResult = executeRequest(middleware);
+    const secondResult: ProxyResult = executeRequest(middleware);
+
+    expect(firstResult.requestNonce).toBeDefined();
+    expect(secondResult.requestNonce).toBeDefined();
+    expect(firstResult.requestNonce).not.toBe(secondResult.requestNonce);
+    expect(firstResult.headers['Content-Security-Policy']).toBe(`script-src 'self' 'nonce-${firstResult.requestNonce}'`);
+    expect(secondResult.headers['Content-Security-Policy']).toBe(`script-src 'self' 'nonce-${secondResult.requestNonce}'`);
+  });
+
+  it('should write the nonce in HTML responses', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware(rules, 'server-nonce', false, true);
+
+    const result: ProxyResult = executeRequest(middleware, (response: http.ServerResponse) => {
+      response.writeHead(200, { 'Content-Type': 'text/html', 'Content-Length': 10 });
+      response.write('<script nonce="{RANDOM}">a</script>');
+      response.end('<link rel="stylesheet" href="/a.css"><style>b</style>');
+    });
+
+    expect(result.body).toBe(
+      '<script nonce="server-nonce">a</script><link rel="stylesheet" href="/a.css" nonce="server-nonce"><style nonce="server-nonce">b</style>',
+    );
+    expect(result.headers['Content-Length']).toBe(Buffer.byteLength(result.body ?? ''));
+  });
+
+  it('should only replace the nonce placeholder in HTML responses by default', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware(rules, 'server-nonce', false);
+
+    const result: ProxyResult = executeRequest(middleware, (response: http.ServerResponse) => {
+      response.setHeader('Content-Type', 'text/html');
+      response.end('<script nonce="{RANDOM}">a</script><div><script>injected()</script></div>');
+    });
+
+    expect(result.body).toBe('<script nonce="server-nonce">a</script><div><script>injected()</script></div>');
+  });
+
+  it('should not rewrite responses that are not HTML', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware(rules, 'server-nonce', false);
+
+    const result: ProxyResult = executeRequest(middleware, (response: http.ServerResponse) => {
+      response.setHeader('Content-Type', 'application/javascript');
+      response.end('const a = "{RANDOM}";');
+    });
+
+    expect(result.body).toBe('const a = "{RANDOM}";');
+  });
+
+  it('should replace the nonce placeholder in source lists', () => {
+    const middleware: Connect.NextHandleFunction = createProxyMiddleware({
+      'script-src': ['self', `nonce-${noncePlaceholder}`],
+    }, 'server-nonce', false);
+
+    const result: ProxyResult = executeRequest(middleware);
+
+    expect(result.headers['Content-Security-Policy']).toBe('script-src \'self\' \'nonce-server-nonce\'');
+  });
+});
+
+describe('createCspRequestHandler', () => {
+  const rules: CspPolicies<Environment> = {
+    'default-src': '\'self\'',
+    'script-src': {
+      default: `'self' 'nonce-${noncePlaceholder}'`,
+      production: `'nonce-${noncePlaceholder}' 'strict-dynamic'`,
+    },
+  };
+
+  it('should apply the policy of the environment with the report type header', () => {
+    const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>({
+      rules,
+      environment: 'production',
+      reportType: 'report',
+      noncesConfiguration: { nonceTemplate: noncePlaceholder },
+    }, 'fixed-nonce');
+
+    expect(handleRequest()).toEqual({
+      nonce: 'fixed-nonce',
+      headers: {
+        'Content-Security-Policy-Report-Only': 'default-src \'self\'; script-src \'nonce-fixed-nonce\' \'strict-dynamic\'',
+      },
+    });
+  });
+
+  it('should enforce the rules and report the report-only rules, both with the nonce', () => {
+    const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>({
+      rules,
+      environment: 'production',
+      reportType: { default: 'report', production: 'strict' },
+      reportOnlyRules: { 'script-src': `'nonce-${noncePlaceholder}'` },
+      noncesConfiguration: { nonceTemplate: noncePlaceholder },
+    }, 'fixed-nonce');
+
+    expect(handleRequest().headers).toEqual({
+      'Content-Security-Policy': 'default-src \'self\'; script-src \'nonce-fixed-nonce\' \'strict-dynamic\'',
+      'Content-Security-Policy-Report-Only': 'script-src \'nonce-fixed-nonce\'',
+    });
+  });
+
+  it('should add the security headers of the environment after the CSP headers', () => {
+    const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>({
+      rules: { 'default-src': '\'self\'' },
+      environment: 'staging',
+      securityHeaders: {
+        default: { contentTypeOptions: 'nosniff', strictTransportSecurity: { maxAge: 31536000 } },
+        staging: { strictTransportSecurity: false },
+      },
+    });
+
+    expect(handleRequest().headers).toEqual({
+      'Content-Security-Policy': 'default-src \'self\'',
+      'X-Content-Type-Options': 'nosniff',
+    });
+  });
+
+  it('should not return a nonce without nonces configuration', () => {
+    const result: CspRequestResult = createCspRequestHandler<Environment>({ rules: { 'default-src': '\'self\'' } })();
+
+    expect(result).toEqual({ nonce: undefined, headers: { 'Content-Security-Policy': 'default-src \'self\'' } });
+  });
+
+  it('should read the rules of each request from a rules provider', () => {
+    let currentRules: CspPolicies<Environment> = { 'default-src': '\'self\'' };
+    const handleRequest: CspRequestHandler = createCspRequestHandler<Environment>({ rules: () => currentRules });
+
+    expect(handleRequest().headers).toEqual({ 'Content-Security-Policy': 'default-src \'self\'' });
+    currentRules = { 'default-src': '\'none\'' };
+    expect(handleRequest().headers).toEqual({ 'Content-Security-Policy': 'default-src \'none\'' });
+  });
+
+  it('should add the Reporting-Endpoints header with the request host when the report collector is enabled', () => {
+    const result: CspRequestResult = createCspRequestHandler<Environment>({
+      rules: { 'default-src': '\'self\'' },
+      reportCollectorConfiguration: {},
+    })('localhost:4173');
+
+    expect(result.headers['Reporting-Endpoints']).toBe('csp-endpoint="http://localhost:4173/__csp-report"');
+  });
+});
+
+describe('createCspConnectMiddleware', () => {
+  const executeMiddlewareRequest = (middleware: Connect.NextHandleFunction, url: string, accept: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    const request: Connect.IncomingMessage = { url, headers: { accept } } as Connect.IncomingMessage;
+    const response: http.ServerResponse = {
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      },
+    } as unknown as http.ServerResponse;
+    middleware(request, response, () => undefined);
+    return headers;
+  };
+
+  it('should point the Reporting-Endpoints header to the protocol of the request', () => {
+    const middleware: Connect.NextHandleFunction = createCspConnectMiddleware<Environment>({
+      rules: { 'default-src': ['self'] },
+      reportCollectorConfiguration: {},
+    });
+    const headers: Record<string, string> = {};
+    const request: Connect.IncomingMessage = {
+      url: '/',
+      headers: { host: 'example.com', accept: 'text/html', 'x-forwarded-proto': 'https' },
+    } as unknown as Connect.IncomingMessage;
+    const response: http.ServerResponse = {
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      },
+    } as unknown as http.ServerResponse;
+
+    middleware(request, response, () => undefined);
+
+    expect(headers['Reporting-Endpoints']).toBe('csp-endpoint="https://example.com/__csp-report"');
+  });
+
+  it('should apply the route policies only to the documents of their paths', () => {
+    const middleware: Connect.NextHandleFunction = createCspConnectMiddleware<Environment>({
+      rules: { 'default-src': ['self'], 'frame-ancestors': ['none'] },
+      routes: [{ path: '/widget/**', rules: { 'frame-ancestors': ['https://partner.example.com'] } }],
+    });
+
+    expect(executeMiddlewareRequest(middleware, '/widget/index.html?theme=dark', 'text/html')['Content-Security-Policy'])
+      .toBe('default-src \'self\'; frame-ancestors https://partner.example.com');
+    expect(executeMiddlewareRequest(middleware, '/widget/main.js', '*/*')['Content-Security-Policy'])
+      .toBe('default-src \'self\'; frame-ancestors \'none\'');
+    expect(executeMiddlewareRequest(middleware, '/index.html', 'text/html')['Content-Security-Policy'])
+      .toBe('default-src \'self\'; frame-ancestors \'none\'');
+  });
+});
+
+describe('createCspFastifyHook', () => {
+  it('should set the headers on the reply and expose the request nonce', () => {
+    const headers: Record<string, string> = {};
+    let requestNonce: string | undefined;
+    const hook: CspFastifyHook = createCspFastifyHook<Environment>({
+      rules: { 'script-src': `'nonce-${noncePlaceholder}'` },
+      noncesConfiguration: { nonceTemplate: noncePlaceholder, perRequest: true },
+    });
+
+    hook(
+      { headers: {} },
+      {
+        header: (name: string, value: string) => {
+          headers[name] = value;
+        },
+      },
+      () => {
+        requestNonce = getCurrentRequestNonce();
+      },
+    );
+
+    expect(requestNonce).toBeDefined();
+    expect(headers['Content-Security-Policy']).toBe(`script-src 'nonce-${requestNonce}'`);
+  });
+});
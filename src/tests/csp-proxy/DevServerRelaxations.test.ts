@@ -0,0 +1,94 @@
+import {
+  computeDevServerRelaxations,
+  computeHmrSource,
+  computeRulesWithDevServerRelaxations,
+  DevServerRelaxation,
+} from '@lib/csp-proxy/DevServerRelaxations';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { ResolvedServerOptions } from 'vite';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'development';
+
+const createServerOptions = (options: Partial<ResolvedServerOptions>): ResolvedServerOptions => ({
+  port: 5173,
+  strictPort: false,
+  ...options,
+} as ResolvedServerOptions);
+
+describe('computeHmrSource', () => {
+  it('should use a port wildcard when the dev server may change its port', () => {
+    expect(computeHmrSource(createServerOptions({}))).toBe('ws://localhost:*');
+  });
+
+  it('should use the dev server host and port', () => {
+    expect(computeHmrSource(createServerOptions({ host: 'dev.local', strictPort: true, port: 3000 }))).toBe('ws://dev.local:3000');
+    expect(computeHmrSource(createServerOptions({ host: true, strictPort: true }))).toBe('ws://*:5173');
+  });
+
+  it('should use the HMR options', () => {
+    expect(computeHmrSource(createServerOptions({ hmr: { protocol: 'wss', host: 'hmr.local', port: 24678, clientPort: 443 } })))
+      .toBe('wss://hmr.local:443');
+  });
+
+  it('should not allow a WebSocket when HMR is disabled', () => {
+    expect(computeHmrSource(createServerOptions({ hmr: false }))).toBeUndefined();
+  });
+});
+
+describe('computeDevServerRelaxations', () => {
+  it('should allow HMR and inline styles by default', () => {
+    expect(computeDevServerRelaxations(createServerOptions({ strictPort: true }), {}, false)).toEqual([
+      { directives: ['connect-src'], sources: ['ws://localhost:5173'] },
+      { directives: ['style-src-elem', 'style-src'], sources: ['\'unsafe-inline\''] },
+    ]);
+  });
+
+  it('should not allow inline styles when nonces are configured and allow eval on demand', () => {
+    expect(computeDevServerRelaxations(createServerOptions({}), { hmr: false, unsafeEval: true }, true)).toEqual([
+      { directives: ['script-src'], sources: ['\'unsafe-eval\''] },
+    ]);
+  });
+});
+
+describe('computeRulesWithDevServerRelaxations', () => {
+  it('should add the sources to the configured directives or create them from default-src', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+      'connect-src': {
+        default: '\'self\' https://api.example.com',
+        development: '\'self\'',
+      },
+    };
+    const relaxations: DevServerRelaxation[] = [
+      { directives: ['connect-src'], sources: ['ws://localhost:5173'] },
+      { directives: ['style-src-elem', 'style-src'], sources: ['\'unsafe-inline\''] },
+    ];
+
+    expect(computeRulesWithDevServerRelaxations<Environment>(rules, relaxations)).toEqual({
+      'default-src': '\'self\'',
+      'connect-src': {
+        default: '\'self\' https://api.example.com ws://localhost:5173',
+        development: '\'self\' ws://localhost:5173',
+      },
+      'style-src': '\'self\' \'unsafe-inline\'',
+    });
+  });
+
+  it('should remove none from the directives receiving the sources', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'none\'',
+      'style-src': ['none'],
+    };
+    const relaxations: DevServerRelaxation[] = [
+      { directives: ['connect-src'], sources: ['ws://localhost:5173'] },
+      { directives: ['style-src-elem', 'style-src'], sources: ['\'unsafe-inline\''] },
+    ];
+
+    expect(computeRulesWithDevServerRelaxations<Environment>(rules, relaxations)).toEqual({
+      'default-src': '\'none\'',
+      'connect-src': 'ws://localhost:5173',
+      'style-src': ['\'unsafe-inline\''],
+    });
+  });
+});
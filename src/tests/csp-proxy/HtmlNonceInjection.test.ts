@@ -0,0 +1,35 @@
+import { computeHtmlWithNonce } from '@lib/csp-proxy/HtmlNonceInjection';
+import { describe, expect, it } from 'vitest';
+
+describe('computeHtmlWithNonce', () => {
+  it('should add the nonce to scripts, styles, stylesheets and modulepreload links', () => {
+    const html: string = `<head>
+<link rel="modulepreload" href="/a.js" />
+<link rel="icon" href="/favicon.ico">
+<link rel="stylesheet" href="/b.css">
+<style>body { margin: 0; }</style>
+</head>
+<script type="module" src="/c.js"></script>`;
+
+    expect(computeHtmlWithNonce(html, 'abc', undefined, true)).toBe(`<head>
+<link rel="modulepreload" href="/a.js" nonce="abc"/>
+<link rel="icon" href="/favicon.ico">
+<link rel="stylesheet" href="/b.css" nonce="abc">
+<style nonce="abc">body { margin: 0; }</style>
+</head>
+<script type="module" src="/c.js" nonce="abc"></script>`);
+  });
+
+  it('should replace the nonce placeholder and keep existing nonces', () => {
+    const html: string = '<meta property="csp-nonce" nonce="{RANDOM}"><script nonce="{RANDOM}">a()</script><script nonce="other">b()</script>';
+
+    expect(computeHtmlWithNonce(html, 'abc', '{RANDOM}'))
+      .toBe('<meta property="csp-nonce" nonce="abc"><script nonce="abc">a()</script><script nonce="other">b()</script>');
+  });
+
+  it('should not add the nonce to the tags without placeholder by default', () => {
+    const html: string = '<script nonce="{RANDOM}">a()</script><p><script>alert(document.cookie)</script></p>';
+
+    expect(computeHtmlWithNonce(html, 'abc', '{RANDOM}')).toBe('<script nonce="abc">a()</script><p><script>alert(document.cookie)</script></p>');
+  });
+});
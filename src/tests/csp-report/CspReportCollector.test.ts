@@ -0,0 +1,209 @@
+import {
+  computeReportingEndpointsHeaderValue,
+  configureCspReportCollectorServer,
+  computeRulesWithReportCollector,
+  CspViolation,
+  CspViolationRegistry,
+  parseCspViolationReports,
+  registerCspViolation,
+} from '@lib/csp-report/CspReportCollector';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import { EventEmitter, once } from 'node:events';
+import * as http from 'node:http';
+import { Readable } from 'node:stream';
+import { Connect, ViteDevServer } from 'vite';
+import { describe, expect, it } from 'vitest';
+
+describe('parseCspViolationReports', () => {
+  it('should parse a legacy report-uri report', () => {
+    const payload: unknown = {
+      'csp-report': {
+        'document-uri': 'http://localhost:5173/',
+        'violated-directive': 'script-src-elem \'self\'',
+        'effective-directive': 'script-src-elem',
+        'blocked-uri': 'https://cdn.example.com/script.js',
+        disposition: 'report',
+      },
+    };
+
+    const result: CspViolation[] = parseCspViolationReports(payload);
+
+    expect(result).toEqual([{
+      documentUri: 'http://localhost:5173/',
+      directive: 'script-src-elem',
+      blockedUri: 'https://cdn.example.com/script.js',
+      disposition: 'report',
+      sourceFile: undefined,
+      lineNumber: undefined,
+      sample: undefined,
+    }]);
+  });
+
+  it('should parse Reporting API reports and ignore other report types', () => {
+    const payload: unknown = [
+      {
+        type: 'csp-violation',
+        url: 'http://localhost:5173/',
+        body: {
+          documentURL: 'http://localhost:5173/',
+          effectiveDirective: 'img-src',
+          blockedURL: 'https://images.example.com/logo.png',
+          disposition: 'enforce',
+        },
+      },
+      {
+        type: 'deprecation',
+        url: 'http://localhost:5173/',
+        body: {},
+      },
+    ];
+
+    const result: CspViolation[] = parseCspViolationReports(payload);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].directive).toBe('img-src');
+    expect(result[0].blockedUri).toBe('https://images.example.com/logo.png');
+  });
+
+  it('should return no violation for an unknown payload', () => {
+    expect(parseCspViolationReports({ foo: 'bar' })).toEqual([]);
+  });
+});
+
+describe('registerCspViolation', () => {
+  it('should group violations by directive and blocked URI', () => {
+    const registry: CspViolationRegistry = new Map();
+    const violation: CspViolation = {
+      documentUri: 'http://localhost:5173/',
+      directive: 'script-src-elem',
+      blockedUri: 'inline',
+    };
+
+    expect(registerCspViolation(registry, violation)).toBe(true);
+    expect(registerCspViolation(registry, { ...violation, documentUri: 'http://localhost:5173/other' })).toBe(false);
+    expect(registerCspViolation(registry, { ...violation, directive: 'style-src-elem' })).toBe(true);
+
+    expect(registry.size).toBe(2);
+    expect(registry.get('script-src-elem inline')?.count).toBe(2);
+  });
+});
+
+describe('computeRulesWithReportCollector', () => {
+  it('should add report-uri and report-to directives with default values', () => {
+    const rules: CspPolicies = {
+      'default-src': '\'self\'',
+      'report-uri': 'https://reports.example.com',
+    };
+
+    const result: CspPolicies = computeRulesWithReportCollector(rules, {});
+
+    expect(result).toEqual({
+      'default-src': '\'self\'',
+      'report-uri': '/__csp-report',
+      'report-to': 'csp-endpoint',
+    });
+  });
+
+  it('should use the configured endpoint path and group name', () => {
+    const result: CspPolicies = computeRulesWithReportCollector({}, { endpointPath: '/reports', groupName: 'dev' });
+
+    expect(result).toEqual({
+      'report-uri': '/reports',
+      'report-to': 'dev',
+    });
+  });
+});
+
+describe('computeReportingEndpointsHeaderValue', () => {
+  it('should compute an absolute endpoint URL when the host is known', () => {
+    expect(computeReportingEndpointsHeaderValue({}, 'localhost:5173')).toBe('csp-endpoint="http://localhost:5173/__csp-report"');
+  });
+
+  it('should use the protocol of the request', () => {
+    expect(computeReportingEndpointsHeaderValue({}, 'example.com', 'https')).toBe('csp-endpoint="https://example.com/__csp-report"');
+  });
+
+  it('should fallback to the endpoint path when the host is unknown', () => {
+    expect(computeReportingEndpointsHeaderValue({ groupName: 'dev' })).toBe('dev="/__csp-report"');
+  });
+});
+
+describe('configureCspReportCollectorServer', () => {
+  type CollectorResponse = {
+    statusCode: number,
+    headers: Record<string, string>,
+  };
+
+  const createCollector = (onViolations?: (violations: CspViolation[]) => void): [Connect.NextHandleFunction, CspViolationRegistry] => {
+    let middleware: Connect.NextHandleFunction | undefined;
+    const server: ViteDevServer = {
+      middlewares: {
+        use: (_path: string, handler: Connect.NextHandleFunction) => {
+          middleware = handler;
+        },
+      },
+    } as unknown as ViteDevServer;
+
+    const registry: CspViolationRegistry = configureCspReportCollectorServer(server, {}, onViolations);
+    return [middleware as Connect.NextHandleFunction, registry];
+  };
+
+  const sendReport = async (
+    middleware: Connect.NextHandleFunction,
+    method: string,
+    contentType: string,
+    body: string,
+  ): Promise<CollectorResponse> => {
+    const request: Connect.IncomingMessage = Object.assign(Readable.from([Buffer.from(body)]), {
+      method,
+      headers: { 'content-type': contentType },
+    }) as unknown as Connect.IncomingMessage;
+
+    const headers: Record<string, string> = {};
+    const response: http.ServerResponse = Object.assign(new EventEmitter(), {
+      statusCode: 200,
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      },
+      end: () => response.emit('finish'),
+    }) as unknown as http.ServerResponse;
+
+    const finished: Promise<unknown[]> = once(response, 'finish');
+    middleware(request, response, () => undefined);
+    await finished;
+    return { statusCode: response.statusCode, headers };
+  };
+
+  const legacyReport: string = JSON.stringify({
+    'csp-report': { 'document-uri': 'http://localhost:5173/', 'effective-directive': 'img-src', 'blocked-uri': 'https://images.example.com/a.png' },
+  });
+
+  it('should register the violations of a valid report', async () => {
+    const receivedViolations: CspViolation[] = [];
+    const [middleware, registry] = createCollector((violations: CspViolation[]) => receivedViolations.push(...violations));
+
+    expect(await sendReport(middleware, 'POST', 'application/csp-report', legacyReport)).toEqual({ statusCode: 204, headers: {} });
+    expect(await sendReport(middleware, 'POST', 'application/csp-report; charset=utf-8', legacyReport)).toEqual({ statusCode: 204, headers: {} });
+    expect(registry.get('img-src https://images.example.com/a.png')?.count).toBe(2);
+    expect(receivedViolations).toHaveLength(2);
+  });
+
+  it('should reject the requests that are not POST', async () => {
+    const [middleware] = createCollector();
+
+    expect(await sendReport(middleware, 'GET', 'application/csp-report', '')).toEqual({ statusCode: 405, headers: { Allow: 'POST' } });
+  });
+
+  it('should reject the unsupported content types', async () => {
+    const [middleware, registry] = createCollector();
+
+    expect((await sendReport(middleware, 'POST', 'text/plain', legacyReport)).statusCode).toBe(415);
+    expect(registry.size).toBe(0);
+  });
+
+  it('should reject the invalid JSON bodies', async () => {
+    const [middleware] = createCollector();
+
+    expect((await sendReport(middleware, 'POST', 'application/reports+json', '{"csp-report":')).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  computeCspRulesForPath,
+  computePathGlobPattern,
+  computeRequestPath,
+  computeRoutePathPattern,
+  CspRoutePolicy,
+  isDocumentRequest,
+  resolveCspRoutePolicies,
+} from '@lib/csp-routes/CspRoutes';
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'staging';
+
+const rules: CspPolicies<Environment> = {
+  'default-src': ['self'],
+  'frame-ancestors': ['none'],
+};
+
+const routes: CspRoutePolicy<Environment>[] = [
+  { path: '/widget/**', rules: { 'frame-ancestors': ['https://partner.example.com'] } },
+  { path: ['/admin', '/admin/*.html'], rules: { 'script-src': ['self'] } },
+  { path: '/**', rules: { 'img-src': ['self'] } },
+];
+
+describe('computePathGlobPattern', () => {
+  it('should convert the wildcards and escape the other characters', () => {
+    expect(computePathGlobPattern('/widget/**')).toBe('^/widget/.*$');
+    expect(computePathGlobPattern('/admin/*.html')).toBe('^/admin/[^/]*\\.html$');
+    expect(computePathGlobPattern('/page-?')).toBe('^/page-[^/]$');
+  });
+});
+
+describe('computeRoutePathPattern', () => {
+  it('should match any path of the route', () => {
+    const pattern: RegExp = new RegExp(computeRoutePathPattern<Environment>(routes[1]));
+
+    expect(pattern.test('/admin')).toBe(true);
+    expect(pattern.test('/admin/users.html')).toBe(true);
+    expect(pattern.test('/admin/users/list.html')).toBe(false);
+  });
+
+  it('should require the inputs to be resolved', () => {
+    expect(() => computeRoutePathPattern<Environment>({ input: 'admin', rules: {} })).toThrow(
+      'The CSP route policy of input "admin" must have a path, the inputs are only resolved by the Vite plugins',
+    );
+  });
+});
+
+describe('computeCspRulesForPath', () => {
+  it('should merge the rules of the first matching route on top of the base rules', () => {
+    expect(computeCspRulesForPath<Environment>(rules, routes, '/widget/embed.html')).toEqual({
+      'default-src': ['self'],
+      'frame-ancestors': ['https://partner.example.com'],
+    });
+    expect(computeCspRulesForPath<Environment>(rules, routes, '/admin')).toEqual({
+      ...rules,
+      'script-src': ['self'],
+    });
+  });
+
+  it('should keep the base rules when no route matches', () => {
+    expect(computeCspRulesForPath<Environment>(rules, routes.slice(0, 2), '/index.html')).toBe(rules);
+  });
+});
+
+describe('isDocumentRequest', () => {
+  it('should use the fetch destination sent by the browser', () => {
+    expect(isDocumentRequest({ 'sec-fetch-dest': 'iframe', accept: '*/*' })).toBe(true);
+    expect(isDocumentRequest({ 'sec-fetch-dest': 'script', accept: 'text/html' })).toBe(false);
+  });
+
+  it('should fall back to the accepted content types', () => {
+    expect(isDocumentRequest({ accept: 'text/html,application/xhtml+xml' })).toBe(true);
+    expect(isDocumentRequest({ accept: 'application/json' })).toBe(false);
+  });
+});
+
+describe('computeRequestPath', () => {
+  it('should remove the query string and the fragment', () => {
+    expect(computeRequestPath('/admin/?tab=users#top')).toBe('/admin/');
+  });
+});
+
+describe('resolveCspRoutePolicies', () => {
+  const root: string = path.resolve('project');
+
+  it('should resolve the inputs by name or by file to the paths of their HTML entry', () => {
+    const resolvedRoutes: CspRoutePolicy<Environment>[] = resolveCspRoutePolicies<Environment>(
+      [
+        { input: 'admin', rules: {} },
+        { input: 'payment.html', rules: {} },
+        routes[0],
+      ],
+      root,
+      '/app',
+      { main: 'index.html', admin: path.join(root, 'admin/index.html') },
+    );
+
+    expect(resolvedRoutes.map((route: CspRoutePolicy<Environment>) => route.path)).toEqual([
+      ['/app/admin/', '/app/admin/index.html'],
+      ['/app/payment.html'],
+      '/widget/**',
+    ]);
+  });
+
+  it('should reject inputs that are not HTML entries', () => {
+    expect(() => resolveCspRoutePolicies<Environment>([{ input: 'worker', rules: {} }], root, '/', { worker: 'src/worker.ts' }))
+      .toThrow(`The CSP route input "worker" must be an HTML entry, found ${path.join(root, 'src/worker.ts')}`);
+  });
+});
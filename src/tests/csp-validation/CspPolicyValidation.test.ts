@@ -0,0 +1,125 @@
+import { CspPolicies } from '@lib/csp/CspDirectives';
+import {
+  applyCspPoliciesValidation,
+  CspValidationIssue,
+  validateCspPolicies,
+} from '@lib/csp-validation/CspPolicyValidation';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'production' | 'development';
+
+const computeMessages = (issues: CspValidationIssue[]): string[] => issues.map(({ message }: CspValidationIssue) => message);
+
+describe('validateCspPolicies', () => {
+  it('should not report issues for a valid policy', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': '\'self\'',
+      'script-src': '\'self\' \'nonce-{RANDOM}\' \'sha256-abc+/=\' https://*.example.com:443/path',
+      'img-src': ['self', 'data:', 'blob:'],
+      'report-to': 'csp-endpoint',
+      'report-uri': '/csp-report',
+    };
+
+    expect(validateCspPolicies<Environment>(rules, ['production'])).toEqual([]);
+  });
+
+  it('should report unquoted keywords, invalid keywords and malformed hosts', () => {
+    const rules: CspPolicies<Environment> = {
+      'default-src': 'self \'selfie\' https:/example.com',
+    };
+
+    expect(computeMessages(validateCspPolicies<Environment>(rules))).toEqual([
+      'self must be quoted: \'self\', otherwise it is read as a host',
+      '\'selfie\' is not a valid keyword, nonce or hash',
+      'https:/example.com is not a valid host or scheme',
+    ]);
+  });
+
+  it('should report none combined with other sources', () => {
+    const issues: CspValidationIssue[] = validateCspPolicies<Environment>({ 'object-src': '\'none\' \'self\'' });
+
+    expect(issues).toEqual([{
+      level: 'error',
+      directive: 'object-src',
+      message: '\'none\' cannot be combined with other sources, the other sources are ignored',
+      environments: ['default'],
+    }]);
+  });
+
+  it('should report unsafe sources and unsafe-inline next to a nonce', () => {
+    const rules: CspPolicies<Environment> = {
+      'script-src': '\'self\' \'unsafe-eval\' \'unsafe-inline\' \'nonce-abc\'',
+      'style-src': '\'self\' \'unsafe-inline\'',
+    };
+
+    expect(computeMessages(validateCspPolicies<Environment>(rules))).toEqual([
+      '\'unsafe-inline\' is ignored by browsers supporting nonces and hashes when a nonce or a hash is present',
+      '\'unsafe-eval\' allows the execution of strings as code with eval()',
+    ]);
+  });
+
+  it('should report deprecated directives and report-uri without report-to', () => {
+    const rules: CspPolicies<Environment> = {
+      'block-all-mixed-content': true,
+      'report-uri': '/csp-report',
+    };
+
+    expect(computeMessages(validateCspPolicies<Environment>(rules))).toEqual([
+      'block-all-mixed-content is deprecated, use upgrade-insecure-requests instead',
+      'report-uri is deprecated, add report-to with a Reporting-Endpoints header to support recent browsers',
+    ]);
+  });
+
+  it('should report invalid sandbox tokens and unknown directives', () => {
+    const rules: CspPolicies<Environment> = {
+      sandbox: ['allow-scripts', 'allow-everything'],
+      'require-trusted-types-for': 'script',
+      ...{ 'plugin-types': 'application/pdf', 'img-source': '\'self\'' },
+    };
+
+    expect(validateCspPolicies<Environment>(rules).map(({ level, message }: CspValidationIssue) => `${level}: ${message}`)).toEqual([
+      expect.stringMatching(/^error: allow-everything is not a valid sandbox token, valid tokens are: allow-downloads, /),
+      'error: script is not a valid require-trusted-types-for token, valid tokens are: \'script\'',
+      'warning: plugin-types is deprecated, plugins are no longer supported by browsers',
+      'warning: img-source is not a known CSP directive, it is ignored by browsers',
+    ]);
+  });
+
+  it('should group the environments having the same issue', () => {
+    const rules: CspPolicies<Environment> = {
+      'script-src': {
+        default: '\'self\' \'unsafe-eval\'',
+        development: { extend: 'http://localhost:5173' },
+        production: '\'self\'',
+      },
+    };
+
+    expect(validateCspPolicies<Environment>(rules, ['production', 'development'])).toEqual([{
+      level: 'warning',
+      directive: 'script-src',
+      message: '\'unsafe-eval\' allows the execution of strings as code with eval()',
+      environments: ['default', 'development'],
+    }]);
+  });
+});
+
+describe('applyCspPoliciesValidation', () => {
+  const rules: CspPolicies<Environment> = {
+    'script-src': '\'self\' \'unsafe-eval\'',
+    'object-src': 'none',
+  };
+
+  it('should throw when an error is found and configured to fail on errors', () => {
+    expect(() => applyCspPoliciesValidation<Environment>(rules, [], { failOn: 'error' })).toThrow('object-src [default]: none must be quoted');
+  });
+
+  it('should only report issues by default', () => {
+    expect(applyCspPoliciesValidation<Environment>(rules)).toHaveLength(2);
+    expect(applyCspPoliciesValidation<Environment>(rules, [], { failOn: 'never' })).toHaveLength(2);
+  });
+
+  it('should throw on warnings when configured to fail on warnings', () => {
+    expect(() => applyCspPoliciesValidation<Environment>({ 'script-src': '\'unsafe-eval\'' }, [], { failOn: 'warning' }))
+      .toThrow('script-src [default]: \'unsafe-eval\' allows');
+  });
+});
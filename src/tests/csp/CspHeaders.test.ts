@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { computeHeaderNameByReportType, ReportType } from '@lib/csp/CspHeaders';
+import {
+  computeCspHeadersForEnvironment,
+  computeHeaderNameByReportType,
+  computeReportTypeForEnvironment,
+  ReportType,
+} from '@lib/csp/CspHeaders';
 
 describe('computeHeaderNameByReportType', () => {
   it('should return Content-Security-Policy-Report-Only for report type', () => {
@@ -24,3 +29,48 @@ describe('computeHeaderNameByReportType', () => {
     expect(result).toBe('Content-Security-Policy');
   });
 });
+
+describe('computeReportTypeForEnvironment', () => {
+  it('should return the report type of the environment or the default report type', () => {
+    expect(computeReportTypeForEnvironment<'staging' | 'production'>({ default: 'strict', staging: 'report' }, 'staging')).toBe('report');
+    expect(computeReportTypeForEnvironment<'staging' | 'production'>({ default: 'strict', staging: 'report' }, 'production')).toBe('strict');
+    expect(computeReportTypeForEnvironment<'staging' | 'production'>({ default: 'strict', staging: 'report' })).toBe('strict');
+    expect(computeReportTypeForEnvironment<'staging' | 'production'>('report', 'production')).toBe('report');
+    expect(computeReportTypeForEnvironment()).toBeUndefined();
+  });
+});
+
+describe('computeCspHeadersForEnvironment', () => {
+  it('should enforce the rules and report the report-only rules', () => {
+    const result: Record<string, string> = computeCspHeadersForEnvironment(
+      { 'default-src': ['self', 'https:'] },
+      undefined,
+      'strict',
+      { 'default-src': ['self'] },
+    );
+
+    expect(result).toEqual({
+      'Content-Security-Policy': 'default-src \'self\' https:',
+      'Content-Security-Policy-Report-Only': 'default-src \'self\'',
+    });
+  });
+
+  it('should send both policies in the report-only header when the rules are reported', () => {
+    const result: Record<string, string> = computeCspHeadersForEnvironment<'staging'>(
+      { 'default-src': ['self', 'https:'] },
+      'staging',
+      { default: 'strict', staging: 'report' },
+      { 'default-src': ['self'] },
+    );
+
+    expect(result).toEqual({
+      'Content-Security-Policy-Report-Only': 'default-src \'self\' https:, default-src \'self\'',
+    });
+  });
+
+  it('should not add the report-only header when the report-only rules are empty', () => {
+    expect(computeCspHeadersForEnvironment({ 'default-src': ['self'] }, undefined, undefined, {})).toEqual({
+      'Content-Security-Policy': 'default-src \'self\'',
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  computePermissionsPolicyHeaderValue,
+  computeSecurityHeadersForEnvironment,
+  computeStrictTransportSecurityHeaderValue,
+  SecurityHeadersByEnvironment,
+} from '@lib/csp/SecurityHeaders';
+import { describe, expect, it } from 'vitest';
+
+type Environment = 'development' | 'production';
+
+describe('computeStrictTransportSecurityHeaderValue', () => {
+  it('should add the enabled options after the max age', () => {
+    expect(computeStrictTransportSecurityHeaderValue({ maxAge: 31536000 })).toBe('max-age=31536000');
+    expect(computeStrictTransportSecurityHeaderValue({ maxAge: 63072000, includeSubDomains: true, preload: true }))
+      .toBe('max-age=63072000; includeSubDomains; preload');
+  });
+});
+
+describe('computePermissionsPolicyHeaderValue', () => {
+  it('should quote the origins but not the keywords', () => {
+    const result: string = computePermissionsPolicyHeaderValue({
+      camera: [],
+      geolocation: ['self', 'https://maps.example.com'],
+      fullscreen: '*',
+    });
+
+    expect(result).toBe('camera=(), geolocation=(self "https://maps.example.com"), fullscreen=*');
+  });
+});
+
+describe('computeSecurityHeadersForEnvironment', () => {
+  const securityHeaders: SecurityHeadersByEnvironment<Environment> = {
+    default: {
+      strictTransportSecurity: { maxAge: 31536000, includeSubDomains: true },
+      contentTypeOptions: 'nosniff',
+      referrerPolicy: 'strict-origin-when-cross-origin',
+      permissionsPolicy: { camera: [] },
+      crossOriginOpenerPolicy: 'same-origin',
+      crossOriginEmbedderPolicy: 'require-corp',
+      crossOriginResourcePolicy: 'same-origin',
+    },
+    development: {
+      strictTransportSecurity: false,
+      crossOriginEmbedderPolicy: 'credentialless',
+    },
+  };
+
+  it('should compute every configured header', () => {
+    expect(computeSecurityHeadersForEnvironment<Environment>(securityHeaders, 'production')).toEqual({
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+      'X-Content-Type-Options': 'nosniff',
+      'Referrer-Policy': 'strict-origin-when-cross-origin',
+      'Permissions-Policy': 'camera=()',
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'require-corp',
+      'Cross-Origin-Resource-Policy': 'same-origin',
+    });
+  });
+
+  it('should merge the headers of the environment with the default headers', () => {
+    const result: Record<string, string> = computeSecurityHeadersForEnvironment<Environment>(securityHeaders, 'development');
+
+    expect(result['Strict-Transport-Security']).toBeUndefined();
+    expect(result['Cross-Origin-Embedder-Policy']).toBe('credentialless');
+    expect(result['X-Content-Type-Options']).toBe('nosniff');
+  });
+
+  it('should apply the same headers to every environment when they are not defined by environment', () => {
+    expect(computeSecurityHeadersForEnvironment<Environment>({ referrerPolicy: 'no-referrer' }, 'development'))
+      .toEqual({ 'Referrer-Policy': 'no-referrer' });
+  });
+});